@@ -1,4 +1,5 @@
 import crypto from 'crypto';
+import { createLogger } from './logger.js';
 
 /**
  * API Key Authentication Utility
@@ -6,6 +7,8 @@ import crypto from 'crypto';
  * Handles authentication for the MCP server using API keys with sk- prefix format
  */
 
+const log = createLogger('auth');
+
 export interface AuthConfig {
   enabled: boolean;
   apiKeys: string[];
@@ -52,7 +55,7 @@ export function createAuthConfig(): AuthConfig {
     .filter(key => validateApiKeyFormat(key));
 
   if (apiKeys.length === 0) {
-    console.warn('⚠️  Authentication is enabled but no valid API keys configured. Set MCP_API_KEYS environment variable.');
+    log.warn('⚠️  Authentication is enabled but no valid API keys configured. Set MCP_API_KEYS environment variable.');
   }
 
   return {
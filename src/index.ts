@@ -1,9 +1,31 @@
 import express from "express";
 import cors from "cors";
+import type { Server } from "http";
+import { WebSocketServer, type WebSocket } from "ws";
 import { discoverTVs } from "./tv/discovery.js";
-import { LGTVClient } from "./tv/client.js";
-import { TVCommands } from "./tv/commands.js";
+import { LGTVClient, type PairingType, type RequestOptions } from "./tv/client.js";
+import { KEYBOARD_WAIT_TIMEOUT, TVCommands } from "./tv/commands.js";
 import { tvDatabase } from "./tv/database.js";
+import { connectEndpoint, tvSessions, type TVSession } from "./tv/sessions.js";
+import { REMOTE_KEYS, normalizeKey, parseKeySequence } from "./tv/keys.js";
+import { SOUND_MODES, SOUND_OUTPUTS, parseSoundOutput, parseSoundSettings } from "./tv/audio.js";
+import { ENERGY_SAVING_MODES, InvalidSettingError, PICTURE_MODES, parsePictureSettings } from "./tv/picture.js";
+import { keyboardState } from "./tv/events.js";
+import { resolveDeepLink } from "./tv/deeplinks.js";
+import { AppNotRunningError, normalizeAppName, type AppResolution } from "./tv/apps.js";
+import type { CatalogApp } from "./tv/catalog.js";
+import { iconCache, matchesIfNoneMatch, type CachedIcon } from "./tv/icons.js";
+import { DEFAULT_FAVORITE_GROUP, groupFavorites, type ChannelResolution } from "./tv/channels.js";
+import {
+  DEFAULT_PERMISSION_PROFILE,
+  PERMISSION_PROFILES,
+  PROFILE_DETAILS,
+  parsePermissionProfile,
+  PermissionDeniedError,
+} from "./tv/permissions.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("api");
 
 type Request = express.Request;
 type Response = express.Response;
@@ -14,110 +36,199 @@ const app = express();
 app.use(cors());
 app.use(express.json());
 app.use((req, res, next) => {
-  console.log(`<-- ${req.method} ${req.path}`);
+  log.debug(`<-- ${req.method} ${req.path}`);
   const startTime = Date.now();
   res.on('finish', () => {
     const duration = Date.now() - startTime;
-    console.log(`--> ${req.method} ${req.path} ${res.statusCode} ${duration}ms`);
+    log.info(`--> ${req.method} ${req.path} ${res.statusCode} ${duration}ms`);
   });
   next();
 });
 
-// Global TV client instance and state tracking by IP
-export let tvClient: LGTVClient | null = null;
-export let tvCommands: TVCommands | null = null;
-export let currentTVIP: string | null = null;
+// Per-request options for TV calls: ?timeout= (ms) and a signal that aborts when the HTTP client disconnects
+app.use((req, res, next) => {
+  const timeout = req.query.timeout === undefined ? undefined : Number(req.query.timeout);
+  if (timeout !== undefined && !(timeout > 0)) {
+    return res.status(400).json({ success: false, error: "timeout must be a positive number of milliseconds" });
+  }
 
-// Track pending pairing state by IP
-export const pendingPairings = new Map<string, {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) {
+      controller.abort(new Error("Client disconnected"));
+    }
+  });
+  res.locals.requestOptions = { timeout, signal: controller.signal } satisfies RequestOptions;
+  next();
+});
+
+export interface PendingPairing {
   client: LGTVClient;
+  pairingType: PairingType;
   secure: boolean;
   name?: string;
-}>();
+  mac?: string;
+}
 
-// Active subscriptions for SSE clients
-const sseClients = new Map<string, Response>();
-const activeSubscriptions = new Map<string, string>(); // subscriptionId -> uri
+// Track pending pairing state by IP
+export const pendingPairings = new Map<string, PendingPairing>();
 
 /**
- * Auto-reconnect to TV using stored credentials
+ * Parse the pairing mode of a connect request ("pin" or "prompt", PIN by default)
+ * @returns The mode, or null if it is not one of those
  */
-export async function autoReconnect(ip: string): Promise<boolean> {
-  try {
-    const credentials = tvDatabase.getCredentials(ip);
-    if (!credentials || !credentials.isValid) {
-      console.log(`⚠️  No valid credentials found for ${ip}`);
-      return false;
-    }
+export function parsePairingType(value: unknown): PairingType | null {
+  if (value === undefined || value === null || value === "") return "PIN";
+  const upper = String(value).toUpperCase();
+  return upper === "PIN" || upper === "PROMPT" ? upper : null;
+}
 
-    console.log(`🔄 Auto-reconnecting to ${ip}...`);
-    
-    tvClient = new LGTVClient({
-      ip: credentials.ip,
-      secure: credentials.secure,
-      clientKey: credentials.clientKey,
+/**
+ * Finish a PROMPT pairing in the background once the user accepts on the TV.
+ * A failed pairing stays in pendingPairings so its status can still be reported.
+ */
+export function awaitPromptPairing(ip: string, pending: PendingPairing): void {
+  pending.client.waitForPairing()
+    .then(() => {
+      if (pendingPairings.get(ip) !== pending) return;
+      tvSessions.finishPairing(ip, pending.client, pending);
+      pendingPairings.delete(ip);
+      log.info(`✅ ${ip} accepted the pairing request`);
+    })
+    .catch((err) => {
+      log.error(`❌ Pairing with ${ip} failed`, { error: err.message });
+      if (tvSessions.get(ip)?.client === pending.client) {
+        tvSessions.remove(ip);
+      }
     });
-
-    await tvClient.connect();
-    await tvClient.registerWithStoredKey();
-    
-    tvCommands = new TVCommands(tvClient);
-    currentTVIP = ip;
-    
-    console.log(`✅ Auto-reconnected to ${ip}`);
-    return true;
-  } catch (err: any) {
-    console.error(`❌ Auto-reconnect failed: ${err.message}`);
-    
-    // If authentication failed, invalidate credentials
-    if (err.message.includes("401") || err.message.includes("authentication")) {
-      tvDatabase.invalidateCredentials(ip);
-      console.log(`🔑 Credentials expired for ${ip}, please reconnect manually`);
-    }
-    
-    return false;
-  }
 }
 
 /**
- * Ensure TV connection (auto-reconnect if needed)
+ * Report how far the pairing with a TV got
  */
-export async function ensureConnection(): Promise<boolean> {
-  if (tvClient && tvCommands) {
-    return true;
+export function getPairingStatus(ip: string) {
+  const pending = pendingPairings.get(ip);
+  if (pending) {
+    const { pairingState, pairingError } = pending.client;
+    return {
+      ip,
+      pairingType: pending.pairingType,
+      state: pairingState,
+      paired: false,
+      ...(pairingError && { error: pairingError }),
+    };
   }
 
-  // Try to reconnect to most recent TV
-  const recentTV = tvDatabase.getMostRecentTV();
-  if (recentTV) {
-    return await autoReconnect(recentTV.ip);
+  const session = tvSessions.get(ip);
+  if (session?.commands) {
+    return { ip, state: "paired", paired: true, clientKey: session.client.clientKey };
   }
+  return { ip, state: "none", paired: false };
+}
+
+// Open SSE streams
+const sseClients = new Map<string, Response>();
+
+/**
+ * Read the optional target TV (IP or name) from the query string or body
+ */
+export function getTarget(req: Request): string | undefined {
+  const target = req.query.tv ?? req.body?.tv;
+  return typeof target === "string" && target.trim() ? target.trim() : undefined;
+}
+
+/**
+ * Get the commands of the session resolved by requireConnection
+ */
+function commandsFor(res: Response): TVCommands {
+  return (res.locals.session as TVSession).commands!;
+}
+
+/**
+ * Get the app aliases of the TV resolved by requireConnection
+ */
+function aliasesFor(res: Response) {
+  return tvDatabase.getAppAliases((res.locals.session as TVSession).ip);
+}
+
+function favoritesFor(res: Response) {
+  return tvDatabase.getFavoriteChannels((res.locals.session as TVSession).ip);
+}
+
+/**
+ * Answer a channel that did not resolve: 404 with suggestions, or 409 listing the candidates
+ */
+function sendUnresolvedChannel(res: Response, resolution: Exclude<ChannelResolution, { status: "resolved" }>) {
+  return res.status(resolution.status === "ambiguous" ? 409 : 404).json({
+    success: false,
+    error: resolution.status === "ambiguous"
+      ? `"${resolution.query}" matches several channels, use one of the candidates' number or id`
+      : `No channel matches "${resolution.query}"`,
+    candidates: resolution.candidates,
+  });
+}
+
+/**
+ * Point app icons at /api/apps/:id/icon instead of the TV's own HTTP server,
+ * which is only reachable on the LAN and only while the TV is on.
+ * Fallback apps have emoji instead of URLs; those are kept.
+ */
+function withProxiedIcons(req: Request, ip: string, apps: CatalogApp[]): CatalogApp[] {
+  const base = `${req.protocol}://${req.get("host")}/api/apps`;
+  const proxied = (app: CatalogApp, url: string | undefined, size: string) =>
+    url && /^https?:/.test(url) ? `${base}/${encodeURIComponent(app.id)}/icon?tv=${encodeURIComponent(ip)}${size}` : url;
+
+  return apps.map((app) => ({
+    ...app,
+    icon: proxied(app, app.icon, ""),
+    largeIcon: proxied(app, app.largeIcon, "&size=large"),
+  }));
+}
 
-  return false;
+/**
+ * Answer a name that did not resolve to one app: 404 with suggestions, or 409 listing the candidates
+ */
+function sendUnresolved(res: Response, resolution: Exclude<AppResolution, { status: "resolved" }>) {
+  return res.status(resolution.status === "ambiguous" ? 409 : 404).json({
+    success: false,
+    error: resolution.status === "ambiguous"
+      ? `"${resolution.query}" matches several apps, use one of the candidates' id`
+      : `No app matches "${resolution.query}"`,
+    candidates: resolution.candidates,
+  });
 }
 
 /**
- * Set TV client and commands (used by MCP server)
+ * Get the timeout and abort signal of the current request
  */
-export function setTVClient(client: LGTVClient | null, commands: TVCommands | null, ip: string | null) {
-  tvClient = client;
-  tvCommands = commands;
-  currentTVIP = ip;
+function optionsFor(res: Response): RequestOptions {
+  return res.locals.requestOptions;
 }
 
 /**
  * Middleware to ensure TV connection before handling requests
  */
 async function requireConnection(req: Request, res: Response, next: any) {
-  if (!tvCommands) {
-    const reconnected = await ensureConnection();
-    if (!reconnected) {
-      return res.status(400).json({ 
-        success: false, 
-        error: "Not connected to TV. Please connect first using /api/connect" 
-      });
-    }
+  const target = getTarget(req);
+  const session = await tvSessions.ensure(target);
+  if (!session?.commands) {
+    const ip = tvSessions.resolveIP(target);
+    const lastError = ip ? tvSessions.getLastError(ip) : null;
+    return res.status(400).json({ 
+      success: false, 
+      error: target
+        ? `Not connected to TV "${target}". Please connect first using /api/connect`
+        : "Not connected to TV. Please connect first using /api/connect",
+      ...(lastError && { reason: lastError }),
+    });
+  }
+  if (session.client.isReconnecting()) {
+    return res.status(503).json({
+      success: false,
+      error: `Connection to ${session.ip} was lost, reconnecting. Try again shortly.`
+    });
   }
+  res.locals.session = session;
   next();
 }
 
@@ -127,6 +238,7 @@ app.get("/", (req: Request, res: Response) => {
   return res.json({
     name: "LG WebOS TV API",
     version: "1.0.0",
+    targeting: "Every TV route accepts an optional tv (IP or name) in the query string or body; otherwise the default TV is used",
     endpoints: {
       discovery: "GET /api/discover",
       connect: "POST /api/connect",
@@ -139,6 +251,13 @@ app.get("/", (req: Request, res: Response) => {
         get: "GET /api/volume",
         mute: "POST /api/volume/mute",
       },
+      audio: {
+        outputs: "GET /api/audio/outputs",
+        output: "GET /api/audio/output",
+        setOutput: "POST /api/audio/output (body: {output: 'tv_speaker' | 'optical' | 'arc' | 'soundbar' | 'bluetooth' | ...})",
+        settings: "GET /api/audio/settings",
+        setSettings: "POST /api/audio/settings (body: {soundMode?, balance?, avSync?, avSyncValue?})",
+      },
       media: {
         play: "POST /api/media/play",
         pause: "POST /api/media/pause",
@@ -149,44 +268,92 @@ app.get("/", (req: Request, res: Response) => {
         info: "GET /api/media/info",
       },
       system: {
+        powerOn: "POST /api/system/power-on (body: {mac?, timeout?}) - Wake-on-LAN",
         powerOff: "POST /api/system/power-off",
         screenOff: "POST /api/system/screen-off",
         screenOn: "POST /api/system/screen-on",
         info: "GET /api/system/info",
         notify: "POST /api/system/notify",
       },
+      picture: {
+        modes: "GET /api/picture/modes",
+        settings: "GET /api/picture/settings",
+        setSettings: "POST /api/picture/settings (body: {pictureMode?, backlight?, contrast?, brightness?, color?, colorTemperature?, energySaving?})",
+        setMode: "POST /api/picture/mode (body: {mode: 'vivid' | 'standard' | 'cinema' | 'game' | 'filmMaker' | ...})",
+      },
       apps: {
         list: "GET /api/apps",
         running: "GET /api/apps/running",
-        launch: "POST /api/apps/launch",
+        launch: "POST /api/apps/launch (body: {appId | name, contentId?, params?}) - appId may also be a title or alias",
+        resolve: "GET /api/apps/resolve?name= - Which app a name means",
+        aliases: "GET /api/apps/aliases",
+        setAlias: "POST /api/apps/aliases (body: {alias, app})",
+        deleteAlias: "DELETE /api/apps/aliases/:alias",
+        changes: "GET /api/apps/changes?limit=&since= - Apps installed and removed",
+        icon: "GET /api/apps/:id/icon?size=large - App icon, cached on disk",
         current: "GET /api/apps/current",
+        close: "POST /api/apps/close (body: {appId}) - Only if it is running",
+        closeOthers: "POST /api/apps/close-others - Close everything but the foreground app",
+        restart: "POST /api/apps/restart (body: {appId, contentId?, params?}) - Close, then launch again",
+        playUrl: "POST /api/play-url (body: {url}) - Open a YouTube, Netflix, Prime Video, Disney+, Plex or Spotify link in its app, anything else in the browser",
       },
       channels: {
         up: "POST /api/channels/up",
         down: "POST /api/channels/down",
-        list: "GET /api/channels",
+        list: "GET /api/channels?refresh= - Normalized list with favorite groups",
+        resolve: "GET /api/channels/resolve?channel= - Which channel a number, name or favorite means",
         current: "GET /api/channels/current",
-        set: "POST /api/channels/set",
+        set: "POST /api/channels/set (body: {channelId} | {channel: '5.1' | 'BBC One' | 'fav 3'} | {favorite, group?})",
+        favorites: "GET /api/channels/favorites",
+        addFavorite: "POST /api/channels/favorites (body: {channel, group?, slot?})",
+        removeFavorite: "DELETE /api/channels/favorites/:group/:slot",
+        removeGroup: "DELETE /api/channels/favorites/:group",
       },
       inputs: {
         list: "GET /api/inputs",
         set: "POST /api/inputs/set",
       },
-      remote: "POST /api/remote (body: {action: 'up'|'down'|'left'|'right'|'ok'|'back'|'home'})",
+      text: {
+        keyboard: "GET /api/text/keyboard - Whether a text field is focused",
+        type: "POST /api/text/type (body: {text, replace?, submit?, wait?: ms to wait for a text field, 0 = don't})",
+        delete: "POST /api/text/delete (body: {count})",
+        enter: "POST /api/text/enter",
+      },
+      remote: {
+        press: "POST /api/remote (body: {action: 'up'|'down'|'left'|'right'|'ok'|'back'|'home' or any key})",
+        key: "POST /api/remote/key (body: {key} or {keys: [key | {key, delay}], delay?})",
+        keys: "GET /api/remote/keys",
+      },
+      pointer: {
+        move: "POST /api/pointer/move (body: {dx, dy})",
+        scroll: "POST /api/pointer/scroll (body: {dx, dy})",
+        click: "POST /api/pointer/click",
+        drag: "POST /api/pointer/drag (body: {dx, dy, steps?})",
+        channel: "WS /api/pointer/ws?tv= (frames: {type: 'move'|'scroll'|'click'|'button', dx?, dy?, drag?, name?})",
+      },
       search: {
         content: "POST /api/search (body: {query: 'search term', categories?: ['movie', 'tv']})"
       },
       pairing: {
-        connect: "POST /api/connect (body: {ip, secure?, name?}) - Displays PIN on TV",
+        connect: "POST /api/connect (body: {ip, secure?, name?, pairingType?: 'pin' | 'prompt', profile?: 'read-only' | 'basic-remote' | 'full-control'}) - Displays PIN or an Accept prompt on TV",
         pair: "POST /api/pair (body: {pin, ip?, name?}) - Completes pairing with PIN",
+        status: "GET /api/pair/status?ip= - Pairing progress, e.g. whether the prompt was accepted",
+        profiles: "GET /api/permissions/profiles - Permission profiles to pair with",
       },
       credentials: {
         list: "GET /api/credentials",
         delete: "DELETE /api/credentials/:ip",
+        trust: "POST /api/credentials/:ip/trust (body: {fingerprint?}) - Re-pin the TV certificate",
         reconnect: "POST /api/reconnect",
       },
+      sessions: {
+        list: "GET /api/sessions",
+        setDefault: "POST /api/sessions/default (body: {tv})",
+      },
       subscriptions: {
         volume: "GET /api/subscribe/volume",
+        audioOutput: "GET /api/subscribe/audio-output",
+        keyboard: "GET /api/subscribe/keyboard",
         channel: "GET /api/subscribe/channel",
         app: "GET /api/subscribe/app",
         media: "GET /api/subscribe/media",
@@ -199,7 +366,7 @@ app.get("/", (req: Request, res: Response) => {
 
 app.get("/api/discover", async (req: Request, res: Response) => {
   try {
-    console.log("🔍 Discovering TVs on network...");
+    log.info("🔍 Discovering TVs on network...");
     const tvs = await discoverTVs(5000);
     
     return res.json({
@@ -216,118 +383,135 @@ app.get("/api/discover", async (req: Request, res: Response) => {
 });
 
 app.post("/api/connect", async (req: Request, res: Response) => {
+  let client: LGTVClient | null = null;
   try {
     const body = await req.body;
-    const { ip, secure, name, force = false } = body;
+    const { ip, secure, port, name, force = false } = body;
 
     if (!ip) {
       return res.status(400).json({ success: false, error: "IP address required" });
     }
 
+    const pairingType = parsePairingType(body.pairingType);
+    if (!pairingType) {
+      return res.status(400).json({ success: false, error: 'pairingType must be "pin" or "prompt"' });
+    }
+
+    const profile = body.profile === undefined ? undefined : parsePermissionProfile(body.profile);
+    if (profile === null) {
+      return res.status(400).json({ success: false, error: `profile must be one of: ${PERMISSION_PROFILES.join(", ")}` });
+    }
+
     // Check if already connected to this IP
-    if (tvClient && currentTVIP === ip && !force) {
+    const existing = tvSessions.get(ip);
+    if (existing && !force) {
       return res.json({ 
         success: true, 
         message: "Already connected",
-        ip: currentTVIP,
-        clientKey: tvClient.clientKey 
+        ip: existing.ip,
+        profile: existing.client.permissionProfile,
+        clientKey: existing.client.clientKey 
       });
     }
 
-    // Disconnect existing connection
-    if (tvClient) {
-      tvClient.disconnect();
-      tvClient = null;
-      tvCommands = null;
+    // Disconnect existing connection to this TV (other TVs stay connected)
+    if (existing) {
+      tvSessions.remove(ip);
     }
 
     // Try to load saved credentials from database
     const stored = tvDatabase.getCredentials(ip);
     const clientKey = stored?.isValid ? stored.clientKey : undefined;
 
-    // Auto-detect secure mode if not specified
-    let useSecure = secure !== undefined ? secure : (stored?.secure ?? true);
-    let connectionError: Error | null = null;
-
-    // Try secure connection first, then fall back to non-secure
-    const modes = secure !== undefined ? [useSecure] : [true, false];
-    
-    for (const trySecure of modes) {
-      try {
-        console.log(`🔌 Connecting to TV at ${ip}:${trySecure ? 3001 : 3000} (${trySecure ? 'secure' : 'non-secure'})...`);
-        tvClient = new LGTVClient({ ip, secure: trySecure, clientKey });
-        await tvClient.connect();
-        useSecure = trySecure;
-        connectionError = null;
-        break; // Connection successful
-      } catch (err: any) {
-        console.log(`❌ ${trySecure ? 'Secure' : 'Non-secure'} connection failed: ${err.message}`);
-        connectionError = err;
-        tvClient = null;
-        
-        // If user explicitly specified secure mode, don't try fallback
-        if (secure !== undefined) {
-          throw err;
-        }
-      }
+    let endpoint: { secure?: boolean; port?: number };
+    try {
+      endpoint = connectEndpoint(stored, { secure, port });
+    } catch (err: any) {
+      return res.status(400).json({ success: false, error: err.message });
     }
 
-    if (!tvClient || connectionError) {
-      throw new Error(`Failed to connect to TV. Tried both secure and non-secure modes. Last error: ${connectionError?.message}`);
-    }
+    // Probe wss:3001 then ws:3000 unless the protocol is given or known from the last connection
+    log.info(`🔌 Connecting to TV at ${ip}${endpoint.secure !== undefined ? ` (${endpoint.secure ? 'secure' : 'non-secure'})` : ''}...`);
+    client = new LGTVClient({
+      ip,
+      ...endpoint,
+      clientKey,
+      pinnedFingerprint: stored?.certFingerprint,
+      // Keep the profile the TV was paired with unless a new one is asked for
+      permissionProfile: profile ?? stored?.permissionProfile,
+    });
+    await client.connect(optionsFor(res));
+    const useSecure = client.endpoint!.secure;
 
-    // Attempt to resolve friendly name if not provided
+    // Attempt to resolve friendly name (and MAC for Wake-on-LAN) if not known yet
     let friendlyName: string | undefined = name;
-    if (!friendlyName) {
+    let mac: string | undefined = stored?.mac;
+    if (!friendlyName || !mac) {
       try {
         const tvs = await discoverTVs(1500);
         const match = tvs.find(t => t.ip === ip);
-        if (match?.name) friendlyName = match.name;
+        if (match?.name && !friendlyName) friendlyName = match.name;
+        if (match?.mac && !mac) mac = match.mac;
       } catch {}
     }
 
-    // Initiate PIN-based pairing
-    const result = await tvClient.initiateRegistration();
+    const result = await client.initiateRegistration(pairingType, optionsFor(res));
     
-    if (result.requiresPIN) {
-      pendingPairings.set(ip, {
-        client: tvClient,
+    if (result.requiresPIN || result.requiresPrompt) {
+      const pending: PendingPairing = {
+        client,
+        pairingType: result.requiresPIN ? "PIN" : "PROMPT",
         secure: useSecure,
         name: friendlyName,
-      });
-      currentTVIP = ip;
-      
+        mac,
+      };
+      pendingPairings.set(ip, pending);
+      tvSessions.set(ip, client, null, { secure: useSecure, name: friendlyName });
+
+      if (result.requiresPIN) {
+        return res.json({
+          success: true,
+          message: "PIN displayed on TV. Enter PIN using /api/pair endpoint.",
+          ip,
+          secure: useSecure,
+          profile: client.permissionProfile,
+          pairingType: "PIN",
+          requiresPIN: true,
+          nextStep: "POST /api/pair with {pin: 'PIN_FROM_TV', ip}",
+        });
+      }
+
+      // The client-key arrives once the user accepts on the TV, no PIN step needed
+      awaitPromptPairing(ip, pending);
       return res.json({
         success: true,
-        message: "PIN displayed on TV. Enter PIN using /api/pair endpoint.",
+        message: "Accept the connection request on the TV.",
         ip,
         secure: useSecure,
-        requiresPIN: true,
-        nextStep: "POST /api/pair with {pin: 'PIN_FROM_TV'}",
+        profile: client.permissionProfile,
+        pairingType: "PROMPT",
+        requiresPIN: false,
+        nextStep: `GET /api/pair/status?ip=${ip}`,
       });
     }
 
-    // Fallback for non-PIN pairing (PROMPT mode)
-    const newClientKey = tvClient.clientKey;
-    if (newClientKey) {
-      tvDatabase.saveCredentials(ip, newClientKey, useSecure, friendlyName);
-      tvCommands = new TVCommands(tvClient);
-      currentTVIP = ip;
+    // Already authorized (stored client-key accepted)
+    if (client.clientKey) {
+      tvSessions.finishPairing(ip, client, { secure: useSecure, name: friendlyName, mac });
       
       return res.json({
         success: true,
         message: "Connected and authenticated",
         ip,
         secure: useSecure,
-        clientKey: newClientKey,
+        profile: client.permissionProfile,
+        clientKey: client.clientKey,
       });
     }
 
     throw new Error("Registration failed");
   } catch (err: any) {
-    tvClient = null;
-    tvCommands = null;
-    currentTVIP = null;
+    client?.disconnect();
     return res.status(500).json({ success: false, error: err.message });
   }
 });
@@ -344,12 +528,16 @@ app.post("/api/pair", async (req: Request, res: Response) => {
       });
     }
 
-    const targetIP = ip || currentTVIP;
+    // Use the given TV, or the only pairing in progress
+    const targetIP = ip || (getTarget(req) ? tvSessions.resolveIP(getTarget(req)) : null) ||
+      (pendingPairings.size === 1 ? pendingPairings.keys().next().value : null);
     
     if (!targetIP) {
       return res.status(400).json({ 
         success: false, 
-        error: "No active pairing session. Call /api/connect first."
+        error: pendingPairings.size > 1
+          ? "Several pairings are in progress. Specify the TV ip."
+          : "No active pairing session. Call /api/connect first."
       });
     }
 
@@ -362,12 +550,20 @@ app.post("/api/pair", async (req: Request, res: Response) => {
       });
     }
 
-    const clientKey = await pending.client.completePairing(pin);
+    if (pending.pairingType === "PROMPT") {
+      return res.status(400).json({
+        success: false,
+        error: `${targetIP} uses prompt pairing. Accept the request on the TV and check GET /api/pair/status.`,
+      });
+    }
 
-    tvDatabase.saveCredentials(targetIP, clientKey, pending.secure, pending.name ?? name);
-    tvClient = pending.client;
-    tvCommands = new TVCommands(tvClient);
-    currentTVIP = targetIP;
+    const clientKey = await pending.client.completePairing(pin, optionsFor(res));
+
+    tvSessions.finishPairing(targetIP, pending.client, {
+      secure: pending.secure,
+      name: pending.name ?? name,
+      mac: pending.mac,
+    });
     pendingPairings.delete(targetIP);
 
     return res.json({
@@ -381,13 +577,32 @@ app.post("/api/pair", async (req: Request, res: Response) => {
   }
 });
 
+app.get("/api/pair/status", (req: Request, res: Response) => {
+  const target = (typeof req.query.ip === "string" && req.query.ip.trim()) || getTarget(req);
+  const ip = target ? tvSessions.resolveIP(target) ?? target :
+    (pendingPairings.size === 1 ? pendingPairings.keys().next().value : null);
+
+  if (!ip) {
+    return res.status(400).json({ success: false, error: "Specify the TV ip" });
+  }
+
+  return res.json({ success: true, ...getPairingStatus(ip) });
+});
+
 app.post("/api/disconnect", (req: Request, res: Response) => {
-  if (tvClient) {
-    tvClient.disconnect();
-    tvClient = null;
-    tvCommands = null;
-    currentTVIP = null;
+  const target = getTarget(req);
+
+  // Disconnect a single TV when one is named, otherwise every TV
+  if (target) {
+    const session = tvSessions.remove(target);
+    if (!session) {
+      return res.status(404).json({ success: false, error: `Not connected to TV "${target}"` });
+    }
+    pendingPairings.delete(session.ip);
+    return res.json({ success: true, message: `Disconnected from ${session.ip}`, ip: session.ip });
   }
+
+  tvSessions.clear();
   
   // Clear any pending pairings
   pendingPairings.clear();
@@ -396,28 +611,123 @@ app.post("/api/disconnect", (req: Request, res: Response) => {
 });
 
 app.get("/api/status", async (req: Request, res: Response) => {
-  const connected = !!tvClient;
-  const authenticated = !!tvClient?.clientKey;
+  const target = getTarget(req);
+  let session = tvSessions.get(target);
   
   // Try auto-reconnect if not connected
-  if (!connected) {
-    const reconnected = await ensureConnection();
-    if (reconnected) {
+  if (!session) {
+    session = await tvSessions.ensure(target);
+    if (session) {
       return res.json({
         connected: true,
         authenticated: true,
-        ip: currentTVIP,
+        ip: session.ip,
+        name: session.name,
+        endpoint: session.client.endpoint,
+        profile: session.client.permissionProfile,
         autoReconnected: true,
         message: "Auto-reconnected using stored credentials",
       });
     }
   }
   
+  // Reconnecting stopped because the TV presented another certificate
+  const ip = session?.ip ?? tvSessions.resolveIP(target);
+  const mismatch = !!ip && tvSessions.hasCertificateMismatch(ip);
+
   return res.json({
-    connected,
-    authenticated,
-    ip: currentTVIP,
+    connected: !!session?.client.isConnected(),
+    reconnecting: !!session?.client.isReconnecting(),
+    authenticated: !!session?.commands,
+    ip: session?.ip ?? null,
+    name: session?.name,
+    // Which of wss:3001 / ws:3000 the connection negotiated
+    endpoint: session?.client.endpoint ?? null,
+    profile: session?.client.permissionProfile ?? null,
+    defaultTV: tvSessions.getDefault(),
+    sessions: tvSessions.list().length,
     storedTVs: tvDatabase.getAllCredentials().length,
+    ...(mismatch && {
+      certificateMismatch: true,
+      error: tvSessions.getLastError(ip!),
+      nextStep: `If the TV was reset or updated, POST /api/credentials/${ip}/trust`,
+    }),
+  });
+});
+
+/**
+ * GET /api/state - Live state of a TV, answered from subscriptions without asking the TV
+ */
+app.get("/api/state", async (req: Request, res: Response) => {
+  const target = getTarget(req);
+  const session = await tvSessions.ensure(target);
+  if (!session?.state) {
+    return res.status(400).json({
+      success: false,
+      error: target
+        ? `Not connected to TV "${target}". Please connect first using /api/connect`
+        : "Not connected to TV. Please connect first using /api/connect",
+    });
+  }
+
+  return res.json({
+    success: true,
+    ip: session.ip,
+    name: session.name,
+    connected: session.client.isConnected(),
+    reconnecting: session.client.isReconnecting(),
+    state: session.state.snapshot(),
+  });
+});
+
+/**
+ * GET /api/sessions - List live TV sessions
+ */
+app.get("/api/sessions", (req: Request, res: Response) => {
+  const defaultIP = tvSessions.resolveIP();
+  return res.json({
+    success: true,
+    defaultTV: tvSessions.getDefault(),
+    count: tvSessions.list().length,
+    sessions: tvSessions.list().map(s => ({
+      ip: s.ip,
+      name: s.name,
+      secure: s.secure,
+      port: s.client.endpoint?.port,
+      profile: s.client.permissionProfile,
+      authenticated: !!s.commands,
+      reconnecting: s.client.isReconnecting(),
+      connectedAt: s.connectedAt,
+      isDefault: s.ip === defaultIP,
+    })),
+  });
+});
+
+/**
+ * POST /api/sessions/default - Set the TV used when a request does not name one
+ */
+app.post("/api/sessions/default", (req: Request, res: Response) => {
+  try {
+    const target = getTarget(req) ?? null;
+    tvSessions.setDefault(target);
+    return res.json({
+      success: true,
+      message: target ? `Default TV set to ${target}` : "Default TV cleared",
+      defaultTV: tvSessions.getDefault(),
+    });
+  } catch (err: any) {
+    return res.status(404).json({ success: false, error: err.message });
+  }
+});
+
+/**
+ * GET /api/permissions/profiles - List the permission profiles a TV can be paired with
+ */
+app.get("/api/permissions/profiles", (req: Request, res: Response) => {
+  return res.json({
+    success: true,
+    default: DEFAULT_PERMISSION_PROFILE,
+    profiles: PERMISSION_PROFILES.map(name => ({ name, ...PROFILE_DETAILS[name] })),
   });
 });
 
@@ -433,7 +743,12 @@ app.get("/api/credentials", (req: Request, res: Response) => {
       ip: c.ip,
       name: c.name,
       secure: c.secure,
+      port: c.port,
+      mac: c.mac,
+      certFingerprint: c.certFingerprint,
+      profile: c.permissionProfile,
       isValid: c.isValid,
+      connected: !!tvSessions.get(c.ip),
       createdAt: c.createdAt,
       lastUsed: c.lastUsed,
     })),
@@ -453,50 +768,65 @@ app.delete("/api/credentials/:ip", (req: Request, res: Response) => {
 });
 
 /**
- * POST /api/reconnect - Reconnect to most recent TV or specific IP
+ * POST /api/credentials/:ip/trust - Trust the certificate a TV presents now, replacing the pinned one.
+ * Only do this after a deliberate change (factory reset, firmware update). Pass {fingerprint}
+ * to only accept a specific certificate.
+ */
+app.post("/api/credentials/:ip/trust", async (req: Request, res: Response) => {
+  try {
+    const { fingerprint } = req.body ?? {};
+    const result = await tvSessions.trustCertificate(req.params.ip, fingerprint);
+    return res.json({
+      success: true,
+      message: `Trusted certificate of ${result.ip}. Reconnect to use it.`,
+      ...result,
+    });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+/**
+ * POST /api/reconnect - Reconnect to the default TV or a specific IP/name
  */
 app.post("/api/reconnect", async (req: Request, res: Response) => {
   try {
     const { ip } = await req.body;
+    const target = ip || getTarget(req);
     
+    // Resolve the specified TV, or fall back to the default/most recent
+    const targetIP = tvSessions.resolveIP(target);
+    if (!targetIP) {
+      return res.status(400).json({
+        success: false,
+        error: target
+          ? `Unknown TV: ${target}`
+          : "No IP specified and no stored credentials found",
+      });
+    }
+
     // If already connected, return success
-    if (tvClient && (!ip || currentTVIP === ip)) {
+    const existing = tvSessions.get(targetIP);
+    if (existing?.commands) {
       return res.json({
         success: true,
         message: "Already connected",
-        ip: currentTVIP,
-      });
-    }
-    
-    // Disconnect current connection
-    if (tvClient) {
-      tvClient.disconnect();
-      tvClient = null;
-      tvCommands = null;
-      currentTVIP = null;
-    }
-    
-    // Reconnect to specified IP or most recent
-    const targetIP = ip || tvDatabase.getMostRecentTV()?.ip;
-    if (!targetIP) {
-      return res.status(400).json({
-        success: false,
-        error: "No IP specified and no stored credentials found",
+        ip: existing.ip,
       });
     }
     
-    const reconnected = await autoReconnect(targetIP);
-    if (!reconnected) {
+    const session = await tvSessions.reconnect(targetIP);
+    if (!session) {
       return res.status(500).json({
         success: false,
-        error: "Failed to reconnect. Credentials may be expired.",
+        error: tvSessions.getLastError(targetIP) ?? "Failed to reconnect. Credentials may be expired.",
       });
     }
     
     return res.json({
       success: true,
       message: "Reconnected successfully",
-      ip: currentTVIP,
+      ip: session.ip,
     });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
@@ -507,7 +837,7 @@ app.post("/api/reconnect", async (req: Request, res: Response) => {
 
 app.post("/api/volume/up", requireConnection, async (req: Request, res: Response) => {
   try {
-    await tvCommands!.volumeUp();
+    await commandsFor(res).volumeUp(optionsFor(res));
     return res.json({ success: true, message: "Volume increased" });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
@@ -516,7 +846,7 @@ app.post("/api/volume/up", requireConnection, async (req: Request, res: Response
 
 app.post("/api/volume/down", requireConnection, async (req: Request, res: Response) => {
   try {
-    await tvCommands!.volumeDown();
+    await commandsFor(res).volumeDown(optionsFor(res));
     return res.json({ success: true, message: "Volume decreased" });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
@@ -529,7 +859,7 @@ app.post("/api/volume/set", requireConnection, async (req: Request, res: Respons
     if (volume === undefined || volume < 0 || volume > 100) {
       return res.status(400).json({ success: false, error: "Volume must be 0-100" });
     }
-    await tvCommands!.setVolume(volume);
+    await commandsFor(res).setVolume(volume, optionsFor(res));
     return res.json({ success: true, message: `Volume set to ${volume}` });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
@@ -538,7 +868,7 @@ app.post("/api/volume/set", requireConnection, async (req: Request, res: Respons
 
 app.get("/api/volume", requireConnection, async (req: Request, res: Response) => {
   try {
-    const volume = await tvCommands!.getVolume();
+    const volume = await commandsFor(res).getVolume(optionsFor(res));
     return res.json({ success: true, volume });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
@@ -548,18 +878,82 @@ app.get("/api/volume", requireConnection, async (req: Request, res: Response) =>
 app.post("/api/volume/mute", requireConnection, async (req: Request, res: Response) => {
   try {
     const { mute } = await req.body;
-    await tvCommands!.mute(mute);
+    await commandsFor(res).mute(mute, optionsFor(res));
     return res.json({ success: true, message: mute ? "Muted" : "Unmuted" });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
   }
 });
 
+// ==================== AUDIO OUTPUT & SOUND SETTINGS ====================
+
+app.get("/api/audio/outputs", (req: Request, res: Response) => {
+  return res.json({ success: true, outputs: SOUND_OUTPUTS });
+});
+
+app.get("/api/audio/output", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const { soundOutput } = await commandsFor(res).getAudioOutput(optionsFor(res));
+    return res.json({ success: true, output: soundOutput });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+/**
+ * POST /api/audio/output - Switch the sound output ({output: "optical"}); friendly names like "soundbar" are accepted
+ */
+app.post("/api/audio/output", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const { output } = req.body;
+    const resolved = parseSoundOutput(output);
+    if (!resolved) {
+      return res.status(400).json({
+        success: false,
+        error: output === undefined ? "output required" : `Unknown sound output: ${output}`,
+        validOutputs: SOUND_OUTPUTS.map((o) => o.id),
+      });
+    }
+    await commandsFor(res).setAudioOutput(resolved, optionsFor(res));
+    return res.json({ success: true, output: resolved, message: `Sound output set to ${resolved}` });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+app.get("/api/audio/settings", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const settings = await commandsFor(res).getSoundSettings(optionsFor(res));
+    return res.json({ success: true, settings });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+/**
+ * POST /api/audio/settings - Change sound mode, balance or AV sync ({soundMode?, balance?, avSync?, avSyncValue?})
+ */
+app.post("/api/audio/settings", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const { tv, ...body } = req.body ?? {};
+    let settings;
+    try {
+      settings = parseSoundSettings(body);
+    } catch (err: any) {
+      return res.status(400).json({ success: false, error: err.message, validSoundModes: SOUND_MODES });
+    }
+    const current = await commandsFor(res).setSoundSettings(settings, optionsFor(res));
+    return res.json({ success: true, settings: current, message: `Updated ${Object.keys(settings).join(", ")}` });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
 // ==================== MEDIA CONTROLS ====================
 
 app.post("/api/media/play", requireConnection, async (req: Request, res: Response) => {
   try {
-    await tvCommands!.play();
+    await commandsFor(res).play(optionsFor(res));
     return res.json({ success: true, message: "Playing" });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
@@ -568,7 +962,7 @@ app.post("/api/media/play", requireConnection, async (req: Request, res: Respons
 
 app.post("/api/media/pause", requireConnection, async (req: Request, res: Response) => {
   try {
-    await tvCommands!.pause();
+    await commandsFor(res).pause(optionsFor(res));
     return res.json({ success: true, message: "Paused" });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
@@ -577,7 +971,7 @@ app.post("/api/media/pause", requireConnection, async (req: Request, res: Respon
 
 app.post("/api/media/stop", requireConnection, async (req: Request, res: Response) => {
   try {
-    await tvCommands!.stop();
+    await commandsFor(res).stop(optionsFor(res));
     return res.json({ success: true, message: "Stopped" });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
@@ -586,7 +980,7 @@ app.post("/api/media/stop", requireConnection, async (req: Request, res: Respons
 
 app.post("/api/media/rewind", requireConnection, async (req: Request, res: Response) => {
   try {
-    await tvCommands!.rewind();
+    await commandsFor(res).rewind(optionsFor(res));
     return res.json({ success: true, message: "Rewinding" });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
@@ -595,7 +989,7 @@ app.post("/api/media/rewind", requireConnection, async (req: Request, res: Respo
 
 app.post("/api/media/fastforward", requireConnection, async (req: Request, res: Response) => {
   try {
-    await tvCommands!.fastForward();
+    await commandsFor(res).fastForward(optionsFor(res));
     return res.json({ success: true, message: "Fast forwarding" });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
@@ -604,7 +998,7 @@ app.post("/api/media/fastforward", requireConnection, async (req: Request, res:
 
 app.get("/api/media/status", requireConnection, async (req: Request, res: Response) => {
   try {
-    const status = await tvCommands!.getMediaStatus();
+    const status = await commandsFor(res).getMediaStatus(optionsFor(res));
     return res.json({ success: true, status });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
@@ -613,7 +1007,7 @@ app.get("/api/media/status", requireConnection, async (req: Request, res: Respon
 
 app.get("/api/media/info", requireConnection, async (req: Request, res: Response) => {
   try {
-    const info = await tvCommands!.getForegroundMediaInfo();
+    const info = await commandsFor(res).getForegroundMediaInfo(optionsFor(res));
     return res.json({ success: true, info });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
@@ -624,16 +1018,38 @@ app.get("/api/media/info", requireConnection, async (req: Request, res: Response
 
 app.post("/api/system/power-off", requireConnection, async (req: Request, res: Response) => {
   try {
-    await tvCommands!.powerOff();
+    await commandsFor(res).powerOff(optionsFor(res));
     return res.json({ success: true, message: "TV powering off" });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
   }
 });
 
+/**
+ * POST /api/system/power-on - Wake the TV with Wake-on-LAN and reconnect
+ */
+app.post("/api/system/power-on", async (req: Request, res: Response) => {
+  try {
+    const { mac, timeout } = await req.body;
+    const { signal, timeout: queryTimeout } = optionsFor(res);
+    const result = await tvSessions.powerOn(getTarget(req), { mac, timeout: timeout ?? queryTimeout, signal });
+    return res.json({
+      success: true,
+      message: result.session ? "TV powered on and reconnected" : "TV powered on but reconnect failed",
+      ip: result.ip,
+      mac: result.mac,
+      port: result.port,
+      connected: !!result.session,
+      elapsedMs: result.elapsedMs,
+    });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
 app.post("/api/system/screen-off", requireConnection, async (req: Request, res: Response) => {
   try {
-    await tvCommands!.screenOff();
+    await commandsFor(res).screenOff(optionsFor(res));
     return res.json({ success: true, message: "Screen off" });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
@@ -642,7 +1058,7 @@ app.post("/api/system/screen-off", requireConnection, async (req: Request, res:
 
 app.post("/api/system/screen-on", requireConnection, async (req: Request, res: Response) => {
   try {
-    await tvCommands!.screenOn();
+    await commandsFor(res).screenOn(optionsFor(res));
     return res.json({ success: true, message: "Screen on" });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
@@ -651,7 +1067,7 @@ app.post("/api/system/screen-on", requireConnection, async (req: Request, res: R
 
 app.get("/api/system/info", requireConnection, async (req: Request, res: Response) => {
   try {
-    const info = await tvCommands!.getSystemInfo();
+    const info = await commandsFor(res).getSystemInfo(optionsFor(res));
     return res.json({ success: true, info });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
@@ -664,111 +1080,479 @@ app.post("/api/system/notify", requireConnection, async (req: Request, res: Resp
     if (!message) {
       return res.status(400).json({ success: false, error: "Message required" });
     }
-    await tvCommands!.notify(message);
+    await commandsFor(res).notify(message, undefined, undefined, optionsFor(res));
     return res.json({ success: true, message: "Notification sent" });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
   }
 });
 
-// ==================== APP CONTROLS ====================
+// ==================== PICTURE SETTINGS ====================
 
-app.get("/api/apps", requireConnection, async (req: Request, res: Response) => {
-  try {
-    const apps = await tvCommands!.listApps();
-    return res.json({ success: true, apps });
-  } catch (err: any) {
-    return res.status(500).json({ success: false, error: err.message });
-  }
+app.get("/api/picture/modes", (req: Request, res: Response) => {
+  return res.json({ success: true, modes: PICTURE_MODES, energySaving: ENERGY_SAVING_MODES });
 });
 
-app.post("/api/apps/launch", requireConnection, async (req: Request, res: Response) => {
+/**
+ * Answer a picture setting the TV does not offer, or did not apply, with 400 and what it allows
+ */
+function sendInvalidSetting(res: Response, err: InvalidSettingError) {
+  return res.status(400).json({
+    success: false,
+    error: err.message,
+    ...(err.allowed ? { allowed: err.allowed } : { validModes: PICTURE_MODES }),
+  });
+}
+
+/**
+ * GET /api/picture/settings - Current picture settings, and the options and ranges the TV allows
+ */
+app.get("/api/picture/settings", requireConnection, async (req: Request, res: Response) => {
   try {
-    const { appId, contentId, params } = await req.body;
-    if (!appId) {
-      return res.status(400).json({ success: false, error: "appId required" });
-    }
-    await tvCommands!.launchApp(appId, contentId, params);
-    return res.json({ success: true, message: `Launched ${appId}` });
+    const [settings, allowed] = await Promise.all([
+      commandsFor(res).getPictureSettings(optionsFor(res)),
+      commandsFor(res).getAllowedPictureValues(optionsFor(res)),
+    ]);
+    return res.json({ success: true, settings, allowed });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
   }
 });
 
-app.get("/api/apps/current", requireConnection, async (req: Request, res: Response) => {
+/**
+ * POST /api/picture/settings - Change picture settings; keys the TV does not report and values it does not offer are refused
+ */
+app.post("/api/picture/settings", requireConnection, async (req: Request, res: Response) => {
   try {
-    const appId = await tvCommands!.getCurrentApp();
-    return res.json({ success: true, appId });
+    const { tv, ...body } = req.body ?? {};
+    const settings = parsePictureSettings(body);
+    const current = await commandsFor(res).setPictureSettings(settings, optionsFor(res));
+    return res.json({ success: true, settings: current, message: `Updated ${Object.keys(settings).join(", ")}` });
   } catch (err: any) {
+    if (err instanceof InvalidSettingError) return sendInvalidSetting(res, err);
     return res.status(500).json({ success: false, error: err.message });
   }
 });
 
-app.get("/api/apps/running", requireConnection, async (req: Request, res: Response) => {
+/**
+ * POST /api/picture/mode - Switch the picture mode ({mode: "game"})
+ */
+app.post("/api/picture/mode", requireConnection, async (req: Request, res: Response) => {
   try {
-    const apps = await tvCommands!.listRunningApps();
-    return res.json({ success: true, apps });
+    const { mode } = req.body;
+    if (mode === undefined) {
+      return res.status(400).json({ success: false, error: "mode required", validModes: PICTURE_MODES });
+    }
+    // Resolved against the modes the TV lists, falling back to the known ones
+    const settings = await commandsFor(res).setPictureMode(String(mode), optionsFor(res));
+    return res.json({ success: true, pictureMode: settings.pictureMode, message: `Picture mode set to ${settings.pictureMode}` });
   } catch (err: any) {
+    if (err instanceof InvalidSettingError) return sendInvalidSetting(res, err);
     return res.status(500).json({ success: false, error: err.message });
   }
 });
 
-// ==================== CHANNEL CONTROLS ====================
+// ==================== APP CONTROLS ====================
 
-app.post("/api/channels/up", requireConnection, async (req: Request, res: Response) => {
+app.get("/api/apps", requireConnection, async (req: Request, res: Response) => {
   try {
-    await tvCommands!.channelUp();
-    return res.json({ success: true, message: "Channel up" });
+    const catalog = await commandsFor(res).listApps(optionsFor(res));
+    const { ip } = res.locals.session as TVSession;
+    return res.json({ success: true, ...catalog, apps: withProxiedIcons(req, ip, catalog.apps) });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
   }
 });
 
-app.post("/api/channels/down", requireConnection, async (req: Request, res: Response) => {
+app.post("/api/apps/launch", requireConnection, async (req: Request, res: Response) => {
   try {
-    await tvCommands!.channelDown();
-    return res.json({ success: true, message: "Channel down" });
+    const { appId, name, contentId, params } = await req.body;
+    const wanted = appId ?? name;
+    if (!wanted) {
+      return res.status(400).json({ success: false, error: "appId or name required" });
+    }
+    const resolution = await commandsFor(res).launchAppByName(String(wanted), aliasesFor(res), contentId, params, optionsFor(res));
+    if (resolution.status !== "resolved") {
+      return sendUnresolved(res, resolution);
+    }
+    return res.json({ success: true, app: resolution.app, message: `Launched ${resolution.app.title}` });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
   }
 });
 
-app.get("/api/channels", requireConnection, async (req: Request, res: Response) => {
+/**
+ * GET /api/apps/resolve?name= - Resolve an app id, title or alias without launching anything
+ */
+app.get("/api/apps/resolve", requireConnection, async (req: Request, res: Response) => {
   try {
-    const channels = await tvCommands!.getChannelList();
-    return res.json({ success: true, channels });
+    const name = req.query.name;
+    if (typeof name !== "string" || !name.trim()) {
+      return res.status(400).json({ success: false, error: "name required" });
+    }
+    const resolution = await commandsFor(res).resolveApp(name, aliasesFor(res), optionsFor(res));
+    return res.json({ success: resolution.status === "resolved", ...resolution });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
   }
 });
 
-app.get("/api/channels/current", requireConnection, async (req: Request, res: Response) => {
+app.get("/api/apps/aliases", requireConnection, (req: Request, res: Response) => {
+  return res.json({ success: true, ip: (res.locals.session as TVSession).ip, aliases: aliasesFor(res) });
+});
+
+/**
+ * POST /api/apps/aliases - Name an app or input ({alias: "the game console", app: "HDMI 2"}); app must resolve to one app
+ */
+app.post("/api/apps/aliases", requireConnection, async (req: Request, res: Response) => {
   try {
-    const channel = await tvCommands!.getCurrentChannel();
+    const { alias, app: target } = req.body;
+    const normalized = normalizeAppName(alias ?? "");
+    if (!normalized || !target) {
+      return res.status(400).json({ success: false, error: "alias and app required" });
+    }
+    const resolution = await commandsFor(res).resolveApp(String(target), aliasesFor(res), optionsFor(res));
+    if (resolution.status !== "resolved") {
+      return sendUnresolved(res, resolution);
+    }
+    tvDatabase.saveAppAlias((res.locals.session as TVSession).ip, normalized, resolution.app.id);
+    return res.json({ success: true, alias: normalized, app: resolution.app, message: `"${alias}" now opens ${resolution.app.title}` });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+app.delete("/api/apps/aliases/:alias", requireConnection, (req: Request, res: Response) => {
+  const alias = normalizeAppName(String(req.params.alias));
+  if (!tvDatabase.deleteAppAlias((res.locals.session as TVSession).ip, alias)) {
+    return res.status(404).json({ success: false, error: `No alias "${req.params.alias}"` });
+  }
+  return res.json({ success: true, message: `Deleted alias "${alias}"` });
+});
+
+/**
+ * GET /api/apps/changes?limit=&since= - Apps installed on or removed from the TV, newest first.
+ * Served from the database, so it works while the TV is off.
+ */
+app.get("/api/apps/changes", (req: Request, res: Response) => {
+  const target = getTarget(req);
+  const ip = tvSessions.resolveIP(target);
+  if (!ip) {
+    return res.status(400).json({
+      success: false,
+      error: target ? `Unknown TV: ${target}` : "No TV specified and no stored credentials found",
+    });
+  }
+
+  const limit = req.query.limit === undefined ? 50 : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+    return res.status(400).json({ success: false, error: "limit must be an integer from 1 to 500" });
+  }
+  const since = req.query.since === undefined ? undefined : new Date(String(req.query.since));
+  if (since && isNaN(since.getTime())) {
+    return res.status(400).json({ success: false, error: "since must be an ISO date" });
+  }
+
+  const changes = tvDatabase.getAppChanges(ip, limit, since?.toISOString());
+  return res.json({ success: true, ip, changes });
+});
+
+/**
+ * GET /api/apps/:id/icon?size=large - App icon, fetched from the TV once and then served from disk.
+ * Works while the TV is off for every icon fetched before.
+ */
+app.get("/api/apps/:id/icon", async (req: Request, res: Response) => {
+  try {
+    const target = getTarget(req);
+    const ip = tvSessions.resolveIP(target);
+    if (!ip) {
+      return res.status(400).json({
+        success: false,
+        error: target ? `Unknown TV: ${target}` : "No TV specified and no stored credentials found",
+      });
+    }
+    const size = req.query.size ?? "small";
+    if (size !== "small" && size !== "large") {
+      return res.status(400).json({ success: false, error: 'size must be "small" or "large"' });
+    }
+
+    const appId = String(req.params.id);
+    let icon: CachedIcon | null = iconCache.get(ip, appId, size);
+    if (!icon) {
+      // The live list if connected, else the one cached when the TV was last seen
+      const commands = tvSessions.get(ip)?.commands;
+      const apps = commands ? (await commands.listApps(optionsFor(res))).apps : tvDatabase.getAppCatalog(ip)?.apps ?? [];
+      const app = apps.find((a) => a.id === appId);
+      if (!app) {
+        return res.status(404).json({ success: false, error: `App ${appId} is not installed` });
+      }
+      const url = size === "large" ? app.largeIcon || app.icon : app.icon;
+      if (!url || !/^https?:/.test(url)) {
+        return res.status(404).json({ success: false, error: `The TV has no icon for ${appId}` });
+      }
+      try {
+        icon = await iconCache.fetch(ip, appId, size, url);
+      } catch (err: any) {
+        return res.status(502).json({ success: false, error: `Could not fetch the icon from the TV: ${err.message}` });
+      }
+    }
+
+    res.set({ "ETag": icon.etag, "Cache-Control": "public, max-age=86400" });
+    if (matchesIfNoneMatch(req.get("If-None-Match"), icon.etag)) {
+      return res.status(304).end();
+    }
+    return res.type(icon.contentType).sendFile(icon.path, { etag: false, lastModified: false });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+app.get("/api/apps/current", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const appId = await commandsFor(res).getCurrentApp(optionsFor(res));
+    return res.json({ success: true, appId });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+app.get("/api/apps/running", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const apps = await commandsFor(res).listRunningApps(optionsFor(res));
+    return res.json({ success: true, apps });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+app.post("/api/apps/close", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const { appId } = req.body;
+    if (!appId) {
+      return res.status(400).json({ success: false, error: "appId required" });
+    }
+    await commandsFor(res).closeRunningApp(appId, optionsFor(res));
+    return res.json({ success: true, message: `Closed ${appId}` });
+  } catch (err: any) {
+    const status = err instanceof AppNotRunningError ? 409 : 500;
+    return res.status(status).json({ success: false, error: err.message });
+  }
+});
+
+/**
+ * POST /api/apps/close-others - Close every running app except the foreground one (system apps stay)
+ */
+app.post("/api/apps/close-others", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const result = await commandsFor(res).closeOtherApps(optionsFor(res));
+    return res.json({ success: result.failed.length === 0, ...result, message: `Closed ${result.closed.length} apps` });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+/**
+ * POST /api/apps/restart - Close an app (if running), wait for it to exit and launch it again
+ */
+app.post("/api/apps/restart", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const { appId, contentId, params } = req.body;
+    if (!appId) {
+      return res.status(400).json({ success: false, error: "appId required" });
+    }
+    const { wasRunning } = await commandsFor(res).restartApp(appId, contentId, params, optionsFor(res));
+    return res.json({
+      success: true,
+      wasRunning,
+      message: wasRunning ? `Restarted ${appId}` : `${appId} was not running, launched it`,
+    });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+/**
+ * POST /api/play-url - Open a pasted share URL in the app it belongs to ({url, dryRun?})
+ */
+app.post("/api/play-url", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const { url, dryRun } = req.body;
+    if (!url) {
+      return res.status(400).json({ success: false, error: "url required" });
+    }
+    let link;
+    try {
+      link = resolveDeepLink(url);
+    } catch (err: any) {
+      return res.status(400).json({ success: false, error: err.message });
+    }
+    if (!dryRun) {
+      await commandsFor(res).openDeepLink(link, optionsFor(res));
+    }
+    return res.json({
+      success: true,
+      ...link,
+      message: dryRun ? `Would open in ${link.appId}` : `Opened ${link.service === "browser" ? "in the browser" : `in ${link.appId}`}`,
+    });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+// ==================== CHANNEL CONTROLS ====================
+
+app.post("/api/channels/up", requireConnection, async (req: Request, res: Response) => {
+  try {
+    await commandsFor(res).channelUp(optionsFor(res));
+    return res.json({ success: true, message: "Channel up" });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+app.post("/api/channels/down", requireConnection, async (req: Request, res: Response) => {
+  try {
+    await commandsFor(res).channelDown(optionsFor(res));
+    return res.json({ success: true, message: "Channel down" });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+/**
+ * GET /api/channels?refresh=true - Normalized channel list with the favorite groups.
+ * Read from the TV once per connection; refresh after a channel scan.
+ */
+app.get("/api/channels", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const catalog = await commandsFor(res).listChannels(optionsFor(res), req.query.refresh === "true");
+    const favorites = groupFavorites(favoritesFor(res), catalog.channels);
+    return res.json({ success: true, ...catalog, favorites });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+/**
+ * GET /api/channels/resolve?channel= - Which channel a number ("5.1"), name or favorite ("fav 3") means
+ */
+app.get("/api/channels/resolve", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const channel = req.query.channel;
+    if (typeof channel !== "string" || !channel.trim()) {
+      return res.status(400).json({ success: false, error: "channel required" });
+    }
+    const resolution = await commandsFor(res).resolveChannel(channel, favoritesFor(res), optionsFor(res));
+    return res.json({ success: resolution.status === "resolved", ...resolution });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+app.get("/api/channels/current", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const channel = await commandsFor(res).getCurrentChannel(optionsFor(res));
     return res.json({ success: true, channel });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
   }
 });
 
+/**
+ * POST /api/channels/set - Tune by {channelId}, by {channel} (number, name or "fav 3")
+ * or by a favorites slot ({favorite: 3, group?})
+ */
 app.post("/api/channels/set", requireConnection, async (req: Request, res: Response) => {
   try {
-    const { channelId } = await req.body;
-    if (!channelId) {
-      return res.status(400).json({ success: false, error: "channelId required" });
+    const { channelId, channel, favorite, group } = await req.body;
+    if (channelId) {
+      await commandsFor(res).setChannel(channelId, optionsFor(res));
+      return res.json({ success: true, message: `Set to channel ${channelId}` });
+    }
+    if (favorite !== undefined && !(Number.isInteger(favorite) && favorite > 0)) {
+      return res.status(400).json({ success: false, error: "favorite must be a slot number from 1" });
     }
-    await tvCommands!.setChannel(channelId);
-    return res.json({ success: true, message: `Set to channel ${channelId}` });
+    if (!channel && favorite === undefined) {
+      return res.status(400).json({ success: false, error: "channelId, channel or favorite required" });
+    }
+
+    const target = favorite !== undefined ? { favorite, group: group || DEFAULT_FAVORITE_GROUP } : String(channel);
+    const resolution = await commandsFor(res).tuneChannel(target, favoritesFor(res), optionsFor(res));
+    if (resolution.status !== "resolved") {
+      return sendUnresolvedChannel(res, resolution);
+    }
+    const { channel: tuned } = resolution;
+    return res.json({ success: true, channel: tuned, message: `Set to channel ${tuned.number} ${tuned.name}` });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
   }
 });
 
+app.get("/api/channels/favorites", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const { channels } = await commandsFor(res).listChannels(optionsFor(res));
+    return res.json({ success: true, groups: groupFavorites(favoritesFor(res), channels) });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+/**
+ * POST /api/channels/favorites - Put a channel in a favorites group ({channel, group?, slot?}).
+ * The group is created on first use; slot defaults to the next free one.
+ */
+app.post("/api/channels/favorites", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const { channel, group = DEFAULT_FAVORITE_GROUP, slot } = await req.body;
+    if (!channel) {
+      return res.status(400).json({ success: false, error: "channel required" });
+    }
+    if (typeof group !== "string" || !group.trim()) {
+      return res.status(400).json({ success: false, error: "group must be a name" });
+    }
+    if (slot !== undefined && !(Number.isInteger(slot) && slot > 0)) {
+      return res.status(400).json({ success: false, error: "slot must be a number from 1" });
+    }
+
+    const resolution = await commandsFor(res).resolveChannel(String(channel), favoritesFor(res), optionsFor(res));
+    if (resolution.status !== "resolved") {
+      return sendUnresolvedChannel(res, resolution);
+    }
+    const { ip } = res.locals.session as TVSession;
+    const saved = tvDatabase.saveFavoriteChannel(ip, group.trim(), resolution.channel.id, slot);
+    return res.json({
+      success: true,
+      ...saved,
+      channel: resolution.channel,
+      message: `${resolution.channel.name} is ${saved.group} #${saved.slot}`,
+    });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+app.delete("/api/channels/favorites/:group/:slot", requireConnection, (req: Request, res: Response) => {
+  const { ip } = res.locals.session as TVSession;
+  const group = String(req.params.group);
+  if (!tvDatabase.deleteFavoriteChannel(ip, group, Number(req.params.slot))) {
+    return res.status(404).json({ success: false, error: `${group} #${req.params.slot} is empty` });
+  }
+  return res.json({ success: true, message: `Emptied ${group} #${req.params.slot}` });
+});
+
+app.delete("/api/channels/favorites/:group", requireConnection, (req: Request, res: Response) => {
+  const group = String(req.params.group);
+  if (!tvDatabase.deleteFavoriteGroup((res.locals.session as TVSession).ip, group)) {
+    return res.status(404).json({ success: false, error: `No favorites group "${group}"` });
+  }
+  return res.json({ success: true, message: `Deleted favorites group "${group}"` });
+});
+
 // ==================== INPUT CONTROLS ====================
 
 app.get("/api/inputs", requireConnection, async (req: Request, res: Response) => {
   try {
-    const inputs = await tvCommands!.listInputs();
+    const inputs = await commandsFor(res).listInputs(optionsFor(res));
     return res.json({ success: true, inputs });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
@@ -781,13 +1565,65 @@ app.post("/api/inputs/set", requireConnection, async (req: Request, res: Respons
     if (!inputId) {
       return res.status(400).json({ success: false, error: "inputId required" });
     }
-    await tvCommands!.setInput(inputId);
+    await commandsFor(res).setInput(inputId, optionsFor(res));
     return res.json({ success: true, message: `Switched to ${inputId}` });
   } catch (err: any) {
     return res.status(500).json({ success: false, error: err.message });
   }
 });
 
+// ==================== TEXT INPUT ====================
+
+app.get("/api/text/keyboard", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const keyboard = await commandsFor(res).getKeyboardState(optionsFor(res));
+    return res.json({ success: true, keyboard });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+/**
+ * POST /api/text/type - Type into the focused text field ({text, replace?, submit?, wait?})
+ */
+app.post("/api/text/type", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const { text, replace, submit, wait = KEYBOARD_WAIT_TIMEOUT } = req.body;
+    if (typeof text !== "string") {
+      return res.status(400).json({ success: false, error: "text required" });
+    }
+    if (typeof wait !== "number" || !Number.isFinite(wait) || wait < 0) {
+      return res.status(400).json({ success: false, error: "wait must be a number of ms (0 to type without waiting)" });
+    }
+    const result = await commandsFor(res).enterText(text, { replace: !!replace, submit: !!submit, wait }, optionsFor(res));
+    return res.json({ success: true, ...result, message: submit ? `Typed and submitted "${text}"` : `Typed "${text}"` });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+app.post("/api/text/delete", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const { count = 1 } = req.body;
+    if (!Number.isInteger(count) || count < 1) {
+      return res.status(400).json({ success: false, error: "count must be a positive integer" });
+    }
+    await commandsFor(res).deleteCharacters(count, optionsFor(res));
+    return res.json({ success: true, message: `Deleted ${count} characters` });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+app.post("/api/text/enter", requireConnection, async (req: Request, res: Response) => {
+  try {
+    await commandsFor(res).sendEnter(optionsFor(res));
+    return res.json({ success: true, message: "Enter sent" });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
 // ==================== REMOTE NAVIGATION ====================
 
 // ==================== SEARCH ====================
@@ -805,8 +1641,8 @@ app.post("/api/search", requireConnection, async (req: Request, res: Response) =
     }
 
     const result = categories 
-      ? await tvCommands!.searchContentAdvanced(query, categories)
-      : await tvCommands!.searchContent(query);
+      ? await commandsFor(res).searchContentAdvanced(query, categories, optionsFor(res))
+      : await commandsFor(res).searchContent(query, optionsFor(res));
 
     return res.json(result);
   } catch (err: any) {
@@ -829,22 +1665,24 @@ app.post("/api/remote", requireConnection, async (req: Request, res: Response) =
     }
 
     const actionMap: Record<string, () => Promise<any>> = {
-      up: () => tvCommands!.pressUp(),
-      down: () => tvCommands!.pressDown(),
-      left: () => tvCommands!.pressLeft(),
-      right: () => tvCommands!.pressRight(),
-      ok: () => tvCommands!.pressOk(),
-      back: () => tvCommands!.pressBack(),
-      home: () => tvCommands!.pressHome(),
+      up: () => commandsFor(res).pressUp(optionsFor(res)),
+      down: () => commandsFor(res).pressDown(optionsFor(res)),
+      left: () => commandsFor(res).pressLeft(optionsFor(res)),
+      right: () => commandsFor(res).pressRight(optionsFor(res)),
+      ok: () => commandsFor(res).pressOk(optionsFor(res)),
+      back: () => commandsFor(res).pressBack(optionsFor(res)),
+      home: () => commandsFor(res).pressHome(optionsFor(res)),
     };
 
-    const handler = actionMap[action.toLowerCase()];
+    const key = normalizeKey(action);
+    const handler = actionMap[action.toLowerCase()] ?? (key ? () => commandsFor(res).pressButton(key, optionsFor(res)) : null);
     
     if (!handler) {
       return res.status(400).json({ 
         success: false, 
         error: `Invalid action: ${action}`,
-        validActions: ["up", "down", "left", "right", "ok", "back", "home"]
+        validActions: ["up", "down", "left", "right", "ok", "back", "home"],
+        validKeys: REMOTE_KEYS,
       });
     }
 
@@ -855,14 +1693,214 @@ app.post("/api/remote", requireConnection, async (req: Request, res: Response) =
   }
 });
 
+/**
+ * GET /api/remote/keys - List every key accepted by /api/remote/key
+ */
+app.get("/api/remote/keys", (req: Request, res: Response) => {
+  return res.json({ success: true, keys: REMOTE_KEYS });
+});
+
+/**
+ * POST /api/remote/key - Press one key ({key}) or a sequence ({keys: ["DOWN", {key: "ENTER", delay: 1000}], delay?})
+ */
+app.post("/api/remote/key", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const { key, keys, delay } = req.body;
+
+    if (keys !== undefined) {
+      let sequence;
+      try {
+        sequence = parseKeySequence(keys, delay);
+      } catch (err: any) {
+        return res.status(400).json({ success: false, error: err.message, validKeys: REMOTE_KEYS });
+      }
+      const pressed = await commandsFor(res).pressKeys(sequence, undefined, optionsFor(res));
+      return res.json({ success: true, keys: pressed, message: `Pressed ${pressed.length} keys` });
+    }
+
+    const resolved = key !== undefined ? normalizeKey(key) : null;
+    if (!resolved) {
+      return res.status(400).json({
+        success: false,
+        error: key === undefined ? "key or keys is required" : `Unknown key: ${key}`,
+        validKeys: REMOTE_KEYS,
+      });
+    }
+
+    await commandsFor(res).pressButton(resolved, optionsFor(res));
+    return res.json({ success: true, key: resolved, message: `Pressed ${resolved}` });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+// ==================== POINTER CONTROL ====================
+
+/**
+ * Read a relative pointer offset from a request body or channel message
+ */
+function readOffset(body: any): { dx: number; dy: number } | null {
+  const dx = Number(body?.dx ?? 0);
+  const dy = Number(body?.dy ?? 0);
+  if (!Number.isFinite(dx) || !Number.isFinite(dy)) return null;
+  return { dx, dy };
+}
+
+app.post("/api/pointer/move", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const offset = readOffset(req.body);
+    if (!offset) {
+      return res.status(400).json({ success: false, error: "dx and dy must be numbers" });
+    }
+    await commandsFor(res).movePointer(offset.dx, offset.dy, false, optionsFor(res));
+    return res.json({ success: true, message: `Pointer moved by ${offset.dx},${offset.dy}` });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+app.post("/api/pointer/scroll", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const offset = readOffset(req.body);
+    if (!offset) {
+      return res.status(400).json({ success: false, error: "dx and dy must be numbers" });
+    }
+    await commandsFor(res).scroll(offset.dx, offset.dy, optionsFor(res));
+    return res.json({ success: true, message: `Scrolled by ${offset.dx},${offset.dy}` });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+app.post("/api/pointer/click", requireConnection, async (req: Request, res: Response) => {
+  try {
+    await commandsFor(res).click(optionsFor(res));
+    return res.json({ success: true, message: "Clicked" });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+app.post("/api/pointer/drag", requireConnection, async (req: Request, res: Response) => {
+  try {
+    const offset = readOffset(req.body);
+    if (!offset) {
+      return res.status(400).json({ success: false, error: "dx and dy must be numbers" });
+    }
+    const { steps } = req.body;
+    await commandsFor(res).drag(offset.dx, offset.dy, steps, optionsFor(res));
+    return res.json({ success: true, message: `Dragged by ${offset.dx},${offset.dy}` });
+  } catch (err: any) {
+    return res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+/**
+ * Attach the pointer channel (ws://host/api/pointer/ws?tv=...) to the HTTP server.
+ * It avoids an HTTP round trip per cursor movement: each text frame is one JSON command
+ * ({type: "move", dx, dy, drag?} | {type: "scroll", dx, dy} | {type: "click"} | {type: "button", name})
+ * forwarded straight to the TV. After the initial {type: "ready", ip} the channel only
+ * answers with {type: "error", error} when a command fails.
+ */
+export function attachPointerChannel(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (url.pathname !== "/api/pointer/ws") {
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      handlePointerChannel(ws, url.searchParams.get("tv") || undefined);
+    });
+  });
+
+  return wss;
+}
+
+async function handlePointerChannel(ws: WebSocket, target?: string) {
+  const session = await tvSessions.ensure(target);
+  if (!session?.commands) {
+    ws.close(1011, target ? `Not connected to TV "${target}"` : "Not connected to TV");
+    return;
+  }
+
+  const commands = session.commands;
+  // Drop commands still waiting for the TV once the channel closes
+  const controller = new AbortController();
+  const options: RequestOptions = { signal: controller.signal };
+  ws.on("close", () => controller.abort(new Error("Pointer channel closed")));
+
+  try {
+    // Open the TV's pointer socket up front so the first movement is not delayed
+    await commands.openPointer(options);
+  } catch (err: any) {
+    ws.close(1011, `Pointer socket unavailable: ${err.message}`);
+    return;
+  }
+
+  log.info(`🖱️  Pointer channel opened for ${session.ip}`);
+  ws.send(JSON.stringify({ type: "ready", ip: session.ip }));
+
+  ws.on("message", async (data) => {
+    try {
+      const message = JSON.parse(data.toString());
+      const offset = readOffset(message);
+
+      switch (message.type) {
+        case "move":
+          if (!offset) throw new Error("dx and dy must be numbers");
+          await commands.movePointer(offset.dx, offset.dy, !!message.drag, options);
+          break;
+        case "scroll":
+          if (!offset) throw new Error("dx and dy must be numbers");
+          await commands.scroll(offset.dx, offset.dy, options);
+          break;
+        case "click":
+          await commands.click(options);
+          break;
+        case "button":
+          await commands.pressKey(String(message.name), options);
+          break;
+        default:
+          throw new Error(`Unknown pointer command: ${message.type}`);
+      }
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      ws.send(JSON.stringify({ type: "error", error: err.message }));
+    }
+  });
+
+  ws.on("close", () => {
+    log.info(`🖱️  Pointer channel closed for ${session.ip}`);
+  });
+}
+
 // ==================== REAL-TIME SUBSCRIPTIONS (SSE) ====================
 
+/**
+ * Answer an event stream whose subscription failed; the SSE headers go out with the
+ * first event, so a refused subscription still gets a JSON error with its status.
+ * Once events were sent, the stream can only be ended.
+ */
+function sendStreamError(res: Response, err: any) {
+  if (res.headersSent) {
+    log.warn(`⚠️  Event stream ended`, { error: err.message });
+    return res.end();
+  }
+  const status = err instanceof PermissionDeniedError ? 403 : 500;
+  return res.status(status).type("json").json({ success: false, error: err.message });
+}
+
 /**
  * GET /api/subscribe/volume - Subscribe to volume changes via Server-Sent Events
  */
 app.get("/api/subscribe/volume", async (req: Request, res: Response) => {
   try {
-    if (!tvClient) {
+    const session = tvSessions.get(getTarget(req));
+    if (!session?.commands) {
       return res.status(400).json({ success: false, error: "Not connected to TV" });
     }
 
@@ -870,13 +1908,20 @@ app.get("/api/subscribe/volume", async (req: Request, res: Response) => {
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
-    res.flushHeaders();
 
     const clientId = Math.random().toString(36).substring(7);
     sseClients.set(clientId, res);
 
-    // Subscribe to volume changes
-    const subscriptionId = await tvClient.subscribe('ssap://audio/getVolume', (data) => {
+    // Clean up on disconnect, also if it comes while subscribing
+    let unsubscribe = () => {};
+    req.on('close', () => {
+      sseClients.delete(clientId);
+      unsubscribe();
+      log.info(`📡 Client ${clientId} disconnected from volume subscription`);
+    });
+
+    // Listen to volume changes (one TV subscription shared by all clients)
+    unsubscribe = await session.subscriptions.subscribe('ssap://audio/getVolume', (data) => {
       const event = {
         type: 'volume',
         volume: data.volume,
@@ -887,24 +1932,105 @@ app.get("/api/subscribe/volume", async (req: Request, res: Response) => {
       res.write(`data: ${JSON.stringify(event)}\n\n`);
     });
 
-    activeSubscriptions.set(subscriptionId, 'ssap://audio/getVolume');
-    console.log(`📡 Client ${clientId} subscribed to volume changes`);
+    // The client may have left while we were subscribing
+    if (res.writableEnded || req.destroyed) {
+      unsubscribe();
+      return;
+    }
+
+    log.info(`📡 Client ${clientId} subscribed to volume changes`);
 
     // Send initial connection message
     res.write(`data: ${JSON.stringify({ type: 'connected', subscription: 'volume' })}\n\n`);
 
-    // Clean up on disconnect
+  } catch (err: any) {
+    return sendStreamError(res, err);
+  }
+});
+
+/**
+ * GET /api/subscribe/audio-output - Subscribe to sound output changes via Server-Sent Events
+ */
+app.get("/api/subscribe/audio-output", async (req: Request, res: Response) => {
+  try {
+    const session = tvSessions.get(getTarget(req));
+    if (!session?.commands) {
+      return res.status(400).json({ success: false, error: "Not connected to TV" });
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+
+    const clientId = Math.random().toString(36).substring(7);
+    sseClients.set(clientId, res);
+
+    // Clean up on disconnect, also if it comes while subscribing
+    let unsubscribe = () => {};
     req.on('close', () => {
       sseClients.delete(clientId);
-      if (tvClient && subscriptionId) {
-        tvClient.unsubscribe(subscriptionId, 'ssap://audio/getVolume');
-        activeSubscriptions.delete(subscriptionId);
-      }
-      console.log(`📡 Client ${clientId} disconnected from volume subscription`);
+      unsubscribe();
+      log.info(`📡 Client ${clientId} disconnected from sound output subscription`);
+    });
+
+    unsubscribe = await session.subscriptions.subscribe('ssap://audio/getSoundOutput', (data) => {
+      res.write(`data: ${JSON.stringify({ type: 'audio-output', output: data.soundOutput, timestamp: new Date().toISOString() })}\n\n`);
     });
 
+    // The client may have left while we were subscribing
+    if (res.writableEnded || req.destroyed) {
+      unsubscribe();
+      return;
+    }
+
+    log.info(`📡 Client ${clientId} subscribed to sound output changes`);
+    res.write(`data: ${JSON.stringify({ type: 'connected', subscription: 'audio-output' })}\n\n`);
+
   } catch (err: any) {
-    return res.status(500).json({ success: false, error: err.message });
+    return sendStreamError(res, err);
+  }
+});
+
+/**
+ * GET /api/subscribe/keyboard - Subscribe to text field focus changes via Server-Sent Events
+ */
+app.get("/api/subscribe/keyboard", async (req: Request, res: Response) => {
+  try {
+    const session = tvSessions.get(getTarget(req));
+    if (!session?.commands) {
+      return res.status(400).json({ success: false, error: "Not connected to TV" });
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+
+    const clientId = Math.random().toString(36).substring(7);
+    sseClients.set(clientId, res);
+
+    // Clean up on disconnect, also if it comes while subscribing
+    let unsubscribe = () => {};
+    req.on('close', () => {
+      sseClients.delete(clientId);
+      unsubscribe();
+      log.info(`📡 Client ${clientId} disconnected from keyboard subscription`);
+    });
+
+    unsubscribe = await session.subscriptions.subscribe('ssap://com.webos.service.ime/registerRemoteKeyboard', (data) => {
+      res.write(`data: ${JSON.stringify({ type: 'keyboard', ...keyboardState(data.currentWidget), timestamp: new Date().toISOString() })}\n\n`);
+    });
+
+    // The client may have left while we were subscribing
+    if (res.writableEnded || req.destroyed) {
+      unsubscribe();
+      return;
+    }
+
+    log.info(`📡 Client ${clientId} subscribed to keyboard changes`);
+    res.write(`data: ${JSON.stringify({ type: 'connected', subscription: 'keyboard' })}\n\n`);
+
+  } catch (err: any) {
+    return sendStreamError(res, err);
   }
 });
 
@@ -913,19 +2039,27 @@ app.get("/api/subscribe/volume", async (req: Request, res: Response) => {
  */
 app.get("/api/subscribe/channel", async (req: Request, res: Response) => {
   try {
-    if (!tvClient) {
+    const session = tvSessions.get(getTarget(req));
+    if (!session?.commands) {
       return res.status(400).json({ success: false, error: "Not connected to TV" });
     }
 
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
-    res.flushHeaders();
 
     const clientId = Math.random().toString(36).substring(7);
     sseClients.set(clientId, res);
 
-    const subscriptionId = await tvClient.subscribe('ssap://tv/getCurrentChannel', (data) => {
+    // Clean up on disconnect, also if it comes while subscribing
+    let unsubscribe = () => {};
+    req.on('close', () => {
+      sseClients.delete(clientId);
+      unsubscribe();
+      log.info(`📡 Client ${clientId} disconnected from channel subscription`);
+    });
+
+    unsubscribe = await session.subscriptions.subscribe('ssap://tv/getCurrentChannel', (data) => {
       const event = {
         type: 'channel',
         channelId: data.channelId,
@@ -936,22 +2070,18 @@ app.get("/api/subscribe/channel", async (req: Request, res: Response) => {
       res.write(`data: ${JSON.stringify(event)}\n\n`);
     });
 
-    activeSubscriptions.set(subscriptionId, 'ssap://tv/getCurrentChannel');
-    console.log(`📡 Client ${clientId} subscribed to channel changes`);
+    // The client may have left while we were subscribing
+    if (res.writableEnded || req.destroyed) {
+      unsubscribe();
+      return;
+    }
 
-    res.write(`data: ${JSON.stringify({ type: 'connected', subscription: 'channel' })}\n\n`);
+    log.info(`📡 Client ${clientId} subscribed to channel changes`);
 
-    req.on('close', () => {
-      sseClients.delete(clientId);
-      if (tvClient && subscriptionId) {
-        tvClient.unsubscribe(subscriptionId, 'ssap://tv/getCurrentChannel');
-        activeSubscriptions.delete(subscriptionId);
-      }
-      console.log(`📡 Client ${clientId} disconnected from channel subscription`);
-    });
+    res.write(`data: ${JSON.stringify({ type: 'connected', subscription: 'channel' })}\n\n`);
 
   } catch (err: any) {
-    return res.status(500).json({ success: false, error: err.message });
+    return sendStreamError(res, err);
   }
 });
 
@@ -960,19 +2090,27 @@ app.get("/api/subscribe/channel", async (req: Request, res: Response) => {
  */
 app.get("/api/subscribe/app", async (req: Request, res: Response) => {
   try {
-    if (!tvClient) {
+    const session = tvSessions.get(getTarget(req));
+    if (!session?.commands) {
       return res.status(400).json({ success: false, error: "Not connected to TV" });
     }
 
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
-    res.flushHeaders();
 
     const clientId = Math.random().toString(36).substring(7);
     sseClients.set(clientId, res);
 
-    const subscriptionId = await tvClient.subscribe('ssap://com.webos.applicationManager/getForegroundAppInfo', (data) => {
+    // Clean up on disconnect, also if it comes while subscribing
+    let unsubscribe = () => {};
+    req.on('close', () => {
+      sseClients.delete(clientId);
+      unsubscribe();
+      log.info(`📡 Client ${clientId} disconnected from app subscription`);
+    });
+
+    unsubscribe = await session.subscriptions.subscribe('ssap://com.webos.applicationManager/getForegroundAppInfo', (data) => {
       const event = {
         type: 'app',
         appId: data.appId,
@@ -983,22 +2121,18 @@ app.get("/api/subscribe/app", async (req: Request, res: Response) => {
       res.write(`data: ${JSON.stringify(event)}\n\n`);
     });
 
-    activeSubscriptions.set(subscriptionId, 'ssap://com.webos.applicationManager/getForegroundAppInfo');
-    console.log(`📡 Client ${clientId} subscribed to app changes`);
+    // The client may have left while we were subscribing
+    if (res.writableEnded || req.destroyed) {
+      unsubscribe();
+      return;
+    }
 
-    res.write(`data: ${JSON.stringify({ type: 'connected', subscription: 'app' })}\n\n`);
+    log.info(`📡 Client ${clientId} subscribed to app changes`);
 
-    req.on('close', () => {
-      sseClients.delete(clientId);
-      if (tvClient && subscriptionId) {
-        tvClient.unsubscribe(subscriptionId, 'ssap://com.webos.applicationManager/getForegroundAppInfo');
-        activeSubscriptions.delete(subscriptionId);
-      }
-      console.log(`📡 Client ${clientId} disconnected from app subscription`);
-    });
+    res.write(`data: ${JSON.stringify({ type: 'connected', subscription: 'app' })}\n\n`);
 
   } catch (err: any) {
-    return res.status(500).json({ success: false, error: err.message });
+    return sendStreamError(res, err);
   }
 });
 
@@ -1007,19 +2141,27 @@ app.get("/api/subscribe/app", async (req: Request, res: Response) => {
  */
 app.get("/api/subscribe/media", async (req: Request, res: Response) => {
   try {
-    if (!tvClient) {
+    const session = tvSessions.get(getTarget(req));
+    if (!session?.commands) {
       return res.status(400).json({ success: false, error: "Not connected to TV" });
     }
 
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
-    res.flushHeaders();
 
     const clientId = Math.random().toString(36).substring(7);
     sseClients.set(clientId, res);
 
-    const subscriptionId = await tvClient.subscribe('ssap://com.webos.media/getForegroundAppInfo', (data) => {
+    // Clean up on disconnect, also if it comes while subscribing
+    let unsubscribe = () => {};
+    req.on('close', () => {
+      sseClients.delete(clientId);
+      unsubscribe();
+      log.info(`📡 Client ${clientId} disconnected from media subscription`);
+    });
+
+    unsubscribe = await session.subscriptions.subscribe('ssap://com.webos.media/getForegroundAppInfo', (data) => {
       const event = {
         type: 'media',
         foregroundAppInfo: data.foregroundAppInfo || [],
@@ -1028,22 +2170,18 @@ app.get("/api/subscribe/media", async (req: Request, res: Response) => {
       res.write(`data: ${JSON.stringify(event)}\n\n`);
     });
 
-    activeSubscriptions.set(subscriptionId, 'ssap://com.webos.media/getForegroundAppInfo');
-    console.log(`📡 Client ${clientId} subscribed to media state changes`);
+    // The client may have left while we were subscribing
+    if (res.writableEnded || req.destroyed) {
+      unsubscribe();
+      return;
+    }
 
-    res.write(`data: ${JSON.stringify({ type: 'connected', subscription: 'media' })}\n\n`);
+    log.info(`📡 Client ${clientId} subscribed to media state changes`);
 
-    req.on('close', () => {
-      sseClients.delete(clientId);
-      if (tvClient && subscriptionId) {
-        tvClient.unsubscribe(subscriptionId, 'ssap://com.webos.media/getForegroundAppInfo');
-        activeSubscriptions.delete(subscriptionId);
-      }
-      console.log(`📡 Client ${clientId} disconnected from media subscription`);
-    });
+    res.write(`data: ${JSON.stringify({ type: 'connected', subscription: 'media' })}\n\n`);
 
   } catch (err: any) {
-    return res.status(500).json({ success: false, error: err.message });
+    return sendStreamError(res, err);
   }
 });
 
@@ -1052,71 +2190,74 @@ app.get("/api/subscribe/media", async (req: Request, res: Response) => {
  */
 app.get("/api/subscribe/all", async (req: Request, res: Response) => {
   try {
-    if (!tvClient) {
+    const session = tvSessions.get(getTarget(req));
+    if (!session?.commands) {
       return res.status(400).json({ success: false, error: "Not connected to TV" });
     }
+    const hub = session.subscriptions;
 
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
-    res.flushHeaders();
 
     const clientId = Math.random().toString(36).substring(7);
     sseClients.set(clientId, res);
 
-    const subscriptions: { id: string; uri: string }[] = [];
+    const unsubscribers: (() => void)[] = [];
+
+    // Clean up whatever was set up, also if a later subscription fails
+    req.on('close', () => {
+      sseClients.delete(clientId);
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      log.info(`📡 Client ${clientId} disconnected from ALL subscriptions`);
+    });
 
     // Subscribe to volume
-    const volumeId = await tvClient.subscribe('ssap://audio/getVolume', (data) => {
+    unsubscribers.push(await hub.subscribe('ssap://audio/getVolume', (data) => {
       res.write(`data: ${JSON.stringify({ type: 'volume', ...data, timestamp: new Date().toISOString() })}\n\n`);
-    });
-    subscriptions.push({ id: volumeId, uri: 'ssap://audio/getVolume' });
+    }));
+
+    // Subscribe to sound output
+    unsubscribers.push(await hub.subscribe('ssap://audio/getSoundOutput', (data) => {
+      res.write(`data: ${JSON.stringify({ type: 'audio-output', output: data.soundOutput, timestamp: new Date().toISOString() })}\n\n`);
+    }));
 
     // Subscribe to channel
-    const channelId = await tvClient.subscribe('ssap://tv/getCurrentChannel', (data) => {
+    unsubscribers.push(await hub.subscribe('ssap://tv/getCurrentChannel', (data) => {
       res.write(`data: ${JSON.stringify({ type: 'channel', ...data, timestamp: new Date().toISOString() })}\n\n`);
-    });
-    subscriptions.push({ id: channelId, uri: 'ssap://tv/getCurrentChannel' });
+    }));
 
     // Subscribe to app
-    const appId = await tvClient.subscribe('ssap://com.webos.applicationManager/getForegroundAppInfo', (data) => {
+    unsubscribers.push(await hub.subscribe('ssap://com.webos.applicationManager/getForegroundAppInfo', (data) => {
       res.write(`data: ${JSON.stringify({ type: 'app', ...data, timestamp: new Date().toISOString() })}\n\n`);
-    });
-    subscriptions.push({ id: appId, uri: 'ssap://com.webos.applicationManager/getForegroundAppInfo' });
+    }));
 
     // Subscribe to media
-    const mediaId = await tvClient.subscribe('ssap://com.webos.media/getForegroundAppInfo', (data) => {
+    unsubscribers.push(await hub.subscribe('ssap://com.webos.media/getForegroundAppInfo', (data) => {
       res.write(`data: ${JSON.stringify({ type: 'media', foregroundAppInfo: data.foregroundAppInfo || [], timestamp: new Date().toISOString() })}\n\n`);
-    });
-    subscriptions.push({ id: mediaId, uri: 'ssap://com.webos.media/getForegroundAppInfo' });
+    }));
 
-    console.log(`📡 Client ${clientId} subscribed to ALL events`);
-    res.write(`data: ${JSON.stringify({ type: 'connected', subscription: 'all', subscriptions: subscriptions.length })}\n\n`);
+    // The client may have left while we were subscribing
+    if (res.writableEnded || req.destroyed) {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      return;
+    }
 
-    req.on('close', () => {
-      sseClients.delete(clientId);
-      if (tvClient) {
-        subscriptions.forEach(({ id, uri }) => {
-          tvClient!.unsubscribe(id, uri);
-          activeSubscriptions.delete(id);
-        });
-      }
-      console.log(`📡 Client ${clientId} disconnected from ALL subscriptions`);
-    });
+    log.info(`📡 Client ${clientId} subscribed to ALL events`);
+    res.write(`data: ${JSON.stringify({ type: 'connected', subscription: 'all', subscriptions: unsubscribers.length })}\n\n`);
 
   } catch (err: any) {
-    return res.status(500).json({ success: false, error: err.message });
+    return sendStreamError(res, err);
   }
 });
 
 /**
- * GET /api/subscriptions - List active subscriptions
+ * GET /api/subscriptions - List the shared TV subscriptions and how many clients listen to each
  */
 app.get("/api/subscriptions", (req: Request, res: Response) => {
-  const subscriptions = Array.from(activeSubscriptions.entries()).map(([id, uri]) => ({
-    subscriptionId: id,
-    uri,
-  }));
+  const subscriptions = tvSessions.list().flatMap((session) =>
+    session.subscriptions.list().map((subscription) => ({ ip: session.ip, ...subscription }))
+  );
 
   return res.json({
     success: true,
@@ -1134,22 +2275,23 @@ function isMainModule(): boolean {
   if (process.env.npm_lifecycle_event) {
     // If run via npm script, check which script is running
     const shouldStart = process.env.npm_lifecycle_event === 'dev' || process.env.npm_lifecycle_event === 'start';
-    console.log(`[DEBUG] npm_lifecycle_event: ${process.env.npm_lifecycle_event}, shouldStart: ${shouldStart}`);
+    log.debug(`npm_lifecycle_event: ${process.env.npm_lifecycle_event}, shouldStart: ${shouldStart}`);
     return shouldStart;
   }
   // Fallback: check if import.meta.url matches the entry point
   const isMain = import.meta.url === `file://${process.argv[1]}` || 
          import.meta.url.endsWith(process.argv[1]);
-  console.log(`[DEBUG] No npm_lifecycle_event, isMain: ${isMain}, import.meta.url: ${import.meta.url}, argv[1]: ${process.argv[1]}`);
+  log.debug(`No npm_lifecycle_event, isMain: ${isMain}, import.meta.url: ${import.meta.url}, argv[1]: ${process.argv[1]}`);
   return isMain;
 }
 
 // Start server only if this file is run directly (not imported)
 if (isMainModule()) {
   const port = process.env.PORT || 3000;
-  console.log(`🚀 LG WebOS TV API Server starting on port ${port}...`);
+  log.info(`🚀 LG WebOS TV API Server starting on port ${port}...`);
 
-  app.listen(port, () => {
-    console.log(`Started development server: http://localhost:${port}`);
+  const server = app.listen(port, () => {
+    log.info(`Started development server: http://localhost:${port}`);
   });
+  attachPointerChannel(server);
 }
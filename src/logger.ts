@@ -0,0 +1,166 @@
+/**
+ * Leveled, structured logging
+ *
+ * Every module gets its own logger (createLogger("client")). Output is either
+ * pretty, human-readable lines or one JSON object per line, and secrets
+ * (client-keys, API keys, PINs) are always redacted from messages and fields.
+ *
+ * Configuration (environment):
+ * - LOG_FORMAT: "pretty" (default) or "json"
+ * - LOG_LEVEL: default level plus per-module overrides, e.g. "info,client=debug,mcp=warn"
+ */
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  isEnabled(level: LogLevel): boolean;
+}
+
+const REDACTED = "[REDACTED]";
+
+// Field names (lower-case, without "-" and "_") whose values are never logged
+const SECRET_FIELDS = new Set([
+  "clientkey",
+  "apikey",
+  "apikeys",
+  "pin",
+  "authorization",
+  "password",
+  "secret",
+  "token",
+]);
+
+// Secrets embedded in free text: JSON "client-key" values, sk- API keys, bearer tokens and PINs
+const SECRET_PATTERNS: [RegExp, string][] = [
+  [/("(?:client-key|clientKey|client_key|apiKey|api_key|pin)"\s*:\s*)"[^"]*"/gi, `$1"${REDACTED}"`],
+  [/\bsk-[A-Za-z0-9_-]{4,}/g, REDACTED],
+  [/\b(Bearer\s+)[A-Za-z0-9._~+/=-]+/gi, `$1${REDACTED}`],
+  [/\b(pin\s*[:=]?\s*)\d{4,8}\b/gi, `$1${REDACTED}`],
+];
+
+const LEVEL_LABELS: Record<Exclude<LogLevel, "silent">, string> = {
+  debug: "DEBUG",
+  info: "INFO ",
+  warn: "WARN ",
+  error: "ERROR",
+};
+
+const levelOverrides = new Map<string, LogLevel>();
+let defaultLevel: LogLevel = "info";
+let format: "pretty" | "json" = process.env.LOG_FORMAT === "json" ? "json" : "pretty";
+
+configureLogLevels(process.env.LOG_LEVEL);
+
+/**
+ * Apply a level specification such as "info,client=debug,mcp=warn".
+ * Entries without a module set the default level; unknown levels are ignored.
+ */
+export function configureLogLevels(spec?: string): void {
+  for (const entry of (spec || "").split(",")) {
+    const [left, right] = entry.split("=").map((part) => part.trim().toLowerCase());
+    const level = (right ?? left) as LogLevel;
+    if (!LOG_LEVELS.includes(level)) continue;
+
+    if (right === undefined) {
+      defaultLevel = level;
+    } else if (left) {
+      levelOverrides.set(left, level);
+    }
+  }
+}
+
+/**
+ * Set the level of one module, or with "*" the default level
+ */
+export function setLogLevel(module: string, level: LogLevel): void {
+  if (module === "*") {
+    defaultLevel = level;
+  } else {
+    levelOverrides.set(module, level);
+  }
+}
+
+/**
+ * Switch between pretty and JSON output
+ */
+export function setLogFormat(value: "pretty" | "json"): void {
+  format = value;
+}
+
+/**
+ * Redact secrets from free text
+ */
+export function redactText(text: string): string {
+  return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+/**
+ * Copy a value with every secret field and embedded secret replaced
+ */
+export function redact(value: unknown, seen = new WeakSet<object>()): unknown {
+  if (typeof value === "string") return redactText(value);
+  if (value === null || typeof value !== "object") return value;
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message) };
+  }
+  if (seen.has(value)) return "[Circular]";
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, seen));
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = SECRET_FIELDS.has(key.toLowerCase().replace(/[-_]/g, "")) ? REDACTED : redact(item, seen);
+  }
+  return copy;
+}
+
+/**
+ * Create the logger of a module
+ */
+export function createLogger(module: string): Logger {
+  const levelOf = () => levelOverrides.get(module) ?? defaultLevel;
+  const isEnabled = (level: LogLevel) =>
+    level !== "silent" && LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(levelOf());
+
+  const write = (level: Exclude<LogLevel, "silent">, message: string, fields?: LogFields) => {
+    if (!isEnabled(level)) return;
+
+    const safeMessage = redactText(message);
+    const safeFields = fields ? (redact(fields) as LogFields) : undefined;
+    const stream = level === "warn" || level === "error" ? process.stderr : process.stdout;
+
+    if (format === "json") {
+      stream.write(JSON.stringify({ time: new Date().toISOString(), level, module, msg: safeMessage, ...safeFields }) + "\n");
+      return;
+    }
+
+    const time = new Date().toISOString().slice(11, 23);
+    const extra = safeFields && Object.keys(safeFields).length > 0 ? ` ${formatFields(safeFields)}` : "";
+    stream.write(`${time} ${LEVEL_LABELS[level]} [${module}] ${safeMessage}${extra}\n`);
+  };
+
+  return {
+    debug: (message, fields) => write("debug", message, fields),
+    info: (message, fields) => write("info", message, fields),
+    warn: (message, fields) => write("warn", message, fields),
+    error: (message, fields) => write("error", message, fields),
+    isEnabled,
+  };
+}
+
+function formatFields(fields: LogFields): string {
+  return Object.entries(fields)
+    .map(([key, value]) => `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`)
+    .join(" ");
+}
@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 
 import { PokemoteMCPServer } from "./mcp-server.js";
+import { createLogger } from "./logger.js";
 
 /**
  * Pokemote MCP Server Entry Point
@@ -9,15 +10,15 @@ import { PokemoteMCPServer } from "./mcp-server.js";
  * External AI agents can connect via HTTP JSON-RPC protocol
  */
 
+const log = createLogger("mcp");
 const server = new PokemoteMCPServer();
 const port = process.env.MCP_PORT ? parseInt(process.env.MCP_PORT) : 3333;
 
-console.log('🚀 Starting Pokemote MCP Server in HTTP mode...');
-console.log('📺 Control your LG WebOS TV with AI agents');
-console.log('');
+log.info('🚀 Starting Pokemote MCP Server in HTTP mode...');
+log.info('📺 Control your LG WebOS TV with AI agents');
 
 server.runHTTP(port).catch((error) => {
-  console.error('❌ Failed to start MCP server:', error);
+  log.error('❌ Failed to start MCP server', { error });
   process.exit(1);
 });
 
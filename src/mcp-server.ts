@@ -1,17 +1,24 @@
 import express from 'express';
 import cors from 'cors';
 import { discoverTVs } from "./tv/discovery.js";
-import { LGTVClient } from "./tv/client.js";
-import { TVCommands } from "./tv/commands.js";
+import { LGTVClient, type RequestOptions } from "./tv/client.js";
+import { KEYBOARD_WAIT_TIMEOUT, TVCommands } from "./tv/commands.js";
 import { tvDatabase } from "./tv/database.js";
+import { connectEndpoint, tvSessions, type TVSession } from "./tv/sessions.js";
+import { REMOTE_KEYS, MAX_KEY_DELAY } from "./tv/keys.js";
+import { MAX_AV_SYNC_VALUE, SOUND_MODES, SOUND_OUTPUTS, parseSoundOutput, parseSoundSettings } from "./tv/audio.js";
+import { resolveDeepLink } from "./tv/deeplinks.js";
+import { normalizeAppName, type AppResolution } from "./tv/apps.js";
+import { DEFAULT_FAVORITE_GROUP, groupFavorites, type ChannelResolution } from "./tv/channels.js";
+import { ENERGY_SAVING_MODES, PICTURE_MODES, parsePictureSettings } from "./tv/picture.js";
+import { PERMISSION_PROFILES, parsePermissionProfile } from "./tv/permissions.js";
+import { createLogger } from "./logger.js";
 import {
-  tvClient,
-  tvCommands,
-  currentTVIP,
   pendingPairings,
-  autoReconnect,
-  ensureConnection,
-  setTVClient,
+  parsePairingType,
+  awaitPromptPairing,
+  getPairingStatus as getPairingStatusFor,
+  type PendingPairing,
 } from "./index.js";
 import {
   createAuthConfig,
@@ -21,6 +28,8 @@ import {
   extractApiKeyFromHeader,
 } from "./auth.js";
 
+const log = createLogger("mcp");
+
 interface AuthConfig {
   enabled: boolean;
   apiKeys: string[];
@@ -43,6 +52,15 @@ interface MCPResponse {
   };
 }
 
+// Optional target TV accepted by every TV tool
+const TV_TARGET_PROPERTY = {
+  type: "string",
+  description: "Target TV by IP address or friendly name (optional - uses the default TV if not provided)",
+};
+
+// Tools that do not act on a single connected TV
+const UNTARGETED_TOOLS = new Set(["discover_tvs", "connect_tv", "get_pairing_status", "list_saved_tvs", "delete_saved_tv", "list_sessions"]);
+
 export class PokemoteMCPServer {
   private authConfig: AuthConfig;
 
@@ -50,9 +68,9 @@ export class PokemoteMCPServer {
     this.authConfig = createAuthConfig();
 
     if (this.authConfig.enabled) {
-      console.log(`🔐 Authentication enabled with ${this.authConfig.apiKeys.length} API key(s)`);
+      log.info(`🔐 Authentication enabled with ${this.authConfig.apiKeys.length} API key(s)`);
     } else {
-      console.log('⚠️  Authentication disabled - server running in open mode');
+      log.warn('⚠️  Authentication disabled - server running in open mode');
     }
   }
 
@@ -60,7 +78,7 @@ export class PokemoteMCPServer {
    * Get list of all available tools
    */
   getTools() {
-    return [
+    const tools = [
       // Discovery & Connection Tools
       {
         name: "discover_tvs",
@@ -72,7 +90,7 @@ export class PokemoteMCPServer {
       },
       {
         name: "connect_tv",
-        description: "Initiate connection to an LG TV by IP address. This will display a PIN code on the TV screen. After calling this, you MUST call pair_tv with the PIN to complete the connection. Parameters: ip (required, string) - TV IP address from discover_tvs; secure (optional, boolean) - use secure connection (default: true); name (optional, string) - friendly name for the TV.",
+        description: "Initiate connection to an LG TV by IP address. By default this displays a PIN code on the TV screen and you MUST call pair_tv with the PIN to complete the connection. With pairingType 'prompt' the TV shows an Accept dialog instead: no PIN is needed, poll get_pairing_status until the user accepted. Parameters: ip (required, string) - TV IP address from discover_tvs; pairingType (optional, 'pin' or 'prompt') - pairing mode, default 'pin'; profile (optional, 'read-only', 'basic-remote' or 'full-control') - least-privilege permission profile, default full-control; secure (optional, boolean) - force wss (true) or ws (false), by default a saved TV uses the endpoint it was paired on and a new one tries wss:3001 first, then ws:3000; port (optional, number) - non-standard WebSocket port; name (optional, string) - friendly name for the TV. Other connected TVs stay connected.",
         inputSchema: {
           type: "object",
           properties: {
@@ -80,9 +98,23 @@ export class PokemoteMCPServer {
               type: "string",
               description: "IP address of the TV (e.g., '192.168.1.100')",
             },
+            profile: {
+              type: "string",
+              enum: ["read-only", "basic-remote", "full-control"],
+              description: "Permissions to ask the TV for; commands outside the profile are refused. Default: the profile the TV was paired with, else full-control",
+            },
+            pairingType: {
+              type: "string",
+              enum: ["pin", "prompt"],
+              description: "Show a PIN on the TV (pin) or an Accept/Decline dialog (prompt). Default: pin",
+            },
             secure: {
               type: "boolean",
-              description: "Use secure WebSocket connection (wss). Default: true",
+              description: "Force secure (wss) or non-secure (ws). Default: the saved endpoint, else try wss:3001, then ws:3000. A TV paired over wss is never reached over ws",
+            },
+            port: {
+              type: "number",
+              description: "WebSocket port, only needed for non-standard setups",
             },
             name: {
               type: "string",
@@ -118,9 +150,22 @@ export class PokemoteMCPServer {
           required: ["pin"],
         },
       },
+      {
+        name: "get_pairing_status",
+        description: "Check a pairing started with connect_tv, e.g. whether the user accepted the prompt on the TV. States: requested, waiting-for-pin, waiting-for-prompt, paired, failed, none. Parameters: ip (optional, string) - TV IP, defaults to the only pairing in progress.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ip: {
+              type: "string",
+              description: "IP address of the TV being paired",
+            },
+          },
+        },
+      },
       {
         name: "disconnect_tv",
-        description: "Disconnect from the currently connected TV. Does not delete saved credentials - use delete_saved_tv for that.",
+        description: "Disconnect from a TV. With tv, only that TV is disconnected; without it, every connected TV is disconnected. Does not delete saved credentials - use delete_saved_tv for that.",
         inputSchema: {
           type: "object",
           properties: {},
@@ -128,7 +173,7 @@ export class PokemoteMCPServer {
       },
       {
         name: "reconnect_tv",
-        description: "Reconnect to a TV using previously saved credentials. If no IP is specified, connects to the most recently used TV. This is useful for quick reconnection without needing to pair again.",
+        description: "Reconnect to a TV using previously saved credentials. If no IP is specified, connects to the default TV (or the most recently used one). This is useful for quick reconnection without needing to pair again.",
         inputSchema: {
           type: "object",
           properties: {
@@ -147,6 +192,14 @@ export class PokemoteMCPServer {
           properties: {},
         },
       },
+      {
+        name: "get_tv_state",
+        description: "Get the live state of the TV instantly, without querying it: power state, volume and mute, sound output, foreground app, input, channel and media playback. Each field has the value and updatedAt (when the TV last reported it); value is null if the TV has not reported it yet.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
       {
         name: "list_saved_tvs",
         description: "List all TVs with saved credentials in the database. Shows IP address, friendly name, connection type (secure/non-secure), validity status, and last used timestamp for each TV.",
@@ -155,6 +208,22 @@ export class PokemoteMCPServer {
           properties: {},
         },
       },
+      {
+        name: "list_sessions",
+        description: "List all TVs that currently have a live connection, which one is the default, and when each connected. Use the ip or name from here as the 'tv' parameter of other tools to control a specific TV.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "set_default_tv",
+        description: "Set the TV used by tools that are called without a 'tv' parameter. Parameters: tv (optional, string) - IP address or friendly name of a saved TV; omit to clear the default.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
       {
         name: "delete_saved_tv",
         description: "Delete saved credentials for a specific TV by IP address. Use this when you want to remove a TV from the database or re-pair with fresh credentials.",
@@ -169,6 +238,19 @@ export class PokemoteMCPServer {
           required: ["ip"],
         },
       },
+      {
+        name: "trust_tv_certificate",
+        description: "Re-trust a TV whose certificate changed. Secure connections are refused with 'Certificate mismatch' when the TV presents a different certificate than the one pinned at pairing, which can mean another device is impersonating it. Only use this after the user confirms the TV was reset or updated. Parameters: fingerprint (optional, string) - only trust this exact SHA-256 fingerprint.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            fingerprint: {
+              type: "string",
+              description: "Expected SHA-256 certificate fingerprint (AA:BB:...)",
+            },
+          },
+        },
+      },
       {
         name: "get_system_info",
         description: "Get detailed system information about the connected TV including model, firmware version, WebOS version, and other technical details.",
@@ -234,6 +316,69 @@ export class PokemoteMCPServer {
         },
       },
 
+      // Audio Output & Sound Settings Tools
+      {
+        name: "get_audio_output",
+        description: "Get where the TV sends its sound (e.g. tv_speaker, external_arc, external_optical, bt_soundbar).",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "set_audio_output",
+        description: `Switch the TV sound output, e.g. to the soundbar. Parameters: output (required) - one of ${SOUND_OUTPUTS.map((o) => o.id).join(", ")}, or a friendly name: speaker, arc, soundbar (HDMI ARC), optical, bluetooth, headphones.`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            output: {
+              type: "string",
+              description: "Sound output id or friendly name (e.g. 'soundbar', 'optical', 'speaker')",
+            },
+          },
+          required: ["output"],
+        },
+      },
+      {
+        name: "get_sound_settings",
+        description: "Get the TV sound settings: soundMode, balance (-50 left to 50 right), avSync ('on'/'off') and avSyncValue.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "set_sound_settings",
+        description: "Change one or more TV sound settings. Parameters (all optional, at least one): soundMode, balance, avSync, avSyncValue. Returns the settings as read back from the TV.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            soundMode: {
+              type: "string",
+              enum: [...SOUND_MODES],
+              description: "Sound mode preset",
+            },
+            balance: {
+              type: "number",
+              description: "Left/right balance from -50 (left) to 50 (right)",
+              minimum: -50,
+              maximum: 50,
+            },
+            avSync: {
+              type: "string",
+              enum: ["on", "off"],
+              description: "Turn AV sync adjustment on or off",
+            },
+            avSyncValue: {
+              type: "number",
+              description: `AV sync delay from 0 to ${MAX_AV_SYNC_VALUE}`,
+              minimum: 0,
+              maximum: MAX_AV_SYNC_VALUE,
+            },
+          },
+        },
+      },
+
       // Media Control Tools
       {
         name: "media_play",
@@ -293,6 +438,23 @@ export class PokemoteMCPServer {
       },
 
       // System Control Tools
+      {
+        name: "power_on",
+        description: "Turn on the TV with Wake-on-LAN, wait until it accepts connections and reconnect. Works when the TV is fully off. The MAC address is learned automatically while paired; pass mac to override it. Parameters: mac (optional, string) - TV MAC address; timeout (optional, number) - milliseconds to wait for the TV to boot (default: 60000).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            mac: {
+              type: "string",
+              description: "MAC address of the TV (e.g., 'a8:23:fe:12:34:56'). Optional if already learned",
+            },
+            timeout: {
+              type: "number",
+              description: "Milliseconds to wait for the TV to boot. Default: 60000",
+            },
+          },
+        },
+      },
       {
         name: "power_off",
         description: "Turn off the TV completely. The TV will shut down and go into standby mode. Use screen_off if you want to turn off just the display while keeping the TV running.",
@@ -332,18 +494,85 @@ export class PokemoteMCPServer {
         },
       },
 
+      // Picture Settings Tools
+      {
+        name: "get_picture_settings",
+        description: "Get the TV picture settings: pictureMode, backlight, contrast, brightness, color (0-100), colorTemperature ('W50' warm to 'C50' cool) and energySaving. allowed lists the options and ranges this TV offers, where it reports them.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "set_picture_mode",
+        description: `Switch the TV picture mode, e.g. to 'game' for a console. Parameters: mode (required) - one of ${PICTURE_MODES.join(", ")}, or another mode this TV lists (allowed.pictureMode in get_picture_settings).`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            mode: {
+              type: "string",
+              description: "Picture mode (e.g. 'game', 'cinema', 'filmMaker', 'vivid')",
+            },
+          },
+          required: ["mode"],
+        },
+      },
+      {
+        name: "set_picture_settings",
+        description: "Change one or more TV picture settings. Parameters (all optional, at least one): pictureMode, backlight, contrast, brightness, color, colorTemperature, energySaving. Settings this TV does not report, and values it does not offer (see allowed in get_picture_settings), are refused. Returns the settings as read back from the TV.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            pictureMode: {
+              type: "string",
+              description: `Picture mode preset: ${PICTURE_MODES.join(", ")}, or another mode this TV lists`,
+            },
+            backlight: { type: "number", minimum: 0, maximum: 100, description: "OLED light / backlight (0-100)" },
+            contrast: { type: "number", minimum: 0, maximum: 100, description: "Contrast (0-100)" },
+            brightness: { type: "number", minimum: 0, maximum: 100, description: "Brightness (0-100)" },
+            color: { type: "number", minimum: 0, maximum: 100, description: "Color saturation (0-100)" },
+            colorTemperature: {
+              type: "string",
+              description: "'W50' (warmest) to 'C50' (coolest), e.g. 'W20'",
+            },
+            energySaving: {
+              type: "string",
+              enum: [...ENERGY_SAVING_MODES],
+              description: "Energy saving level",
+            },
+          },
+        },
+      },
+
       // App Control Tools
       {
         name: "list_apps",
-        description: "List all available apps installed on the TV. Returns an array of apps with their appId (used for launching) and title (display name). Examples of common apps: 'youtube.leanback.v4' for YouTube, 'netflix' for Netflix, 'com.webos.app.livetv' for Live TV. Always call this first to get the correct appId before launching an app.",
+        description: "List all available apps installed on the TV. Returns an array of apps with their appId (used for launching) and title (display name), and a source: 'live' (current), 'cached' (the TV did not answer, list as of refreshedAt) or 'fallback' (common LG apps, may not be installed). Examples of common apps: 'youtube.leanback.v4' for YouTube, 'netflix' for Netflix, 'com.webos.app.livetv' for Live TV. Always call this first to get the correct appId before launching an app.",
         inputSchema: {
           type: "object",
           properties: {},
         },
       },
+      {
+        name: "get_app_changes",
+        description: "List apps recently installed on or removed from the TV, newest first. Works while the TV is off. Parameters: limit (optional, default 50), since (optional, ISO date).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            limit: {
+              type: "number",
+              description: "Maximum number of changes (1-500, default 50)",
+            },
+            since: {
+              type: "string",
+              description: "Only changes after this ISO date, e.g. '2026-10-01'",
+            },
+          },
+        },
+      },
       {
         name: "list_running_apps",
-        description: "List all currently running apps on the TV. Shows which apps are active in the background.",
+        description: "List all currently running apps on the TV with their title, whether they are in the foreground, and whether they are part of webOS (system).",
         inputSchema: {
           type: "object",
           properties: {},
@@ -359,13 +588,13 @@ export class PokemoteMCPServer {
       },
       {
         name: "launch_app",
-        description: "Launch an app on the TV by its appId. IMPORTANT: Use list_apps first to get the correct appId. Parameters: appId (required, string) - the app identifier from list_apps (e.g., 'youtube.leanback.v4', 'netflix', 'com.webos.app.livetv'); contentId (optional, string) - deep link to specific content within the app (e.g., YouTube video ID like 'dQw4w9WgXcQ', Netflix title ID); params (optional, object) - additional app-specific parameters as a JSON object (e.g., {\"query\": \"search term\"} for search apps).",
+        description: "Launch an app or input on the TV by its appId, its name (e.g. 'Netflix', 'Disney+', 'HDMI 2') or an alias set with set_app_alias (e.g. 'the game console'). Names are matched fuzzily against list_apps; if a name matches several apps nothing is launched and the candidates are returned. Parameters: appId (required, string) - app id, name or alias; contentId (optional, string) - deep link to specific content within the app (e.g., YouTube video ID like 'dQw4w9WgXcQ'); params (optional, object) - additional app-specific parameters as a JSON object (e.g., {\"query\": \"search term\"} for search apps). For share URLs use play_url instead.",
         inputSchema: {
           type: "object",
           properties: {
             appId: {
               type: "string",
-              description: "App identifier from list_apps (e.g., 'youtube.leanback.v4', 'netflix', 'com.webos.app.hdmi1')",
+              description: "App id ('youtube.leanback.v4'), name ('YouTube', 'HDMI 2') or alias",
             },
             contentId: {
               type: "string",
@@ -379,273 +608,690 @@ export class PokemoteMCPServer {
           required: ["appId"],
         },
       },
-
-      // Channel Control Tools
       {
-        name: "channel_up",
-        description: "Switch to the next channel. Only works when Live TV or a channel-based input is active.",
+        name: "resolve_app",
+        description: "Find out which installed app a name refers to, without launching it. Returns the app, or the candidates when the name is ambiguous or unknown. Parameters: name (required).",
         inputSchema: {
           type: "object",
-          properties: {},
+          properties: {
+            name: {
+              type: "string",
+              description: "App name, id or alias",
+            },
+          },
+          required: ["name"],
         },
       },
       {
-        name: "channel_down",
-        description: "Switch to the previous channel. Only works when Live TV or a channel-based input is active.",
+        name: "list_app_aliases",
+        description: "List the app aliases defined for the TV.",
         inputSchema: {
           type: "object",
           properties: {},
         },
       },
       {
-        name: "list_channels",
-        description: "List all available TV channels. Returns channel information including channel ID, name, and number.",
+        name: "set_app_alias",
+        description: "Give an app or input a name of your own, e.g. alias 'the game console' for app 'HDMI 2'. Aliases are stored per TV and win over app titles in launch_app. Parameters: alias (required), app (required, app id or name that resolves to one app).",
         inputSchema: {
           type: "object",
-          properties: {},
+          properties: {
+            alias: {
+              type: "string",
+              description: "The new name (e.g. 'the game console', 'kids tv')",
+            },
+            app: {
+              type: "string",
+              description: "App id or name the alias opens (e.g. 'HDMI 2', 'com.webos.app.hdmi2')",
+            },
+          },
+          required: ["alias", "app"],
         },
       },
       {
-        name: "get_current_channel",
-        description: "Get information about the currently tuned channel including channel ID, name, number, and program information.",
+        name: "remove_app_alias",
+        description: "Remove an app alias. Parameters: alias (required).",
         inputSchema: {
           type: "object",
-          properties: {},
+          properties: {
+            alias: {
+              type: "string",
+              description: "Alias to remove",
+            },
+          },
+          required: ["alias"],
         },
       },
       {
-        name: "set_channel",
-        description: "Switch to a specific channel by its channel ID. Use list_channels first to get available channel IDs. Parameters: channelId (required, string) - the channel identifier from list_channels.",
+        name: "close_app",
+        description: "Close a running app on the TV. Fails if the app is not running (see list_running_apps). Parameters: appId (required, string).",
         inputSchema: {
           type: "object",
           properties: {
-            channelId: {
+            appId: {
               type: "string",
-              description: "Channel identifier from list_channels",
+              description: "App identifier of a running app (e.g., 'netflix')",
             },
           },
-          required: ["channelId"],
+          required: ["appId"],
         },
       },
-
-      // Input Control Tools
       {
-        name: "list_inputs",
-        description: "List all available input sources (HDMI ports, AV inputs, etc.). Returns input ID, label, and connection status for each input.",
+        name: "close_other_apps",
+        description: "Close every running app except the one in the foreground, to free memory. webOS system apps are left running.",
         inputSchema: {
           type: "object",
           properties: {},
         },
       },
       {
-        name: "set_input",
-        description: "Switch to a specific input source by its input ID. Use list_inputs first to get available input IDs. Parameters: inputId (required, string) - the input identifier from list_inputs (e.g., 'HDMI_1', 'HDMI_2').",
+        name: "restart_app",
+        description: "Relaunch an app cleanly: close it if it is running, wait until it has exited, then launch it again. Use this to recover a frozen app. Parameters: appId (required), contentId and params (optional, as for launch_app).",
         inputSchema: {
           type: "object",
           properties: {
-            inputId: {
+            appId: {
               type: "string",
-              description: "Input identifier from list_inputs (e.g., 'HDMI_1', 'HDMI_2', 'HDMI_3')",
+              description: "App identifier (e.g., 'netflix', 'youtube.leanback.v4')",
+            },
+            contentId: {
+              type: "string",
+              description: "Optional deep link content ID to open after the restart",
+            },
+            params: {
+              type: "object",
+              description: "Optional JSON object with app-specific launch parameters",
             },
           },
-          required: ["inputId"],
+          required: ["appId"],
+        },
+      },
+      {
+        name: "play_url",
+        description: "Open a pasted link on the TV in the right app, without knowing app IDs or content formats. Supports YouTube (youtu.be, youtube.com/watch, shorts), Netflix (netflix.com/title/..., /watch/...), Prime Video, Disney+, Plex and Spotify (links or spotify: URIs); any other web page opens in the TV browser. Parameters: url (required).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            url: {
+              type: "string",
+              description: "Share URL, e.g. 'https://youtu.be/dQw4w9WgXcQ' or 'https://www.netflix.com/title/80100172'",
+            },
+          },
+          required: ["url"],
         },
       },
 
-      // Remote Control Tools
+      // Channel Control Tools
       {
-        name: "remote_up",
-        description: "Simulate pressing the UP arrow button on the remote control. Use for navigating menus and UI elements upward.",
+        name: "channel_up",
+        description: "Switch to the next channel. Only works when Live TV or a channel-based input is active.",
         inputSchema: {
           type: "object",
           properties: {},
         },
       },
       {
-        name: "remote_down",
-        description: "Simulate pressing the DOWN arrow button on the remote control. Use for navigating menus and UI elements downward.",
+        name: "channel_down",
+        description: "Switch to the previous channel. Only works when Live TV or a channel-based input is active.",
         inputSchema: {
           type: "object",
           properties: {},
         },
       },
       {
-        name: "remote_left",
-        description: "Simulate pressing the LEFT arrow button on the remote control. Use for navigating menus and UI elements to the left.",
+        name: "list_channels",
+        description: "List the TV channels, ordered by number. Each channel has id, number ('5.1'), major, minor, name, type, hd, radio, hidden, skipped, locked and logo. Also returns the favorite groups. The list is read from the TV once per connection (source 'live'), or comes from the last stored list (source 'cached') when the TV does not answer. Parameters: refresh (optional, boolean) - read the list again, e.g. after a channel scan.",
         inputSchema: {
           type: "object",
-          properties: {},
+          properties: {
+            refresh: {
+              type: "boolean",
+              description: "Read the list from the TV again",
+            },
+          },
         },
       },
       {
-        name: "remote_right",
-        description: "Simulate pressing the RIGHT arrow button on the remote control. Use for navigating menus and UI elements to the right.",
+        name: "get_current_channel",
+        description: "Get information about the currently tuned channel including channel ID, name, number, and program information.",
         inputSchema: {
           type: "object",
           properties: {},
         },
       },
       {
-        name: "remote_ok",
-        description: "Simulate pressing the OK/Enter button on the remote control. Use to select menu items, confirm actions, or play/pause in some apps.",
+        name: "set_channel",
+        description: "Tune to a channel. Pass channel as a number ('5.1', or '5' for the first channel on 5), a name ('BBC One', close misspellings work), a channel id or 'fav 3' for slot 3 of the Favorites group. Or pass favorite (slot number) with an optional group to tune a favorites slot. If the channel matches several channels nothing is tuned and the candidates are returned.",
         inputSchema: {
           type: "object",
-          properties: {},
+          properties: {
+            channel: {
+              type: "string",
+              description: "Number, name, id or 'fav <slot>'",
+            },
+            channelId: {
+              type: "string",
+              description: "Channel id from list_channels (same as channel, kept for compatibility)",
+            },
+            favorite: {
+              type: "number",
+              description: "Slot of a favorites group",
+            },
+            group: {
+              type: "string",
+              description: "Favorites group of the slot (default 'Favorites')",
+            },
+          },
         },
       },
       {
-        name: "remote_back",
-        description: "Simulate pressing the BACK button on the remote control. Use to go back in menus, exit apps, or navigate backward in UI.",
+        name: "list_channel_favorites",
+        description: "List the favorite channel groups of the TV with the channel in each slot.",
         inputSchema: {
           type: "object",
           properties: {},
         },
       },
       {
-        name: "remote_home",
-        description: "Simulate pressing the HOME button on the remote control. Returns to the TV's home screen/launcher.",
+        name: "add_channel_favorite",
+        description: "Put a channel in a favorites group, creating the group on first use. Parameters: channel (required, number, name or id), group (optional, default 'Favorites'), slot (optional, defaults to the next free slot; an existing slot is replaced).",
         inputSchema: {
           type: "object",
-          properties: {},
+          properties: {
+            channel: {
+              type: "string",
+              description: "Channel number, name or id",
+            },
+            group: {
+              type: "string",
+              description: "Favorites group, e.g. 'Kids' (default 'Favorites')",
+            },
+            slot: {
+              type: "number",
+              description: "Slot in the group, from 1",
+            },
+          },
+          required: ["channel"],
         },
       },
-
-      // Search Tool
       {
-        name: "search_content",
-        description: "Search for content across the TV's apps and services. Opens the WebOS universal search interface with the query. Parameters: query (required, string) - search term; categories (optional, array of strings) - content categories to filter by (e.g., ['movie', 'tv', 'app']).",
+        name: "remove_channel_favorite",
+        description: "Empty a slot of a favorites group, or delete the whole group when no slot is given. Parameters: group (optional, default 'Favorites'), slot (optional).",
         inputSchema: {
           type: "object",
           properties: {
-            query: {
+            group: {
               type: "string",
-              description: "Search query (e.g., 'Stranger Things', 'Action Movies')",
+              description: "Favorites group (default 'Favorites')",
             },
-            categories: {
-              type: "array",
-              items: {
-                type: "string",
-              },
-              description: "Optional array of categories to filter search (e.g., ['movie', 'tv', 'app'])",
+            slot: {
+              type: "number",
+              description: "Slot to empty; omit to delete the group",
             },
           },
-          required: ["query"],
+        },
+      },
+
+      // Input Control Tools
+      {
+        name: "list_inputs",
+        description: "List all available input sources (HDMI ports, AV inputs, etc.). Returns input ID, label, and connection status for each input.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "set_input",
+        description: "Switch to a specific input source by its input ID. Use list_inputs first to get available input IDs. Parameters: inputId (required, string) - the input identifier from list_inputs (e.g., 'HDMI_1', 'HDMI_2').",
+        inputSchema: {
+          type: "object",
+          properties: {
+            inputId: {
+              type: "string",
+              description: "Input identifier from list_inputs (e.g., 'HDMI_1', 'HDMI_2', 'HDMI_3')",
+            },
+          },
+          required: ["inputId"],
+        },
+      },
+
+      // Text Input Tools
+      {
+        name: "type_text",
+        description: "Type text into the text field focused on the TV (e.g. a YouTube or Netflix search box). Waits for a text field to be focused first, so open the search screen (e.g. with press_key) before calling this. Parameters: text (required), submit (optional, press Enter afterwards), replace (optional, replace the field's text instead of appending), wait (optional, ms to wait for a text field, default 10000, 0 = type immediately).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            text: {
+              type: "string",
+              description: "Text to type",
+            },
+            submit: {
+              type: "boolean",
+              description: "Press Enter after typing (default: false)",
+            },
+            replace: {
+              type: "boolean",
+              description: "Replace the current text of the field (default: false, append)",
+            },
+            wait: {
+              type: "number",
+              description: `ms to wait for a focused text field (default: ${KEYBOARD_WAIT_TIMEOUT}, 0 = don't wait)`,
+              minimum: 0,
+            },
+          },
+          required: ["text"],
+        },
+      },
+      {
+        name: "delete_text",
+        description: "Delete characters before the cursor in the focused text field. Parameters: count (optional, default 1).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            count: {
+              type: "number",
+              description: "Number of characters to delete (default: 1)",
+              minimum: 1,
+            },
+          },
+        },
+      },
+      {
+        name: "get_keyboard_state",
+        description: "Check whether a text field is focused on the TV (i.e. whether type_text would go anywhere). Returns focused, contentType and the field's current value when the TV shares it.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+
+      // Remote Control Tools
+      {
+        name: "remote_up",
+        description: "Simulate pressing the UP arrow button on the remote control. Use for navigating menus and UI elements upward.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "remote_down",
+        description: "Simulate pressing the DOWN arrow button on the remote control. Use for navigating menus and UI elements downward.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "remote_left",
+        description: "Simulate pressing the LEFT arrow button on the remote control. Use for navigating menus and UI elements to the left.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "remote_right",
+        description: "Simulate pressing the RIGHT arrow button on the remote control. Use for navigating menus and UI elements to the right.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "remote_ok",
+        description: "Simulate pressing the OK/Enter button on the remote control. Use to select menu items, confirm actions, or play/pause in some apps.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "remote_back",
+        description: "Simulate pressing the BACK button on the remote control. Use to go back in menus, exit apps, or navigate backward in UI.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "remote_home",
+        description: "Simulate pressing the HOME button on the remote control. Returns to the TV's home screen/launcher.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+
+      {
+        name: "press_key",
+        description: `Press any remote control key, or a sequence of keys with pauses in between (e.g. navigate a menu: ["DOWN", "DOWN", {"key": "ENTER", "delay": 1000}]). Parameters: key (string) for a single key, or keys (array of key names or {key, delay} steps); delay (optional, ms between keys, default 300). Valid keys: ${REMOTE_KEYS.join(", ")}. Aliases such as OK, VOL_UP and CH_DOWN also work.`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            key: {
+              type: "string",
+              description: "Single key to press (e.g. 'MENU', '5', 'GUIDE')",
+            },
+            keys: {
+              type: "array",
+              items: {
+                anyOf: [
+                  { type: "string" },
+                  {
+                    type: "object",
+                    properties: {
+                      key: { type: "string" },
+                      delay: { type: "number", description: "Pause after this key in ms" },
+                    },
+                    required: ["key"],
+                  },
+                ],
+              },
+              description: "Key sequence, pressed in order",
+            },
+            delay: {
+              type: "number",
+              description: `Pause between keys in ms (default: 300, max: ${MAX_KEY_DELAY})`,
+            },
+          },
+        },
+      },
+
+      // Pointer Tools
+      {
+        name: "pointer_move",
+        description: "Move the Magic Remote cursor by a relative offset in screen pixels (the screen is 1920x1080). Needed in the web browser and apps that are only usable with the cursor. Parameters: dx, dy (numbers, negative moves left/up).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            dx: {
+              type: "number",
+              description: "Horizontal offset in pixels (positive = right)",
+            },
+            dy: {
+              type: "number",
+              description: "Vertical offset in pixels (positive = down)",
+            },
+          },
+          required: ["dx", "dy"],
+        },
+      },
+      {
+        name: "pointer_scroll",
+        description: "Scroll at the cursor position. Parameters: dx, dy (numbers, positive dy scrolls down).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            dx: {
+              type: "number",
+              description: "Horizontal scroll amount",
+            },
+            dy: {
+              type: "number",
+              description: "Vertical scroll amount (positive = down)",
+            },
+          },
+          required: ["dy"],
+        },
+      },
+      {
+        name: "pointer_click",
+        description: "Click at the current cursor position.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "pointer_drag",
+        description: "Drag from the current cursor position by a relative offset with the pointer button held (e.g. to move a slider). Parameters: dx, dy (numbers); steps (optional, number of intermediate moves, default 10).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            dx: {
+              type: "number",
+              description: "Horizontal offset in pixels",
+            },
+            dy: {
+              type: "number",
+              description: "Vertical offset in pixels",
+            },
+            steps: {
+              type: "number",
+              description: "Number of intermediate moves (default: 10)",
+            },
+          },
+          required: ["dx", "dy"],
+        },
+      },
+
+      // Search Tool
+      {
+        name: "search_content",
+        description: "Search for content across the TV's apps and services. Opens the WebOS universal search interface with the query. Parameters: query (required, string) - search term; categories (optional, array of strings) - content categories to filter by (e.g., ['movie', 'tv', 'app']).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: {
+              type: "string",
+              description: "Search query (e.g., 'Stranger Things', 'Action Movies')",
+            },
+            categories: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Optional array of categories to filter search (e.g., ['movie', 'tv', 'app'])",
+            },
+          },
+          required: ["query"],
         },
       },
     ];
+
+    // Every TV tool can address a specific TV; without it the default TV is used
+    return tools.map((tool) => UNTARGETED_TOOLS.has(tool.name) ? tool : {
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: {
+          tv: TV_TARGET_PROPERTY,
+          ...tool.inputSchema.properties,
+        },
+      },
+    });
   }
 
   /**
-   * Execute a tool by name with given arguments
+   * Execute a tool by name with given arguments.
+   * The options (timeout, abort signal) are passed to every TV call the tool makes.
    */
-  async executeTool(name: string, args: any): Promise<any> {
+  async executeTool(name: string, args: any, options: RequestOptions = {}): Promise<any> {
     try {
       switch (name) {
         // Discovery & Connection
         case "discover_tvs":
-          return await this.discoverTVs();
+          return await this.discoverTVs(args);
         case "connect_tv":
-          return await this.connectTV(args);
+          return await this.connectTV(args, options);
         case "pair_tv":
-          return await this.pairTV(args);
+          return await this.pairTV(args, options);
+        case "get_pairing_status":
+          return await this.getPairingStatus(args);
         case "disconnect_tv":
-          return await this.disconnectTV();
+          return await this.disconnectTV(args);
         case "reconnect_tv":
           return await this.reconnectTV(args);
         case "get_connection_status":
-          return await this.getConnectionStatus();
+          return await this.getConnectionStatus(args);
+        case "get_tv_state":
+          return await this.getTVState(args);
         case "list_saved_tvs":
-          return await this.listSavedTVs();
+          return await this.listSavedTVs(args);
+        case "list_sessions":
+          return await this.listSessions(args);
+        case "set_default_tv":
+          return await this.setDefaultTV(args);
+        case "trust_tv_certificate":
+          return await this.trustTVCertificate(args);
         case "delete_saved_tv":
           return await this.deleteSavedTV(args);
         case "get_system_info":
-          return await this.getSystemInfo();
+          return await this.getSystemInfo(args, options);
 
         // Volume Controls
         case "volume_up":
-          return await this.volumeUp();
+          return await this.volumeUp(args, options);
         case "volume_down":
-          return await this.volumeDown();
+          return await this.volumeDown(args, options);
         case "volume_set":
-          return await this.volumeSet(args);
+          return await this.volumeSet(args, options);
         case "volume_get":
-          return await this.volumeGet();
+          return await this.volumeGet(args, options);
         case "volume_mute":
-          return await this.volumeMute(args);
+          return await this.volumeMute(args, options);
+
+        // Audio Output & Sound Settings
+        case "get_audio_output":
+          return await this.getAudioOutput(args, options);
+        case "set_audio_output":
+          return await this.setAudioOutput(args, options);
+        case "get_sound_settings":
+          return await this.getSoundSettings(args, options);
+        case "set_sound_settings":
+          return await this.setSoundSettings(args, options);
 
         // Media Controls
         case "media_play":
-          return await this.mediaPlay();
+          return await this.mediaPlay(args, options);
         case "media_pause":
-          return await this.mediaPause();
+          return await this.mediaPause(args, options);
         case "media_stop":
-          return await this.mediaStop();
+          return await this.mediaStop(args, options);
         case "media_rewind":
-          return await this.mediaRewind();
+          return await this.mediaRewind(args, options);
         case "media_fast_forward":
-          return await this.mediaFastForward();
+          return await this.mediaFastForward(args, options);
         case "get_media_status":
-          return await this.getMediaStatus();
+          return await this.getMediaStatus(args, options);
         case "get_foreground_media_info":
-          return await this.getForegroundMediaInfo();
+          return await this.getForegroundMediaInfo(args, options);
 
         // System Controls
+        case "power_on":
+          return await this.powerOn(args, options);
         case "power_off":
-          return await this.powerOff();
+          return await this.powerOff(args, options);
         case "screen_off":
-          return await this.screenOff();
+          return await this.screenOff(args, options);
         case "screen_on":
-          return await this.screenOn();
+          return await this.screenOn(args, options);
         case "notify":
-          return await this.notify(args);
+          return await this.notify(args, options);
+
+        // Picture Settings
+        case "get_picture_settings":
+          return await this.getPictureSettings(args, options);
+        case "set_picture_mode":
+          return await this.setPictureMode(args, options);
+        case "set_picture_settings":
+          return await this.setPictureSettings(args, options);
 
         // App Controls
         case "list_apps":
-          return await this.listApps();
+          return await this.listApps(args, options);
+        case "get_app_changes":
+          return await this.getAppChanges(args);
         case "list_running_apps":
-          return await this.listRunningApps();
+          return await this.listRunningApps(args, options);
         case "get_current_app":
-          return await this.getCurrentApp();
+          return await this.getCurrentApp(args, options);
         case "launch_app":
-          return await this.launchApp(args);
+          return await this.launchApp(args, options);
+        case "resolve_app":
+          return await this.resolveApp(args, options);
+        case "list_app_aliases":
+          return await this.listAppAliases(args);
+        case "set_app_alias":
+          return await this.setAppAlias(args, options);
+        case "remove_app_alias":
+          return await this.removeAppAlias(args);
+        case "close_app":
+          return await this.closeApp(args, options);
+        case "close_other_apps":
+          return await this.closeOtherApps(args, options);
+        case "restart_app":
+          return await this.restartApp(args, options);
+        case "play_url":
+          return await this.playUrl(args, options);
 
         // Channel Controls
         case "channel_up":
-          return await this.channelUp();
+          return await this.channelUp(args, options);
         case "channel_down":
-          return await this.channelDown();
+          return await this.channelDown(args, options);
         case "list_channels":
-          return await this.listChannels();
+          return await this.listChannels(args, options);
         case "get_current_channel":
-          return await this.getCurrentChannel();
+          return await this.getCurrentChannel(args, options);
         case "set_channel":
-          return await this.setChannel(args);
+          return await this.setChannel(args, options);
+        case "list_channel_favorites":
+          return await this.listChannelFavorites(args, options);
+        case "add_channel_favorite":
+          return await this.addChannelFavorite(args, options);
+        case "remove_channel_favorite":
+          return await this.removeChannelFavorite(args);
 
         // Input Controls
         case "list_inputs":
-          return await this.listInputs();
+          return await this.listInputs(args, options);
         case "set_input":
-          return await this.setInput(args);
+          return await this.setInput(args, options);
+
+        // Text Input
+        case "type_text":
+          return await this.typeText(args, options);
+        case "delete_text":
+          return await this.deleteText(args, options);
+        case "get_keyboard_state":
+          return await this.getKeyboardState(args, options);
 
         // Remote Controls
         case "remote_up":
-          return await this.remoteUp();
+          return await this.remoteUp(args, options);
         case "remote_down":
-          return await this.remoteDown();
+          return await this.remoteDown(args, options);
         case "remote_left":
-          return await this.remoteLeft();
+          return await this.remoteLeft(args, options);
         case "remote_right":
-          return await this.remoteRight();
+          return await this.remoteRight(args, options);
         case "remote_ok":
-          return await this.remoteOk();
+          return await this.remoteOk(args, options);
         case "remote_back":
-          return await this.remoteBack();
+          return await this.remoteBack(args, options);
         case "remote_home":
-          return await this.remoteHome();
+          return await this.remoteHome(args, options);
+
+        case "press_key":
+          return await this.pressKey(args, options);
+
+        // Pointer Controls
+        case "pointer_move":
+          return await this.pointerMove(args, options);
+        case "pointer_scroll":
+          return await this.pointerScroll(args, options);
+        case "pointer_click":
+          return await this.pointerClick(args, options);
+        case "pointer_drag":
+          return await this.pointerDrag(args, options);
 
         // Search
         case "search_content":
-          return await this.searchContent(args);
+          return await this.searchContent(args, options);
 
         default:
           throw new Error(`Unknown tool: ${name}`);
@@ -659,8 +1305,8 @@ export class PokemoteMCPServer {
 
   // Discovery & Connection Tools
 
-  private async discoverTVs() {
-    console.log("🔍 Discovering TVs on network...");
+  private async discoverTVs(args: any) {
+    log.info("🔍 Discovering TVs on network...");
     const tvs = await discoverTVs(5000);
     return {
       content: [
@@ -679,15 +1325,26 @@ export class PokemoteMCPServer {
     };
   }
 
-  private async connectTV(args: any) {
-    const { ip, secure, name, force = false } = args;
+  private async connectTV(args: any, options: RequestOptions) {
+    const { ip, secure, port, name, force = false } = args;
 
     if (!ip) {
       throw new Error("IP address is required");
     }
 
+    const pairingType = parsePairingType(args.pairingType);
+    if (!pairingType) {
+      throw new Error('pairingType must be "pin" or "prompt"');
+    }
+
+    const profile = args.profile === undefined ? undefined : parsePermissionProfile(args.profile);
+    if (profile === null) {
+      throw new Error(`profile must be one of: ${PERMISSION_PROFILES.join(", ")}`);
+    }
+
     // Check if already connected to this IP
-    if (tvClient && currentTVIP === ip && !force) {
+    const existing = tvSessions.get(ip);
+    if (existing && !force) {
       return {
         content: [
           {
@@ -695,100 +1352,107 @@ export class PokemoteMCPServer {
             text: JSON.stringify({
               success: true,
               message: "Already connected",
-              ip: currentTVIP,
-              clientKey: tvClient.clientKey,
+              ip: existing.ip,
+              profile: existing.client.permissionProfile,
+              clientKey: existing.client.clientKey,
             }, null, 2),
           },
         ],
       };
     }
 
-    // Disconnect existing connection
-    if (tvClient) {
-      tvClient.disconnect();
-      setTVClient(null, null, null);
+    // Disconnect existing connection to this TV (other TVs stay connected)
+    if (existing) {
+      tvSessions.remove(ip);
     }
 
     // Try to load saved credentials from database
     const stored = tvDatabase.getCredentials(ip);
     const clientKey = stored?.isValid ? stored.clientKey : undefined;
+    const endpoint = connectEndpoint(stored, { secure, port });
+
+    // Probe wss:3001 then ws:3000 unless the protocol is given or known from the last connection
+    log.info(`🔌 Connecting to TV at ${ip}${endpoint.secure !== undefined ? ` (${endpoint.secure ? 'secure' : 'non-secure'})` : ''}...`);
+    const client = new LGTVClient({
+      ip,
+      ...endpoint,
+      clientKey,
+      pinnedFingerprint: stored?.certFingerprint,
+      // Keep the profile the TV was paired with unless a new one is asked for
+      permissionProfile: profile ?? stored?.permissionProfile,
+    });
+    await client.connect(options);
+    const useSecure = client.endpoint!.secure;
 
-    // Auto-detect secure mode if not specified
-    let useSecure = secure !== undefined ? secure : (stored?.secure ?? true);
-    let connectionError: Error | null = null;
-    let client: LGTVClient | null = null;
-
-    // Try secure connection first, then fall back to non-secure
-    const modes = secure !== undefined ? [useSecure] : [true, false];
-    
-    for (const trySecure of modes) {
-      try {
-        console.log(`🔌 Connecting to TV at ${ip}:${trySecure ? 3001 : 3000} (${trySecure ? 'secure' : 'non-secure'})...`);
-        client = new LGTVClient({ ip, secure: trySecure, clientKey });
-        await client.connect();
-        useSecure = trySecure;
-        connectionError = null;
-        break; // Connection successful
-      } catch (err: any) {
-        console.log(`❌ ${trySecure ? 'Secure' : 'Non-secure'} connection failed: ${err.message}`);
-        connectionError = err;
-        client = null;
-        
-        // If user explicitly specified secure mode, don't try fallback
-        if (secure !== undefined) {
-          throw err;
-        }
-      }
-    }
-
-    if (!client || connectionError) {
-      throw new Error(`Failed to connect to TV. Tried both secure and non-secure modes. Last error: ${connectionError?.message}`);
-    }
-
-    // Attempt to resolve friendly name if not provided
+    // Attempt to resolve friendly name (and MAC for Wake-on-LAN) if not known yet
     let friendlyName: string | undefined = name;
-    if (!friendlyName) {
+    let mac: string | undefined = stored?.mac;
+    if (!friendlyName || !mac) {
       try {
         const tvs = await discoverTVs(1500);
         const match = tvs.find(t => t.ip === ip);
-        if (match?.name) friendlyName = match.name;
+        if (match?.name && !friendlyName) friendlyName = match.name;
+        if (match?.mac && !mac) mac = match.mac;
       } catch {}
     }
 
-    // Initiate PIN-based pairing
-    const result = await client.initiateRegistration();
+    const result = await client.initiateRegistration(pairingType, options);
     
-    if (result.requiresPIN) {
-      pendingPairings.set(ip, {
+    if (result.requiresPIN || result.requiresPrompt) {
+      const pending: PendingPairing = {
         client,
+        pairingType: result.requiresPIN ? "PIN" : "PROMPT",
         secure: useSecure,
         name: friendlyName,
-      });
-      setTVClient(client, null, ip);
-      
+        mac,
+      };
+      pendingPairings.set(ip, pending);
+      tvSessions.set(ip, client, null, { secure: useSecure, name: friendlyName });
+
+      if (result.requiresPIN) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                message: "PIN displayed on TV. Enter PIN using pair_tv tool.",
+                ip,
+                secure: useSecure,
+                profile: client.permissionProfile,
+                pairingType: "PIN",
+                requiresPIN: true,
+                nextStep: "Call pair_tv with the PIN displayed on your TV screen",
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      // The client-key arrives once the user accepts on the TV, no PIN step needed
+      awaitPromptPairing(ip, pending);
       return {
         content: [
           {
             type: "text",
             text: JSON.stringify({
               success: true,
-              message: "PIN displayed on TV. Enter PIN using pair_tv tool.",
+              message: "Accept the connection request on the TV.",
               ip,
               secure: useSecure,
-              requiresPIN: true,
-              nextStep: "Call pair_tv with the PIN displayed on your TV screen",
+              profile: client.permissionProfile,
+              pairingType: "PROMPT",
+              requiresPIN: false,
+              nextStep: "Ask the user to accept on the TV, then call get_pairing_status until paired is true",
             }, null, 2),
           },
         ],
       };
     }
 
-    // Fallback for non-PIN pairing (PROMPT mode)
-    const newClientKey = client.clientKey;
-    if (newClientKey) {
-      tvDatabase.saveCredentials(ip, newClientKey, useSecure, friendlyName);
-      const commands = new TVCommands(client);
-      setTVClient(client, commands, ip);
+    // Already authorized (stored client-key accepted)
+    if (client.clientKey) {
+      tvSessions.finishPairing(ip, client, { secure: useSecure, name: friendlyName, mac });
       
       return {
         content: [
@@ -799,7 +1463,8 @@ export class PokemoteMCPServer {
               message: "Connected and authenticated",
               ip,
               secure: useSecure,
-              clientKey: newClientKey,
+              profile: client.permissionProfile,
+              clientKey: client.clientKey,
             }, null, 2),
           },
         ],
@@ -809,17 +1474,21 @@ export class PokemoteMCPServer {
     throw new Error("Registration failed");
   }
 
-  private async pairTV(args: any) {
-    const { pin, ip, name } = args;
+  private async pairTV(args: any, options: RequestOptions) {
+    const { pin, ip, name, tv } = args;
 
     if (!pin) {
       throw new Error("PIN is required");
     }
 
-    const targetIP = ip || currentTVIP;
+    // Use the given TV, or the only pairing in progress
+    const targetIP = ip || (tv ? tvSessions.resolveIP(tv) : null) ||
+      (pendingPairings.size === 1 ? pendingPairings.keys().next().value : null);
     
     if (!targetIP) {
-      throw new Error("No active pairing session. Call connect_tv first.");
+      throw new Error(pendingPairings.size > 1
+        ? "Several pairings are in progress. Specify the TV ip."
+        : "No active pairing session. Call connect_tv first.");
     }
 
     const pending = pendingPairings.get(targetIP);
@@ -828,11 +1497,17 @@ export class PokemoteMCPServer {
       throw new Error(`No pending pairing for ${targetIP}. Call connect_tv first.`);
     }
 
-    const clientKey = await pending.client.completePairing(pin);
+    if (pending.pairingType === "PROMPT") {
+      throw new Error(`${targetIP} uses prompt pairing. Accept the request on the TV and check get_pairing_status.`);
+    }
+
+    const clientKey = await pending.client.completePairing(pin, options);
 
-    tvDatabase.saveCredentials(targetIP, clientKey, pending.secure, pending.name ?? name);
-    const commands = new TVCommands(pending.client);
-    setTVClient(pending.client, commands, targetIP);
+    tvSessions.finishPairing(targetIP, pending.client, {
+      secure: pending.secure,
+      name: pending.name ?? name,
+      mac: pending.mac,
+    });
     pendingPairings.delete(targetIP);
 
     return {
@@ -841,771 +1516,1577 @@ export class PokemoteMCPServer {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: "Successfully paired with TV",
-            ip: targetIP,
-            clientKey,
+            message: "Successfully paired with TV",
+            ip: targetIP,
+            clientKey,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async getPairingStatus(args: any) {
+    const { ip } = args || {};
+
+    const targetIP = ip || (pendingPairings.size === 1 ? pendingPairings.keys().next().value : null);
+    if (!targetIP) {
+      throw new Error("Specify the TV ip");
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            ...getPairingStatusFor(targetIP),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async disconnectTV(args: any) {
+    const { tv } = args || {};
+
+    // Disconnect a single TV when one is named, otherwise every TV
+    if (tv) {
+      const session = tvSessions.remove(tv);
+      if (!session) {
+        throw new Error(`Not connected to TV "${tv}"`);
+      }
+      pendingPairings.delete(session.ip);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              message: `Disconnected from ${session.ip}`,
+              ip: session.ip,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    tvSessions.clear();
+    
+    // Clear any pending pairings
+    pendingPairings.clear();
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: "Disconnected from TV",
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async reconnectTV(args: any) {
+    const { ip, tv } = args || {};
+    const target = ip || tv;
+    
+    // Resolve the specified TV, or fall back to the default/most recent
+    const targetIP = tvSessions.resolveIP(target);
+    if (!targetIP) {
+      throw new Error(target
+        ? `Unknown TV: ${target}`
+        : "No IP specified and no stored credentials found");
+    }
+
+    // If already connected, return success
+    const existing = tvSessions.get(targetIP);
+    if (existing?.commands) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              message: "Already connected",
+              ip: existing.ip,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+    
+    const session = await tvSessions.reconnect(targetIP);
+    if (!session) {
+      throw new Error(tvSessions.getLastError(targetIP) ?? "Failed to reconnect. Credentials may be expired.");
+    }
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: "Reconnected successfully",
+            ip: session.ip,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async getConnectionStatus(args: any) {
+    const { tv } = args || {};
+    let session = tvSessions.get(tv);
+    
+    // Try auto-reconnect if not connected
+    if (!session) {
+      session = await tvSessions.ensure(tv);
+      if (session) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                connected: true,
+                authenticated: true,
+                ip: session.ip,
+                name: session.name,
+                endpoint: session.client.endpoint,
+                profile: session.client.permissionProfile,
+                autoReconnected: true,
+                message: "Auto-reconnected using stored credentials",
+              }, null, 2),
+            },
+          ],
+        };
+      }
+    }
+    
+    // Reconnecting stopped because the TV presented another certificate
+    const ip = session?.ip ?? tvSessions.resolveIP(tv);
+    const mismatch = !!ip && tvSessions.hasCertificateMismatch(ip);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            connected: !!session?.client.isConnected(),
+            reconnecting: !!session?.client.isReconnecting(),
+            authenticated: !!session?.commands,
+            ip: session?.ip ?? null,
+            name: session?.name,
+            // Which of wss:3001 / ws:3000 the connection negotiated
+            endpoint: session?.client.endpoint ?? null,
+            profile: session?.client.permissionProfile ?? null,
+            defaultTV: tvSessions.getDefault(),
+            sessions: tvSessions.list().length,
+            storedTVs: tvDatabase.getAllCredentials().length,
+            ...(mismatch && {
+              certificateMismatch: true,
+              error: tvSessions.getLastError(ip!),
+              nextStep: "Ask the user whether the TV was reset or updated; only then call trust_tv_certificate",
+            }),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async getTVState(args: any) {
+    const target = args?.tv;
+    const session = await tvSessions.ensure(target);
+    if (!session?.state) {
+      throw new Error(target
+        ? `Not connected to TV "${target}". Please connect first using connect_tv tool.`
+        : "Not connected to TV. Please connect first using connect_tv tool.");
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            ip: session.ip,
+            name: session.name,
+            connected: session.client.isConnected(),
+            reconnecting: session.client.isReconnecting(),
+            state: session.state.snapshot(),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async listSessions(args: any) {
+    const defaultIP = tvSessions.resolveIP();
+    const sessions = tvSessions.list();
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            defaultTV: tvSessions.getDefault(),
+            count: sessions.length,
+            sessions: sessions.map(s => ({
+              ip: s.ip,
+              name: s.name,
+              secure: s.secure,
+              port: s.client.endpoint?.port,
+              profile: s.client.permissionProfile,
+              authenticated: !!s.commands,
+              reconnecting: s.client.isReconnecting(),
+              connectedAt: s.connectedAt,
+              isDefault: s.ip === defaultIP,
+            })),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async setDefaultTV(args: any) {
+    const { tv } = args || {};
+    tvSessions.setDefault(tv || null);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: tv ? `Default TV set to ${tv}` : "Default TV cleared",
+            defaultTV: tvSessions.getDefault(),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async listSavedTVs(args: any) {
+    const credentials = tvDatabase.getAllCredentials();
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            count: credentials.length,
+            credentials: credentials.map(c => ({
+              ip: c.ip,
+              name: c.name,
+              secure: c.secure,
+              port: c.port,
+              mac: c.mac,
+              certFingerprint: c.certFingerprint,
+              profile: c.permissionProfile,
+              isValid: c.isValid,
+              createdAt: c.createdAt,
+              lastUsed: c.lastUsed,
+            })),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async deleteSavedTV(args: any) {
+    const { ip } = args;
+    if (!ip) {
+      throw new Error("IP address is required");
+    }
+    tvDatabase.deleteCredentials(ip);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: `Deleted credentials for ${ip}`,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async trustTVCertificate(args: any) {
+    const result = await tvSessions.trustCertificate(args.tv, args.fingerprint);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: `Trusted certificate of ${result.ip}. Reconnect to use it.`,
+            ...result,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async getSystemInfo(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const info = await commands.getSystemInfo(options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            info,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  // Volume Control Tools
+
+  private async volumeUp(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.volumeUp(options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: "Volume increased",
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async volumeDown(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.volumeDown(options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: "Volume decreased",
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async volumeSet(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { volume } = args;
+    if (volume === undefined || volume < 0 || volume > 100) {
+      throw new Error("Volume must be between 0 and 100");
+    }
+    await commands.setVolume(volume, options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: `Volume set to ${volume}`,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async volumeGet(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const volume = await commands.getVolume(options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            volume,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async volumeMute(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { mute } = args;
+    if (mute === undefined) {
+      throw new Error("mute parameter is required (true or false)");
+    }
+    await commands.mute(mute, options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: mute ? "Muted" : "Unmuted",
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  // Audio Output & Sound Settings Tools
+
+  private async getAudioOutput(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { soundOutput } = await commands.getAudioOutput(options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            output: soundOutput,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async setAudioOutput(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { output } = args;
+    if (!output) {
+      throw new Error("output parameter is required");
+    }
+    const resolved = parseSoundOutput(output);
+    if (!resolved) {
+      throw new Error(`Unknown sound output: ${output}. Valid outputs: ${SOUND_OUTPUTS.map((o) => o.id).join(", ")}`);
+    }
+    await commands.setAudioOutput(resolved, options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            output: resolved,
+            message: `Sound output set to ${resolved}`,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async getSoundSettings(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const settings = await commands.getSoundSettings(options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            settings,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async setSoundSettings(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { tv, ...requested } = args ?? {};
+    const settings = parseSoundSettings(requested);
+    const current = await commands.setSoundSettings(settings, options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            settings: current,
+            message: `Updated ${Object.keys(settings).join(", ")}`,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  // Media Control Tools
+
+  private async mediaPlay(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.play(options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: "Playing",
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async mediaPause(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.pause(options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: "Paused",
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async mediaStop(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.stop(options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: "Stopped",
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async mediaRewind(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.rewind(options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: "Rewinding",
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async mediaFastForward(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.fastForward(options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: "Fast forwarding",
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async getMediaStatus(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const status = await commands.getMediaStatus(options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            status,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async getForegroundMediaInfo(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const info = await commands.getForegroundMediaInfo(options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            info,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  // System Control Tools
+
+  private async powerOn(args: any, options: RequestOptions) {
+    const { tv, mac, timeout } = args || {};
+    const result = await tvSessions.powerOn(tv, { mac, timeout, signal: options.signal });
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: result.session ? "TV powered on and reconnected" : "TV powered on but reconnect failed",
+            ip: result.ip,
+            mac: result.mac,
+            port: result.port,
+            connected: !!result.session,
+            elapsedMs: result.elapsedMs,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async powerOff(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.powerOff(options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: "TV powering off",
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async screenOff(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.screenOff(options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: "Screen off",
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async screenOn(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.screenOn(options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: "Screen on",
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async notify(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { message } = args;
+    if (!message) {
+      throw new Error("message parameter is required");
+    }
+    await commands.notify(message, undefined, undefined, options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            message: "Notification sent",
           }, null, 2),
         },
       ],
     };
   }
 
-  private async disconnectTV() {
-    if (tvClient) {
-      tvClient.disconnect();
-      setTVClient(null, null, null);
-    }
-    
-    // Clear any pending pairings
-    pendingPairings.clear();
-    
+  // Picture Settings Tools
+
+  private async getPictureSettings(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const [settings, allowed] = await Promise.all([
+      commands.getPictureSettings(options),
+      commands.getAllowedPictureValues(options),
+    ]);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: "Disconnected from TV",
+            settings,
+            allowed,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async reconnectTV(args: any) {
-    const { ip } = args;
-    
-    // If already connected, return success
-    if (tvClient && (!ip || currentTVIP === ip)) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              success: true,
-              message: "Already connected",
-              ip: currentTVIP,
-            }, null, 2),
-          },
-        ],
-      };
-    }
-    
-    // Disconnect current connection
-    if (tvClient) {
-      tvClient.disconnect();
-      setTVClient(null, null, null);
-    }
-    
-    // Reconnect to specified IP or most recent
-    const targetIP = ip || tvDatabase.getMostRecentTV()?.ip;
-    if (!targetIP) {
-      throw new Error("No IP specified and no stored credentials found");
-    }
-    
-    const reconnected = await autoReconnect(targetIP);
-    if (!reconnected) {
-      throw new Error("Failed to reconnect. Credentials may be expired.");
+  private async setPictureMode(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { mode } = args;
+    if (!mode) {
+      throw new Error("mode parameter is required");
     }
-    
+    // Resolved against the modes the TV lists, falling back to the known ones
+    const settings = await commands.setPictureMode(String(mode), options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: "Reconnected successfully",
-            ip: currentTVIP,
+            pictureMode: settings.pictureMode,
+            message: `Picture mode set to ${settings.pictureMode}`,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async getConnectionStatus() {
-    const connected = !!tvClient;
-    const authenticated = !!tvClient?.clientKey;
-    
-    // Try auto-reconnect if not connected
-    if (!connected) {
-      const reconnected = await ensureConnection();
-      if (reconnected) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({
-                connected: true,
-                authenticated: true,
-                ip: currentTVIP,
-                autoReconnected: true,
-                message: "Auto-reconnected using stored credentials",
-              }, null, 2),
-            },
-          ],
-        };
-      }
-    }
-    
+  private async setPictureSettings(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { tv, ...requested } = args ?? {};
+    const settings = parsePictureSettings(requested);
+    const current = await commands.setPictureSettings(settings, options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
-            connected,
-            authenticated,
-            ip: currentTVIP,
-            storedTVs: tvDatabase.getAllCredentials().length,
+            success: true,
+            settings: current,
+            message: `Updated ${Object.keys(settings).join(", ")}`,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async listSavedTVs() {
-    const credentials = tvDatabase.getAllCredentials();
+  // App Control Tools
+
+  private async listApps(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const catalog = await commands.listApps(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            count: credentials.length,
-            credentials: credentials.map(c => ({
-              ip: c.ip,
-              name: c.name,
-              secure: c.secure,
-              isValid: c.isValid,
-              createdAt: c.createdAt,
-              lastUsed: c.lastUsed,
-            })),
+            ...catalog,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async deleteSavedTV(args: any) {
-    const { ip } = args;
+  private async getAppChanges(args: any) {
+    const ip = tvSessions.resolveIP(args?.tv);
     if (!ip) {
-      throw new Error("IP address is required");
+      throw new Error(args?.tv ? `Unknown TV: ${args.tv}` : "No TV specified and no stored credentials found");
+    }
+    const limit = args?.limit ?? 50;
+    if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+      throw new Error("limit must be an integer from 1 to 500");
+    }
+    const since = args?.since === undefined ? undefined : new Date(String(args.since));
+    if (since && isNaN(since.getTime())) {
+      throw new Error("since must be an ISO date");
     }
-    tvDatabase.deleteCredentials(ip);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: `Deleted credentials for ${ip}`,
+            ip,
+            changes: tvDatabase.getAppChanges(ip, limit, since?.toISOString()),
           }, null, 2),
         },
       ],
     };
   }
 
-  private async getSystemInfo() {
-    await this.ensureConnectionOrThrow();
-    const info = await tvCommands!.getSystemInfo();
+  private async listRunningApps(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const apps = await commands.listRunningApps(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            info,
+            apps,
           }, null, 2),
         },
       ],
     };
   }
 
-  // Volume Control Tools
-
-  private async volumeUp() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.volumeUp();
+  private async getCurrentApp(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const appId = await commands.getCurrentApp(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: "Volume increased",
+            appId,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async volumeDown() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.volumeDown();
+  private async launchApp(args: any, options: RequestOptions) {
+    const session = await this.sessionFor(args);
+    const { appId, contentId, params } = args;
+    if (!appId) {
+      throw new Error("appId is required. Pass an app id, name or alias; use list_apps to see what is installed.");
+    }
+    const resolution = await session.commands!.launchAppByName(
+      String(appId), tvDatabase.getAppAliases(session.ip), contentId, params, options
+    );
+    if (resolution.status !== "resolved") {
+      throw this.unresolvedError(resolution);
+    }
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: "Volume decreased",
+            message: `Launched ${resolution.app.title}`,
+            appId: resolution.app.id,
+            matchedBy: resolution.app.matchedBy,
+            contentId: contentId || null,
+            params: params || null,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async volumeSet(args: any) {
-    await this.ensureConnectionOrThrow();
-    const { volume } = args;
-    if (volume === undefined || volume < 0 || volume > 100) {
-      throw new Error("Volume must be between 0 and 100");
+  private async resolveApp(args: any, options: RequestOptions) {
+    const session = await this.sessionFor(args);
+    const { name } = args;
+    if (!name) {
+      throw new Error("name parameter is required");
+    }
+    const resolution = await session.commands!.resolveApp(String(name), tvDatabase.getAppAliases(session.ip), options);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: resolution.status === "resolved",
+            ...resolution,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async listAppAliases(args: any) {
+    const ip = tvSessions.resolveIP(args?.tv);
+    if (!ip) {
+      throw new Error(args?.tv ? `Unknown TV: ${args.tv}` : "No TV specified and no stored credentials found");
     }
-    await tvCommands!.setVolume(volume);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: `Volume set to ${volume}`,
+            ip,
+            aliases: tvDatabase.getAppAliases(ip),
           }, null, 2),
         },
       ],
     };
   }
 
-  private async volumeGet() {
-    await this.ensureConnectionOrThrow();
-    const volume = await tvCommands!.getVolume();
+  private async setAppAlias(args: any, options: RequestOptions) {
+    const session = await this.sessionFor(args);
+    const { alias, app } = args;
+    const normalized = normalizeAppName(alias ?? "");
+    if (!normalized || !app) {
+      throw new Error("alias and app parameters are required");
+    }
+    const resolution = await session.commands!.resolveApp(String(app), tvDatabase.getAppAliases(session.ip), options);
+    if (resolution.status !== "resolved") {
+      throw this.unresolvedError(resolution);
+    }
+    tvDatabase.saveAppAlias(session.ip, normalized, resolution.app.id);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            volume,
+            alias: normalized,
+            appId: resolution.app.id,
+            message: `"${alias}" now opens ${resolution.app.title}`,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async volumeMute(args: any) {
-    await this.ensureConnectionOrThrow();
-    const { mute } = args;
-    if (mute === undefined) {
-      throw new Error("mute parameter is required (true or false)");
+  private async removeAppAlias(args: any) {
+    const ip = tvSessions.resolveIP(args?.tv);
+    const alias = normalizeAppName(args?.alias ?? "");
+    if (!alias) {
+      throw new Error("alias parameter is required");
+    }
+    if (!ip || !tvDatabase.deleteAppAlias(ip, alias)) {
+      throw new Error(`No alias "${args.alias}"`);
     }
-    await tvCommands!.mute(mute);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: mute ? "Muted" : "Unmuted",
+            message: `Removed alias "${alias}"`,
           }, null, 2),
         },
       ],
     };
   }
 
-  // Media Control Tools
+  /**
+   * Explain a name that did not resolve to one app, listing what it could have meant
+   */
+  private unresolvedError(resolution: Exclude<AppResolution, { status: "resolved" }>): Error {
+    const candidates = resolution.candidates.map((c) => `${c.title} (${c.id})`).join(", ");
+    return new Error(resolution.status === "ambiguous"
+      ? `"${resolution.query}" matches several apps: ${candidates}. Call again with one of these ids.`
+      : `No app matches "${resolution.query}".${candidates ? ` Did you mean: ${candidates}?` : " Use list_apps to see what is installed."}`);
+  }
 
-  private async mediaPlay() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.play();
+  private async closeApp(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { appId } = args;
+    if (!appId) {
+      throw new Error("appId is required. Use list_running_apps to see what is running.");
+    }
+    await commands.closeRunningApp(appId, options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: "Playing",
+            message: `Closed ${appId}`,
+            appId,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async mediaPause() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.pause();
+  private async closeOtherApps(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const result = await commands.closeOtherApps(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
-            success: true,
-            message: "Paused",
+            success: result.failed.length === 0,
+            message: `Closed ${result.closed.length} apps`,
+            ...result,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async mediaStop() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.stop();
+  private async restartApp(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { appId, contentId, params } = args;
+    if (!appId) {
+      throw new Error("appId is required. Use list_apps to get available app IDs.");
+    }
+    const { wasRunning } = await commands.restartApp(appId, contentId, params, options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: "Stopped",
+            message: wasRunning ? `Restarted ${appId}` : `${appId} was not running, launched it`,
+            appId,
+            wasRunning,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async mediaRewind() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.rewind();
+  private async playUrl(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { url } = args;
+    if (!url) {
+      throw new Error("url parameter is required");
+    }
+    const link = resolveDeepLink(url);
+    await commands.openDeepLink(link, options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: "Rewinding",
+            message: link.service === "browser" ? `Opened ${link.url} in the browser` : `Opened in ${link.appId}`,
+            ...link,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async mediaFastForward() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.fastForward();
+  // Channel Control Tools
+
+  private async channelUp(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.channelUp(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: "Fast forwarding",
+            message: "Channel up",
           }, null, 2),
         },
       ],
     };
   }
 
-  private async getMediaStatus() {
-    await this.ensureConnectionOrThrow();
-    const status = await tvCommands!.getMediaStatus();
+  private async channelDown(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.channelDown(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            status,
+            message: "Channel down",
           }, null, 2),
         },
       ],
     };
   }
 
-  private async getForegroundMediaInfo() {
-    await this.ensureConnectionOrThrow();
-    const info = await tvCommands!.getForegroundMediaInfo();
+  private async listChannels(args: any, options: RequestOptions) {
+    const session = await this.sessionFor(args);
+    const catalog = await session.commands!.listChannels(options, args?.refresh === true);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            info,
+            ...catalog,
+            favorites: groupFavorites(tvDatabase.getFavoriteChannels(session.ip), catalog.channels),
           }, null, 2),
         },
       ],
     };
   }
 
-  // System Control Tools
-
-  private async powerOff() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.powerOff();
+  private async getCurrentChannel(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const channel = await commands.getCurrentChannel(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: "TV powering off",
+            channel,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async screenOff() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.screenOff();
+  private async setChannel(args: any, options: RequestOptions) {
+    const session = await this.sessionFor(args);
+    const { channel, channelId, favorite, group } = args ?? {};
+    if (favorite !== undefined && !(Number.isInteger(favorite) && favorite > 0)) {
+      throw new Error("favorite must be a slot number from 1");
+    }
+    const wanted = channel ?? channelId;
+    if (!wanted && favorite === undefined) {
+      throw new Error("channel or favorite is required. Use list_channels to see the channels.");
+    }
+
+    const target = favorite !== undefined ? { favorite, group: group || DEFAULT_FAVORITE_GROUP } : String(wanted);
+    const resolution = await session.commands!.tuneChannel(target, tvDatabase.getFavoriteChannels(session.ip), options);
+    if (resolution.status !== "resolved") {
+      throw this.unresolvedChannelError(resolution);
+    }
+    const { channel: tuned } = resolution;
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: "Screen off",
+            message: `Set to channel ${tuned.number} ${tuned.name}`,
+            channel: tuned,
+            matchedBy: resolution.matchedBy,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async screenOn() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.screenOn();
+  private async listChannelFavorites(args: any, options: RequestOptions) {
+    const session = await this.sessionFor(args);
+    const { channels } = await session.commands!.listChannels(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: "Screen on",
+            groups: groupFavorites(tvDatabase.getFavoriteChannels(session.ip), channels),
           }, null, 2),
         },
       ],
     };
   }
 
-  private async notify(args: any) {
-    await this.ensureConnectionOrThrow();
-    const { message } = args;
-    if (!message) {
-      throw new Error("message parameter is required");
+  private async addChannelFavorite(args: any, options: RequestOptions) {
+    const session = await this.sessionFor(args);
+    const { channel, slot } = args ?? {};
+    const group = String(args?.group ?? DEFAULT_FAVORITE_GROUP).trim();
+    if (!channel) {
+      throw new Error("channel parameter is required");
+    }
+    if (!group) {
+      throw new Error("group must be a name");
+    }
+    if (slot !== undefined && !(Number.isInteger(slot) && slot > 0)) {
+      throw new Error("slot must be a number from 1");
     }
-    await tvCommands!.notify(message);
+
+    const resolution = await session.commands!.resolveChannel(String(channel), tvDatabase.getFavoriteChannels(session.ip), options);
+    if (resolution.status !== "resolved") {
+      throw this.unresolvedChannelError(resolution);
+    }
+    const saved = tvDatabase.saveFavoriteChannel(session.ip, group, resolution.channel.id, slot);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: "Notification sent",
+            ...saved,
+            channel: resolution.channel,
+            message: `${resolution.channel.name} is ${saved.group} #${saved.slot}`,
           }, null, 2),
         },
       ],
     };
   }
 
-  // App Control Tools
+  private async removeChannelFavorite(args: any) {
+    const ip = tvSessions.resolveIP(args?.tv);
+    if (!ip) {
+      throw new Error(args?.tv ? `Unknown TV: ${args.tv}` : "No TV specified and no stored credentials found");
+    }
+    const group = String(args?.group ?? DEFAULT_FAVORITE_GROUP);
+    const slot = args?.slot;
 
-  private async listApps() {
-    await this.ensureConnectionOrThrow();
-    const apps = await tvCommands!.listApps();
+    let message: string;
+    if (slot === undefined) {
+      if (!tvDatabase.deleteFavoriteGroup(ip, group)) throw new Error(`No favorites group "${group}"`);
+      message = `Deleted favorites group "${group}"`;
+    } else {
+      if (!tvDatabase.deleteFavoriteChannel(ip, group, Number(slot))) throw new Error(`${group} #${slot} is empty`);
+      message = `Emptied ${group} #${slot}`;
+    }
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            apps,
+            message,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async listRunningApps() {
-    await this.ensureConnectionOrThrow();
-    const apps = await tvCommands!.listRunningApps();
+  /**
+   * Explain a channel that did not resolve to one channel, listing what it could have meant
+   */
+  private unresolvedChannelError(resolution: Exclude<ChannelResolution, { status: "resolved" }>): Error {
+    const candidates = resolution.candidates.map((c) => `${c.number} ${c.name}`).join(", ");
+    return new Error(resolution.status === "ambiguous"
+      ? `"${resolution.query}" matches several channels: ${candidates}. Call again with one of these numbers.`
+      : `No channel matches "${resolution.query}".${candidates ? ` Did you mean: ${candidates}?` : " Use list_channels to see the channels."}`);
+  }
+
+
+  // Input Control Tools
+
+  private async listInputs(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const inputs = await commands.listInputs(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            apps,
+            inputs,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async getCurrentApp() {
-    await this.ensureConnectionOrThrow();
-    const appId = await tvCommands!.getCurrentApp();
+  private async setInput(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { inputId } = args;
+    if (!inputId) {
+      throw new Error("inputId is required. Use list_inputs to get available input IDs.");
+    }
+    await commands.setInput(inputId, options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            appId,
+            message: `Switched to ${inputId}`,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async launchApp(args: any) {
-    await this.ensureConnectionOrThrow();
-    const { appId, contentId, params } = args;
-    if (!appId) {
-      throw new Error("appId is required. Use list_apps to get available app IDs.");
+  // Text Input Tools
+
+  private async typeText(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { text, submit = false, replace = false, wait = KEYBOARD_WAIT_TIMEOUT } = args;
+    if (typeof text !== "string") {
+      throw new Error("text parameter is required");
     }
-    await tvCommands!.launchApp(appId, contentId, params);
+    if (typeof wait !== "number" || !Number.isFinite(wait) || wait < 0) {
+      throw new Error("wait must be a number of ms (0 to type without waiting)");
+    }
+    const result = await commands.enterText(text, { submit: !!submit, replace: !!replace, wait }, options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: `Launched ${appId}`,
-            appId,
-            contentId: contentId || null,
-            params: params || null,
+            ...result,
+            message: submit ? `Typed and submitted "${text}"` : `Typed "${text}"`,
           }, null, 2),
         },
       ],
     };
   }
 
-  // Channel Control Tools
-
-  private async channelUp() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.channelUp();
+  private async deleteText(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { count = 1 } = args;
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error("count must be a positive integer");
+    }
+    await commands.deleteCharacters(count, options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: "Channel up",
+            message: `Deleted ${count} characters`,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async channelDown() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.channelDown();
+  private async getKeyboardState(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const keyboard = await commands.getKeyboardState(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: "Channel down",
+            keyboard,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async listChannels() {
-    await this.ensureConnectionOrThrow();
-    const channels = await tvCommands!.getChannelList();
+  // Remote Control Tools
+
+  private async remoteUp(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.pressUp(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            channels,
+            action: "up",
+            message: "Pressed UP",
           }, null, 2),
         },
       ],
     };
   }
 
-  private async getCurrentChannel() {
-    await this.ensureConnectionOrThrow();
-    const channel = await tvCommands!.getCurrentChannel();
+  private async remoteDown(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.pressDown(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            channel,
+            action: "down",
+            message: "Pressed DOWN",
           }, null, 2),
         },
       ],
     };
   }
 
-  private async setChannel(args: any) {
-    await this.ensureConnectionOrThrow();
-    const { channelId } = args;
-    if (!channelId) {
-      throw new Error("channelId is required. Use list_channels to get available channel IDs.");
-    }
-    await tvCommands!.setChannel(channelId);
+  private async remoteLeft(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.pressLeft(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: `Set to channel ${channelId}`,
+            action: "left",
+            message: "Pressed LEFT",
           }, null, 2),
         },
       ],
     };
   }
 
-  // Input Control Tools
-
-  private async listInputs() {
-    await this.ensureConnectionOrThrow();
-    const inputs = await tvCommands!.listInputs();
+  private async remoteRight(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.pressRight(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            inputs,
+            action: "right",
+            message: "Pressed RIGHT",
           }, null, 2),
         },
       ],
     };
   }
 
-  private async setInput(args: any) {
-    await this.ensureConnectionOrThrow();
-    const { inputId } = args;
-    if (!inputId) {
-      throw new Error("inputId is required. Use list_inputs to get available input IDs.");
-    }
-    await tvCommands!.setInput(inputId);
+  private async remoteOk(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.pressOk(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            message: `Switched to ${inputId}`,
+            action: "ok",
+            message: "Pressed OK",
           }, null, 2),
         },
       ],
     };
   }
 
-  // Remote Control Tools
-
-  private async remoteUp() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.pressUp();
+  private async remoteBack(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.pressBack(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            action: "up",
-            message: "Pressed UP",
+            action: "back",
+            message: "Pressed BACK",
           }, null, 2),
         },
       ],
     };
   }
 
-  private async remoteDown() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.pressDown();
+  private async remoteHome(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.pressHome(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            action: "down",
-            message: "Pressed DOWN",
+            action: "home",
+            message: "Pressed HOME",
           }, null, 2),
         },
       ],
     };
   }
 
-  private async remoteLeft() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.pressLeft();
+  private async pressKey(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { key, keys, delay } = args;
+
+    if (keys !== undefined) {
+      const pressed = await commands.pressKeys(keys, delay, options);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              keys: pressed,
+              message: `Pressed ${pressed.length} keys`,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (!key) {
+      throw new Error("key or keys parameter is required");
+    }
+
+    const pressed = await commands.pressKey(key, options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            action: "left",
-            message: "Pressed LEFT",
+            key: pressed,
+            message: `Pressed ${pressed}`,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async remoteRight() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.pressRight();
+  // Pointer Tools
+
+  private readOffset(args: any): { dx: number; dy: number } {
+    const dx = Number(args?.dx ?? 0);
+    const dy = Number(args?.dy ?? 0);
+    if (!Number.isFinite(dx) || !Number.isFinite(dy)) {
+      throw new Error("dx and dy must be numbers");
+    }
+    return { dx, dy };
+  }
+
+  private async pointerMove(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { dx, dy } = this.readOffset(args);
+    await commands.movePointer(dx, dy, false, options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            action: "right",
-            message: "Pressed RIGHT",
+            message: `Pointer moved by ${dx},${dy}`,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async remoteOk() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.pressOk();
+  private async pointerScroll(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { dx, dy } = this.readOffset(args);
+    await commands.scroll(dx, dy, options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            action: "ok",
-            message: "Pressed OK",
+            message: `Scrolled by ${dx},${dy}`,
           }, null, 2),
         },
       ],
     };
   }
 
-  private async remoteBack() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.pressBack();
+  private async pointerClick(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    await commands.click(options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            action: "back",
-            message: "Pressed BACK",
+            message: "Clicked",
           }, null, 2),
         },
       ],
     };
   }
 
-  private async remoteHome() {
-    await this.ensureConnectionOrThrow();
-    await tvCommands!.pressHome();
+  private async pointerDrag(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
+    const { dx, dy } = this.readOffset(args);
+    await commands.drag(dx, dy, args.steps, options);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify({
             success: true,
-            action: "home",
-            message: "Pressed HOME",
+            message: `Dragged by ${dx},${dy}`,
           }, null, 2),
         },
       ],
@@ -1614,8 +3095,8 @@ export class PokemoteMCPServer {
 
   // Search Tool
 
-  private async searchContent(args: any) {
-    await this.ensureConnectionOrThrow();
+  private async searchContent(args: any, options: RequestOptions) {
+    const commands = await this.commandsFor(args);
     const { query, categories } = args;
     
     if (!query) {
@@ -1623,8 +3104,8 @@ export class PokemoteMCPServer {
     }
 
     const result = categories 
-      ? await tvCommands!.searchContentAdvanced(query, categories)
-      : await tvCommands!.searchContent(query);
+      ? await commands.searchContentAdvanced(query, categories, options)
+      : await commands.searchContent(query, options);
 
     return {
       content: [
@@ -1638,13 +3119,25 @@ export class PokemoteMCPServer {
 
   // Helper Methods
 
-  private async ensureConnectionOrThrow() {
-    if (!tvCommands) {
-      const reconnected = await ensureConnection();
-      if (!reconnected) {
-        throw new Error("Not connected to TV. Please connect first using connect_tv tool.");
-      }
+  private async commandsFor(args: any): Promise<TVCommands> {
+    return (await this.sessionFor(args)).commands!;
+  }
+
+  private async sessionFor(args: any): Promise<TVSession> {
+    const target = args?.tv;
+    const session = await tvSessions.ensure(target);
+    if (!session?.commands) {
+      const ip = tvSessions.resolveIP(target);
+      const lastError = ip ? tvSessions.getLastError(ip) : null;
+      throw new Error((target
+        ? `Not connected to TV "${target}". Please connect first using connect_tv tool.`
+        : "Not connected to TV. Please connect first using connect_tv tool.") +
+        (lastError ? ` Last error: ${lastError}` : ""));
+    }
+    if (session.client.isReconnecting()) {
+      throw new Error(`Connection to ${session.ip} was lost, reconnecting. Try again shortly.`);
     }
+    return session;
   }
 
   // ==================== HTTP SERVER ====================
@@ -1662,8 +3155,9 @@ export class PokemoteMCPServer {
       res.json({
         status: 'ok',
         message: 'Pokemote MCP Server is running',
-        connected: !!tvClient,
-        currentTV: currentTVIP,
+        connected: tvSessions.list().some(s => !!s.commands),
+        currentTV: tvSessions.resolveIP(),
+        sessions: tvSessions.list().map(s => s.ip),
         auth: {
           enabled: this.authConfig.enabled,
           requiresApiKey: this.authConfig.enabled,
@@ -1685,14 +3179,15 @@ export class PokemoteMCPServer {
     
     // MCP JSON-RPC endpoint (auth required if enabled)
     app.post('/mcp', authMiddleware, async (req, res) => {
-      console.log(`MCP POST request received (API key: ${req.apiKey?.slice(0, 10)}...)`);
       res.setHeader('Content-Type', 'application/json');
       res.setHeader('Access-Control-Allow-Origin', '*');
       res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
       try {
         const request: MCPRequest = req.body;
-        console.log('MCP JSON-RPC request:', JSON.stringify(request, null, 2));
+        // Arguments only at debug level, and with PINs and keys redacted
+        log.info(`MCP ${request.method}${request.method === 'tools/call' ? ` ${request.params?.name}` : ''}`, { id: request.id });
+        log.debug('MCP JSON-RPC request', { request });
 
         // Handle JSON-RPC requests
         if (request.method === 'initialize') {
@@ -1734,14 +3229,20 @@ export class PokemoteMCPServer {
           const { name, arguments: args } = request.params;
           
           try {
-            const result = await this.executeTool(name, args);
+            // Stop waiting on the TV if the MCP client hangs up
+            const controller = new AbortController();
+            res.on('close', () => {
+              if (!res.writableFinished) controller.abort(new Error('Client disconnected'));
+            });
+
+            const result = await this.executeTool(name, args, { signal: controller.signal });
             res.json({
               jsonrpc: '2.0',
               id: request.id,
               result: result,
             });
           } catch (error: any) {
-            console.error('Tool execution error:', error);
+            log.error('Tool execution error', { tool: name, error });
             res.json({
               jsonrpc: '2.0',
               id: request.id,
@@ -1761,7 +3262,7 @@ export class PokemoteMCPServer {
         }
 
       } catch (error: any) {
-        console.error('MCP JSON-RPC error:', error);
+        log.error('MCP JSON-RPC error', { error });
         res.json({
           jsonrpc: '2.0',
           error: { code: -32603, message: 'Internal error' },
@@ -1771,11 +3272,11 @@ export class PokemoteMCPServer {
     });
 
     app.listen(port, '0.0.0.0', () => {
-      console.log(`🚀 Pokemote MCP Server running on http://0.0.0.0:${port}`);
-      console.log(`📡 MCP endpoint: http://0.0.0.0:${port}/mcp`);
-      console.log(`❤️  Health check: http://0.0.0.0:${port}/health`);
-      console.log(`📺 TV Status: ${tvClient ? `Connected to ${currentTVIP}` : 'Not connected'}`);
-      console.log(`🌐 External access: http://192.168.1.69:${port}`);
+      log.info(`🚀 Pokemote MCP Server running on http://0.0.0.0:${port}`);
+      log.info(`📡 MCP endpoint: http://0.0.0.0:${port}/mcp`);
+      log.info(`❤️  Health check: http://0.0.0.0:${port}/health`);
+      log.info(`📺 TV Status: ${tvSessions.list().length > 0 ? `Connected to ${tvSessions.list().map(s => s.ip).join(', ')}` : 'Not connected'}`);
+      log.info(`🌐 External access: http://192.168.1.69:${port}`);
     });
   }
 }
@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+
+import { VirtualTV } from "./simulator/virtual-tv.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("simulator");
+
+/**
+ * Virtual TV Entry Point
+ *
+ * Runs a simulated LG webOS TV so the API and MCP server can be
+ * developed and exercised without a physical set.
+ * Connect to it with { "ip": "127.0.0.1", "secure": false }.
+ */
+
+const tv = new VirtualTV({
+  port: process.env.VIRTUAL_TV_PORT ? parseInt(process.env.VIRTUAL_TV_PORT) : 3000,
+  host: process.env.VIRTUAL_TV_HOST,
+  name: process.env.VIRTUAL_TV_NAME,
+  mac: process.env.VIRTUAL_TV_MAC,
+  pin: process.env.VIRTUAL_TV_PIN,
+  acceptAnyClientKey: process.env.VIRTUAL_TV_ACCEPT_ANY_KEY === "true",
+  ssdp: process.env.VIRTUAL_TV_SSDP !== "false",
+  wolPort: process.env.VIRTUAL_TV_WOL_PORT ? parseInt(process.env.VIRTUAL_TV_WOL_PORT) : 9,
+});
+
+log.info('🚀 Starting virtual webOS TV...');
+
+tv.start().catch((error) => {
+  log.error('❌ Failed to start virtual TV', { error });
+  process.exit(1);
+});
+
+process.on('SIGINT', async () => {
+  await tv.stop();
+  process.exit(0);
+});
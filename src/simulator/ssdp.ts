@@ -0,0 +1,65 @@
+import dgram from "dgram";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("simulator");
+
+const SSDP_ADDRESS = "239.255.255.250";
+const SSDP_PORT = 1900;
+const SEARCH_TARGET = "urn:schemas-upnp-org:device:MediaRenderer:1";
+
+export interface SSDPResponderOptions {
+  // URL of the UPnP device description
+  location: string;
+  uuid: string;
+}
+
+/**
+ * Answer SSDP M-SEARCH requests for a MediaRenderer so discoverTVs() finds the virtual TV
+ * @returns Function that stops the responder
+ */
+export function startSSDPResponder(options: SSDPResponderOptions): () => void {
+  const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+
+  socket.on("message", (msg, rinfo) => {
+    const request = msg.toString();
+    if (!request.startsWith("M-SEARCH")) return;
+
+    const stMatch = request.match(/^ST:\s*(.+)$/im);
+    const st = stMatch?.[1].trim();
+    if (st !== SEARCH_TARGET && st !== "ssdp:all") return;
+
+    const response = [
+      "HTTP/1.1 200 OK",
+      "CACHE-CONTROL: max-age=1800",
+      "EXT:",
+      `LOCATION: ${options.location}`,
+      "SERVER: WebOS/4.1.0 UPnP/1.0 webOSTV/1.0",
+      `ST: ${SEARCH_TARGET}`,
+      `USN: uuid:${options.uuid}::${SEARCH_TARGET}`,
+      "",
+      "",
+    ].join("\r\n");
+
+    socket.send(response, rinfo.port, rinfo.address);
+  });
+
+  socket.on("error", (err) => {
+    log.error("❌ SSDP responder error", { error: err.message });
+    socket.close();
+  });
+
+  socket.bind(SSDP_PORT, () => {
+    try {
+      socket.addMembership(SSDP_ADDRESS);
+      log.info(`📡 SSDP responder listening on ${SSDP_ADDRESS}:${SSDP_PORT}`);
+    } catch (err: any) {
+      log.error("❌ Failed to join SSDP multicast group", { error: err.message });
+    }
+  });
+
+  return () => {
+    try {
+      socket.close();
+    } catch {}
+  };
+}
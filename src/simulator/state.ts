@@ -0,0 +1,154 @@
+/**
+ * In-memory state of the virtual webOS TV
+ */
+
+export interface VirtualApp {
+  id: string;
+  title: string;
+  // Media apps report a play state through com.webos.media
+  media?: boolean;
+}
+
+export interface VirtualChannel {
+  channelId: string;
+  channelNumber: string;
+  channelName: string;
+  channelType: string;
+  majorNumber: number;
+  minorNumber: number;
+  HDTV: boolean;
+  Radio: boolean;
+  skipped: boolean;
+  Invisible: boolean;
+  locked: boolean;
+}
+
+export interface VirtualInput {
+  id: string;
+  label: string;
+  port: number;
+  appId: string;
+  connected: boolean;
+}
+
+export interface VirtualTVState {
+  power: "on" | "screenOff" | "off";
+  volume: number;
+  muted: boolean;
+  soundOutput: string;
+  foregroundAppId: string;
+  runningApps: string[];
+  playState: "playing" | "paused" | "stopped";
+  contentId: string | null;
+  apps: VirtualApp[];
+  channels: VirtualChannel[];
+  currentChannelId: string;
+  inputs: VirtualInput[];
+  imeText: string;
+  // Whether a text field has focus (the search app and browser open with one)
+  textFieldFocused: boolean;
+  pointer: { x: number; y: number };
+  // Category -> key -> value, read by ssap://settings/getSystemSettings
+  settings: Record<string, Record<string, any>>;
+  // Category -> key -> what this model offers, read by ssap://settings/getSystemSettingDesc
+  settingOptions: Record<string, Record<string, { options?: string[]; range?: { min: number; max: number } }>>;
+}
+
+function channel(
+  channelId: string,
+  majorNumber: number,
+  minorNumber: number,
+  channelName: string,
+  extra: Partial<VirtualChannel> = {}
+): VirtualChannel {
+  return {
+    channelId,
+    channelNumber: minorNumber ? `${majorNumber}-${minorNumber}` : `${majorNumber}`,
+    channelName,
+    channelType: "Terrestrial Digital TV",
+    majorNumber,
+    minorNumber,
+    HDTV: false,
+    Radio: false,
+    skipped: false,
+    Invisible: false,
+    locked: false,
+    ...extra,
+  };
+}
+
+/**
+ * Fresh state for a TV that was just switched on
+ */
+export function createInitialState(): VirtualTVState {
+  return {
+    power: "on",
+    volume: 12,
+    muted: false,
+    soundOutput: "tv_speaker",
+    foregroundAppId: "com.webos.app.home",
+    runningApps: ["com.webos.app.home"],
+    playState: "stopped",
+    contentId: null,
+    apps: [
+      { id: "com.webos.app.home", title: "Home" },
+      { id: "com.webos.app.livetv", title: "Live TV" },
+      { id: "youtube.leanback.v4", title: "YouTube", media: true },
+      { id: "netflix", title: "Netflix", media: true },
+      { id: "amazon", title: "Prime Video", media: true },
+      { id: "com.disney.disneyplus-prod", title: "Disney+", media: true },
+      { id: "spotify-beehive", title: "Spotify", media: true },
+      { id: "cdp-30", title: "Plex", media: true },
+      { id: "com.webos.app.browser", title: "Web Browser" },
+      { id: "com.webos.app.search", title: "Search" },
+      { id: "com.webos.app.hdmi1", title: "HDMI 1" },
+      { id: "com.webos.app.hdmi2", title: "HDMI 2" },
+      { id: "com.webos.app.hdmi3", title: "HDMI 3" },
+    ],
+    channels: [
+      channel("1_1_1_0_0_1001_0", 1, 1, "BBC One", { HDTV: true }),
+      channel("1_2_1_0_0_1002_0", 2, 1, "BBC Two", { HDTV: true }),
+      channel("1_5_1_0_0_1005_0", 5, 1, "Channel 5"),
+      channel("1_5_2_0_0_1006_0", 5, 2, "Channel 5 +1", { skipped: true }),
+      channel("1_7_0_0_0_1007_0", 7, 0, "News 24"),
+      channel("1_700_0_0_0_1700_0", 700, 0, "Radio One", { Radio: true, channelType: "Terrestrial Digital Radio" }),
+    ],
+    currentChannelId: "1_1_1_0_0_1001_0",
+    inputs: [
+      { id: "HDMI_1", label: "HDMI 1", port: 1, appId: "com.webos.app.hdmi1", connected: true },
+      { id: "HDMI_2", label: "HDMI 2", port: 2, appId: "com.webos.app.hdmi2", connected: true },
+      { id: "HDMI_3", label: "HDMI 3", port: 3, appId: "com.webos.app.hdmi3", connected: false },
+    ],
+    imeText: "",
+    textFieldFocused: false,
+    pointer: { x: 960, y: 540 },
+    settings: {
+      picture: {
+        pictureMode: "standard",
+        backlight: 80,
+        contrast: 85,
+        brightness: 50,
+        color: 50,
+        colorTemperature: "W50",
+        energySaving: "off",
+      },
+      sound: {
+        soundMode: "standard",
+        balance: 0,
+        avSync: "off",
+        avSyncValue: 0,
+      },
+    },
+    // Like most OLEDs: no expert2 mode and no screen_off energy saving
+    settingOptions: {
+      picture: {
+        pictureMode: { options: ["vivid", "standard", "eco", "cinema", "sports", "game", "filmMaker", "expert1"] },
+        backlight: { range: { min: 0, max: 100 } },
+        contrast: { range: { min: 0, max: 100 } },
+        brightness: { range: { min: 0, max: 100 } },
+        color: { range: { min: 0, max: 100 } },
+        energySaving: { options: ["off", "auto", "min", "med", "max"] },
+      },
+    },
+  };
+}
@@ -0,0 +1,808 @@
+import http from "http";
+import dgram from "dgram";
+import os from "os";
+import { randomInt, randomUUID } from "crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import { createInitialState, type VirtualApp, type VirtualChannel, type VirtualTVState } from "./state.js";
+import { startSSDPResponder } from "./ssdp.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("simulator");
+
+export interface VirtualTVOptions {
+  // Interface to listen on (default: 0.0.0.0)
+  host?: string;
+  // SSAP WebSocket/HTTP port (default: 3000, the TV's non-secure port)
+  port?: number;
+  name?: string;
+  mac?: string;
+  // Fixed pairing PIN; a random 6-digit PIN is shown per pairing if omitted
+  pin?: string;
+  // Accept any client-key on register, so stored credentials survive simulator restarts
+  acceptAnyClientKey?: boolean;
+  // Delay in ms before a PROMPT pairing is auto-accepted (default: 2000)
+  promptDelay?: number;
+  // Answer SSDP searches so discoverTVs() finds this TV (default: true)
+  ssdp?: boolean;
+  // UDP port listening for Wake-on-LAN packets, 0 to disable (default: 9)
+  wolPort?: number;
+  // Time in ms the TV takes to boot after Wake-on-LAN (default: 3000)
+  bootDelay?: number;
+}
+
+interface Connection {
+  ws: WebSocket;
+  // Host header the client used, needed to hand out reachable URLs
+  host: string;
+  registered: boolean;
+  pendingRegistration: { id: string; pin: string } | null;
+  subscriptions: Map<string, { uri: string; last: string }>;
+}
+
+type Handler = (payload: any, conn: Connection) => Record<string, any> | void;
+
+// Apps that open with a focused text field
+const TEXT_FIELD_APPS = ["com.webos.app.search", "com.webos.app.browser"];
+
+const SOUND_OUTPUTS = [
+  "tv_speaker",
+  "external_speaker",
+  "external_optical",
+  "external_arc",
+  "lineout",
+  "headphone",
+  "tv_external_speaker",
+  "tv_speaker_headphone",
+  "bt_soundbar",
+];
+
+// 1x1 PNG served for every app icon and channel logo
+const ICON_PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==",
+  "base64"
+);
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * A local stand-in for an LG webOS TV. Speaks the SSAP register/request/subscribe
+ * protocol with PIN and PROMPT pairing, exposes a pointer input socket, answers
+ * SSDP searches and wakes up on Wake-on-LAN.
+ */
+export class VirtualTV {
+  state: VirtualTVState = createInitialState();
+  private options: Required<Omit<VirtualTVOptions, "pin">> & { pin?: string };
+  private uuid = randomUUID();
+  private server: http.Server | null = null;
+  private wss = new WebSocketServer({ noServer: true });
+  private connections = new Set<Connection>();
+  private pointerSockets = new Set<WebSocket>();
+  private pointerTokens = new Set<string>();
+  private clientKeys = new Set<string>();
+  private alerts = new Map<string, any>();
+  private stopSSDP: (() => void) | null = null;
+  private wolSocket: dgram.Socket | null = null;
+  private handlers: Record<string, Handler>;
+  private subscribable: Record<string, (conn: Connection) => Record<string, any>>;
+
+  constructor(options: VirtualTVOptions = {}) {
+    this.options = {
+      host: options.host ?? "0.0.0.0",
+      port: options.port ?? 3000,
+      name: options.name ?? "Virtual webOS TV",
+      mac: options.mac ?? "02:00:00:4c:47:01",
+      pin: options.pin,
+      acceptAnyClientKey: options.acceptAnyClientKey ?? false,
+      promptDelay: options.promptDelay ?? 2000,
+      ssdp: options.ssdp ?? true,
+      wolPort: options.wolPort ?? 9,
+      bootDelay: options.bootDelay ?? 3000,
+    };
+    this.handlers = this.createHandlers();
+    this.subscribable = this.createSubscriptions();
+  }
+
+  /**
+   * Start listening for SSAP, pointer, SSDP and Wake-on-LAN traffic
+   */
+  async start(): Promise<void> {
+    await this.listen();
+    this.startWakeOnLanListener();
+  }
+
+  /**
+   * Stop every listener and drop all clients
+   */
+  async stop(): Promise<void> {
+    await this.shutdownNetwork();
+    this.wolSocket?.close();
+    this.wolSocket = null;
+  }
+
+  /**
+   * Turn the TV off: sockets drop and the port stops accepting connections
+   */
+  async powerOff(): Promise<void> {
+    if (this.state.power === "off") return;
+    log.info("📴 Virtual TV powering off");
+    this.state.power = "off";
+    await this.shutdownNetwork();
+  }
+
+  /**
+   * Boot the TV after a Wake-on-LAN packet
+   */
+  async wake(): Promise<void> {
+    if (this.state.power !== "off") return;
+    log.info(`⚡ Virtual TV waking up (boot takes ${this.options.bootDelay}ms)`);
+
+    await new Promise((resolve) => setTimeout(resolve, this.options.bootDelay));
+
+    // Apps do not survive a power cycle
+    const { volume, muted, soundOutput, settings, apps, channels, currentChannelId } = this.state;
+    this.state = { ...createInitialState(), volume, muted, soundOutput, settings, apps, channels, currentChannelId };
+    await this.listen();
+  }
+
+  /**
+   * Install an app, as if from the LG Content Store
+   */
+  installApp(app: VirtualApp): void {
+    this.state.apps = [...this.state.apps.filter((a) => a.id !== app.id), app];
+    log.info(`📥 Installed ${app.title} (${app.id})`);
+    this.pushSubscriptions();
+  }
+
+  /**
+   * Uninstall an app, closing it first if it runs
+   */
+  uninstallApp(appId: string): void {
+    if (!this.state.apps.some((a) => a.id === appId)) throw new Error(`App ${appId} does not exist`);
+    this.state.runningApps = this.state.runningApps.filter((id) => id !== appId);
+    if (this.state.foregroundAppId === appId) this.setForeground("com.webos.app.home");
+    this.state.apps = this.state.apps.filter((a) => a.id !== appId);
+    log.info(`🗑️  Uninstalled ${appId}`);
+    this.pushSubscriptions();
+  }
+
+  // ==================== NETWORK ====================
+
+  private async listen(): Promise<void> {
+    const server = http.createServer((req, res) => this.handleHttp(req, res));
+    server.on("upgrade", (req, socket, head) => {
+      this.wss.handleUpgrade(req, socket, head, (ws) => this.handleUpgrade(ws, req));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port, this.options.host, () => resolve());
+    });
+    this.server = server;
+
+    log.info(`📺 ${this.options.name} listening on ws://${this.localAddress()}:${this.options.port}/`);
+
+    if (this.options.ssdp) {
+      this.stopSSDP = startSSDPResponder({
+        location: `http://${this.localAddress()}:${this.options.port}/upnp/description.xml`,
+        uuid: this.uuid,
+      });
+    }
+  }
+
+  private async shutdownNetwork(): Promise<void> {
+    this.stopSSDP?.();
+    this.stopSSDP = null;
+
+    for (const conn of this.connections) conn.ws.terminate();
+    for (const ws of this.pointerSockets) ws.terminate();
+    this.connections.clear();
+    this.pointerSockets.clear();
+    this.pointerTokens.clear();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private startWakeOnLanListener(): void {
+    if (!this.options.wolPort) return;
+
+    const expected = Buffer.from(this.options.mac.replace(/[^0-9a-f]/gi, ""), "hex");
+    const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+
+    socket.on("message", (msg) => {
+      if (msg.length < 102 || !msg.subarray(0, 6).every((b) => b === 0xff)) return;
+      if (!msg.subarray(6, 12).equals(expected)) return;
+      log.info("⚡ Wake-on-LAN magic packet received");
+      this.wake().catch((err) => log.error("❌ Wake failed", { error: err.message }));
+    });
+
+    socket.on("error", (err) => {
+      log.warn(`⚠️  Wake-on-LAN listener disabled (port ${this.options.wolPort})`, { error: err.message });
+      socket.close();
+      this.wolSocket = null;
+    });
+
+    socket.bind(this.options.wolPort);
+    this.wolSocket = socket;
+  }
+
+  private localAddress(): string {
+    if (this.options.host !== "0.0.0.0") return this.options.host;
+
+    for (const addresses of Object.values(os.networkInterfaces())) {
+      const ipv4 = addresses?.find((a) => a.family === "IPv4" && !a.internal);
+      if (ipv4) return ipv4.address;
+    }
+    return "127.0.0.1";
+  }
+
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = req.url || "/";
+
+    if (url === "/upnp/description.xml") {
+      res.writeHead(200, { "Content-Type": "text/xml" });
+      res.end(`<?xml version="1.0"?>
+<root xmlns="urn:schemas-upnp-org:device-1-0">
+  <specVersion><major>1</major><minor>0</minor></specVersion>
+  <device>
+    <deviceType>urn:schemas-upnp-org:device:MediaRenderer:1</deviceType>
+    <friendlyName>${escapeXml(this.options.name)}</friendlyName>
+    <manufacturer>LG Electronics</manufacturer>
+    <manufacturerURL>http://www.lge.com</manufacturerURL>
+    <modelName>Virtual webOS TV</modelName>
+    <UDN>uuid:${this.uuid}</UDN>
+    <wiredMac>${this.options.mac}</wiredMac>
+  </device>
+</root>`);
+      return;
+    }
+
+    if (url.startsWith("/icons/") || url.startsWith("/logos/")) {
+      res.writeHead(200, { "Content-Type": "image/png", "Content-Length": ICON_PNG.length });
+      res.end(ICON_PNG);
+      return;
+    }
+
+    res.writeHead(404);
+    res.end();
+  }
+
+  private handleUpgrade(ws: WebSocket, req: http.IncomingMessage): void {
+    const url = req.url || "/";
+    const host = req.headers.host || `${this.localAddress()}:${this.options.port}`;
+
+    if (url.startsWith("/pointer/")) {
+      const token = url.slice("/pointer/".length);
+      if (!this.pointerTokens.has(token)) {
+        ws.close(1008, "Unknown pointer socket");
+        return;
+      }
+      this.pointerSockets.add(ws);
+      ws.on("message", (data) => this.handlePointer(data.toString()));
+      ws.on("close", () => this.pointerSockets.delete(ws));
+      return;
+    }
+
+    const conn: Connection = {
+      ws,
+      host,
+      registered: false,
+      pendingRegistration: null,
+      subscriptions: new Map(),
+    };
+    this.connections.add(conn);
+
+    ws.on("message", (data) => this.handleMessage(conn, data.toString()));
+    ws.on("close", () => this.connections.delete(conn));
+  }
+
+  private send(conn: Connection, message: any): void {
+    if (conn.ws.readyState === WebSocket.OPEN) {
+      conn.ws.send(JSON.stringify(message));
+    }
+  }
+
+  // ==================== SSAP ====================
+
+  private handleMessage(conn: Connection, data: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return this.send(conn, { type: "error", id: "", error: "400 bad request", payload: {} });
+    }
+
+    switch (message.type) {
+      case "register":
+        return this.handleRegister(conn, message);
+      case "request":
+        return this.handleRequest(conn, message);
+      case "subscribe":
+        return this.handleSubscribe(conn, message);
+      case "unsubscribe":
+        conn.subscriptions.delete(message.id);
+        return;
+      default:
+        return this.send(conn, { type: "error", id: message.id, error: "400 bad request", payload: {} });
+    }
+  }
+
+  private handleRegister(conn: Connection, message: any): void {
+    const payload = message.payload || {};
+    const key = payload["client-key"];
+
+    if (key && (this.clientKeys.has(key) || this.options.acceptAnyClientKey)) {
+      this.clientKeys.add(key);
+      conn.registered = true;
+      return this.send(conn, { type: "registered", id: message.id, payload: { "client-key": key } });
+    }
+
+    const pairingType = payload.pairingType === "PROMPT" ? "PROMPT" : "PIN";
+    this.send(conn, { type: "response", id: message.id, payload: { pairingType, returnValue: true } });
+
+    if (pairingType === "PROMPT") {
+      log.info(`🔔 Pairing prompt shown, auto-accepting in ${this.options.promptDelay}ms`);
+      setTimeout(() => this.completeRegistration(conn, message.id), this.options.promptDelay);
+      return;
+    }
+
+    const pin = this.options.pin || String(randomInt(0, 1000000)).padStart(6, "0");
+    conn.pendingRegistration = { id: message.id, pin };
+    log.info(`🔑 PIN on virtual TV screen: ${pin}`);
+  }
+
+  private completeRegistration(conn: Connection, registerId: string): void {
+    const key = randomUUID().replace(/-/g, "");
+    this.clientKeys.add(key);
+    conn.registered = true;
+    conn.pendingRegistration = null;
+    log.info("✅ Client paired with virtual TV");
+    this.send(conn, { type: "registered", id: registerId, payload: { "client-key": key } });
+  }
+
+  private handleRequest(conn: Connection, message: any): void {
+    const { id, uri } = message;
+
+    if (uri === "ssap://pairing/setPin") {
+      const pending = conn.pendingRegistration;
+      if (!pending) {
+        return this.send(conn, { type: "error", id, error: "500 no pairing in progress", payload: {} });
+      }
+      if (String(message.payload?.pin) !== pending.pin) {
+        conn.pendingRegistration = null;
+        this.send(conn, { type: "error", id, error: "403 wrong PIN", payload: {} });
+        return this.send(conn, { type: "error", id: pending.id, error: "403 pairing rejected: wrong PIN", payload: {} });
+      }
+      this.send(conn, { type: "response", id, payload: { returnValue: true } });
+      return this.completeRegistration(conn, pending.id);
+    }
+
+    if (!conn.registered) {
+      return this.send(conn, { type: "error", id, error: "401 insufficient permissions (not registered)", payload: {} });
+    }
+
+    const handler = this.handlers[uri];
+    if (!handler) {
+      return this.send(conn, { type: "error", id, error: "404 no such service or method", payload: {} });
+    }
+
+    try {
+      const result = handler(message.payload || {}, conn) || {};
+      this.send(conn, { type: "response", id, payload: { returnValue: true, ...result } });
+    } catch (err: any) {
+      this.send(conn, { type: "response", id, payload: { returnValue: false, errorText: err.message } });
+    }
+
+    this.pushSubscriptions();
+  }
+
+  private handleSubscribe(conn: Connection, message: any): void {
+    const { id, uri } = message;
+
+    if (!conn.registered) {
+      return this.send(conn, { type: "error", id, error: "401 insufficient permissions (not registered)", payload: {} });
+    }
+
+    const read = this.subscribable[uri];
+    if (!read) {
+      return this.send(conn, { type: "error", id, error: "404 no such service or method", payload: {} });
+    }
+
+    const data = read(conn);
+    conn.subscriptions.set(id, { uri, last: JSON.stringify(data) });
+    this.send(conn, { type: "response", id, payload: { returnValue: true, subscribed: true, ...data } });
+  }
+
+  /**
+   * Send every subscription whose data changed since it was last sent
+   */
+  private pushSubscriptions(): void {
+    for (const conn of this.connections) {
+      for (const [id, subscription] of conn.subscriptions) {
+        const data = this.subscribable[subscription.uri](conn);
+        const serialized = JSON.stringify(data);
+        if (serialized === subscription.last) continue;
+
+        subscription.last = serialized;
+        this.send(conn, { type: "response", id, payload: { returnValue: true, subscribed: true, ...data } });
+      }
+    }
+  }
+
+  // ==================== POINTER INPUT ====================
+
+  private handlePointer(data: string): void {
+    const fields: Record<string, string> = {};
+    for (const line of data.split("\n")) {
+      const separator = line.indexOf(":");
+      if (separator > 0) fields[line.slice(0, separator)] = line.slice(separator + 1);
+    }
+
+    switch (fields.type) {
+      case "button":
+        this.pressButton(fields.name);
+        break;
+      case "move": {
+        const { pointer } = this.state;
+        pointer.x = Math.max(0, Math.min(1919, pointer.x + Number(fields.dx || 0)));
+        pointer.y = Math.max(0, Math.min(1079, pointer.y + Number(fields.dy || 0)));
+        break;
+      }
+      case "scroll":
+        log.info(`🖱️  Scroll dx=${fields.dx} dy=${fields.dy}`);
+        break;
+      case "click":
+        log.info(`🖱️  Click at ${this.state.pointer.x},${this.state.pointer.y}`);
+        break;
+      default:
+        log.warn("⚠️  Unknown pointer message", { data });
+    }
+
+    this.pushSubscriptions();
+  }
+
+  private pressButton(name: string): void {
+    log.info(`🎮 Button: ${name}`);
+    const state = this.state;
+
+    switch (name) {
+      case "VOLUMEUP":
+        state.volume = Math.min(100, state.volume + 1);
+        break;
+      case "VOLUMEDOWN":
+        state.volume = Math.max(0, state.volume - 1);
+        break;
+      case "MUTE":
+        state.muted = !state.muted;
+        break;
+      case "CHANNELUP":
+        this.stepChannel(1);
+        break;
+      case "CHANNELDOWN":
+        this.stepChannel(-1);
+        break;
+      case "HOME":
+      case "EXIT":
+        this.setForeground("com.webos.app.home");
+        break;
+      case "PLAY":
+        this.setPlayState("playing");
+        break;
+      case "PAUSE":
+        this.setPlayState("paused");
+        break;
+      case "STOP":
+        this.setPlayState("stopped");
+        break;
+      case "POWER":
+        setTimeout(() => this.powerOff(), 100);
+        break;
+    }
+  }
+
+  // ==================== STATE HELPERS ====================
+
+  private currentChannel(): VirtualChannel {
+    return this.state.channels.find((c) => c.channelId === this.state.currentChannelId) || this.state.channels[0];
+  }
+
+  private isMediaApp(appId: string): boolean {
+    return !!this.state.apps.find((a) => a.id === appId)?.media;
+  }
+
+  private setForeground(appId: string): void {
+    const state = this.state;
+    state.foregroundAppId = appId;
+    if (!state.runningApps.includes(appId)) state.runningApps.push(appId);
+    state.playState = "stopped";
+    state.contentId = null;
+    state.textFieldFocused = TEXT_FIELD_APPS.includes(appId);
+    state.imeText = "";
+  }
+
+  private setPlayState(playState: VirtualTVState["playState"]): void {
+    if (this.isMediaApp(this.state.foregroundAppId)) {
+      this.state.playState = playState;
+    }
+  }
+
+  private stepChannel(step: number): void {
+    const channels = this.state.channels.filter((c) => !c.skipped && !c.Invisible);
+    const index = channels.findIndex((c) => c.channelId === this.state.currentChannelId);
+    const next = channels[(index + step + channels.length) % channels.length];
+    this.state.currentChannelId = next.channelId;
+    this.setForeground("com.webos.app.livetv");
+  }
+
+  private launch(appId: string, contentId?: string): Record<string, any> {
+    if (!this.state.apps.some((a) => a.id === appId)) {
+      throw new Error(`App ${appId} does not exist`);
+    }
+
+    this.setForeground(appId);
+
+    const input = this.state.inputs.find((i) => i.appId === appId);
+    if (input) log.info(`🔌 Switched to ${input.label}`);
+
+    if (contentId && this.isMediaApp(appId)) {
+      this.state.contentId = contentId;
+      this.state.playState = "playing";
+    }
+
+    log.info(`🚀 Launched ${appId}${contentId ? ` (${contentId})` : ""}`);
+    return { id: appId, sessionId: Buffer.from(`${appId}:${Date.now()}`).toString("base64") };
+  }
+
+  private callLuna(uri: string, params: any): void {
+    log.info(`🌙 Luna call: ${uri}`, { params });
+
+    if (uri === "luna://com.webos.settingsservice/setSystemSettings" && params?.category) {
+      this.state.settings[params.category] = {
+        ...(this.state.settings[params.category] || {}),
+        ...(params.settings || {}),
+      };
+    }
+  }
+
+  // ==================== SSAP HANDLERS ====================
+
+  private createSubscriptions(): Record<string, (conn: Connection) => Record<string, any>> {
+    return {
+      "ssap://audio/getVolume": () => ({
+        scenario: `mastervolume_${this.state.soundOutput}`,
+        volume: this.state.volume,
+        muted: this.state.muted,
+      }),
+      "ssap://audio/getSoundOutput": () => ({
+        soundOutput: this.state.soundOutput,
+      }),
+      "ssap://com.webos.applicationManager/getForegroundAppInfo": () => ({
+        appId: this.state.foregroundAppId,
+        windowId: "",
+        processId: "",
+      }),
+      "ssap://tv/getCurrentChannel": () => this.currentChannel() as unknown as Record<string, any>,
+      "ssap://com.webos.media/getForegroundAppInfo": () => ({
+        foregroundAppInfo:
+          this.state.playState !== "stopped"
+            ? [{
+                appId: this.state.foregroundAppId,
+                playState: this.state.playState,
+                type: "media",
+                mediaId: this.state.contentId || "_media_1",
+                windowId: "_Window_Id_1",
+              }]
+            : [],
+      }),
+      "ssap://com.webos.service.ime/registerRemoteKeyboard": () => ({
+        currentWidget: this.state.textFieldFocused
+          ? {
+              focus: true,
+              contentType: "text",
+              hiddenText: false,
+              predictionEnabled: false,
+              value: this.state.imeText,
+              cursorPosition: this.state.imeText.length,
+            }
+          : { focus: false },
+      }),
+      "ssap://com.webos.service.tvpower/power/getPowerState": () => ({
+        state: this.state.power === "screenOff" ? "Screen Off" : "Active",
+      }),
+      "ssap://com.webos.applicationManager/listLaunchPoints": (conn) => ({
+        launchPoints: this.state.apps.map((app) => ({
+          id: app.id,
+          launchPointId: `${app.id}_default`,
+          title: app.title,
+          icon: `http://${conn.host}/icons/${encodeURIComponent(app.id)}.png`,
+          largeIcon: `http://${conn.host}/icons/${encodeURIComponent(app.id)}.png`,
+        })),
+      }),
+    };
+  }
+
+  private createHandlers(): Record<string, Handler> {
+    const state = () => this.state;
+    const read = (uri: string): Handler => (_payload, conn) => this.subscribable[uri](conn);
+
+    return {
+      // Audio
+      "ssap://audio/getVolume": read("ssap://audio/getVolume"),
+      "ssap://audio/volumeUp": () => {
+        state().volume = Math.min(100, state().volume + 1);
+      },
+      "ssap://audio/volumeDown": () => {
+        state().volume = Math.max(0, state().volume - 1);
+      },
+      "ssap://audio/setVolume": ({ volume }) => {
+        if (typeof volume !== "number" || volume < 0 || volume > 100) {
+          throw new Error("volume must be between 0 and 100");
+        }
+        state().volume = volume;
+      },
+      "ssap://audio/setMute": ({ mute }) => {
+        state().muted = !!mute;
+      },
+      "ssap://audio/getSoundOutput": read("ssap://audio/getSoundOutput"),
+      "ssap://audio/changeSoundOutput": ({ output }) => {
+        if (!SOUND_OUTPUTS.includes(output)) {
+          throw new Error(`Unsupported sound output: ${output}`);
+        }
+        state().soundOutput = output;
+      },
+
+      // Media
+      "ssap://media.controls/play": () => this.setPlayState("playing"),
+      "ssap://media.controls/pause": () => this.setPlayState("paused"),
+      "ssap://media.controls/stop": () => this.setPlayState("stopped"),
+      "ssap://media.controls/rewind": () => {},
+      "ssap://media.controls/fastForward": () => {},
+      "ssap://com.webos.media/getForegroundAppInfo": read("ssap://com.webos.media/getForegroundAppInfo"),
+
+      // System
+      "ssap://system/turnOff": () => {
+        setTimeout(() => this.powerOff(), 100);
+      },
+      "ssap://system/turnOn": () => {
+        state().power = "on";
+      },
+      "ssap://com.webos.service.tvpower/power/turnOffScreen": () => {
+        state().power = "screenOff";
+      },
+      "ssap://com.webos.service.tvpower/power/turnOnScreen": () => {
+        state().power = "on";
+      },
+      "ssap://com.webos.service.tvpower/power/getPowerState": read("ssap://com.webos.service.tvpower/power/getPowerState"),
+      "ssap://com.webos.service.update/getCurrentSWInformation": () => ({
+        product_name: "webOSTV 6.0",
+        model_name: "HE_DTV_W21O_AFABABAA",
+        sw_type: "FIRMWARE",
+        major_ver: "03",
+        minor_ver: "30.25",
+        country: "GB",
+        device_id: this.options.mac,
+      }),
+      "ssap://com.webos.service.connectionmanager/getinfo": () => ({
+        wiredInfo: { macAddress: this.options.mac, state: "connected" },
+        wifiInfo: { macAddress: "02:00:00:4c:47:02", state: "disconnected" },
+      }),
+      "ssap://system.notifications/createToast": ({ message }) => {
+        log.info(`🔔 Toast: ${message}`);
+        return { toastId: randomUUID() };
+      },
+      "ssap://system.notifications/createAlert": (payload) => {
+        const alertId = randomUUID();
+        this.alerts.set(alertId, payload);
+        return { alertId };
+      },
+      "ssap://system.notifications/closeAlert": ({ alertId }) => {
+        const alert = this.alerts.get(alertId);
+        if (!alert) throw new Error("Alert not found");
+        this.alerts.delete(alertId);
+        if (alert.onclose?.uri) this.callLuna(alert.onclose.uri, alert.onclose.params);
+      },
+      "ssap://settings/getSystemSettings": ({ category, keys }) => {
+        const values = state().settings[category];
+        if (!values) throw new Error(`Unknown settings category: ${category}`);
+        const settings = Array.isArray(keys)
+          ? Object.fromEntries(keys.filter((k: string) => k in values).map((k: string) => [k, values[k]]))
+          : { ...values };
+        return { category, settings };
+      },
+      "ssap://settings/getSystemSettingDesc": ({ category, keys }) => {
+        const described = state().settingOptions[category] || {};
+        const results = (Array.isArray(keys) ? keys : Object.keys(described))
+          .filter((key: string) => key in described)
+          .map((key: string) => {
+            const { options, range } = described[key];
+            return options
+              ? { category, key, vtype: "Array", values: { arrayExt: options.map((value) => ({ value, active: true, visible: true })) } }
+              : { category, key, vtype: "Range", values: { range: { ...range, interval: 1 } } };
+          });
+        return { results };
+      },
+
+      // Applications
+      "ssap://com.webos.applicationManager/listLaunchPoints": read("ssap://com.webos.applicationManager/listLaunchPoints"),
+      "ssap://com.webos.applicationManager/listApps": () => ({
+        apps: state().apps.map((app) => ({ id: app.id, title: app.title })),
+      }),
+      "ssap://com.webos.service.applicationmanager/listRunningApps": () => ({
+        running: state().runningApps.map((id) => ({ id })),
+      }),
+      "ssap://com.webos.applicationManager/getForegroundAppInfo": read("ssap://com.webos.applicationManager/getForegroundAppInfo"),
+      "ssap://system.launcher/launch": ({ id, contentId }) => this.launch(id, contentId),
+      "ssap://system.launcher/open": ({ target }) => {
+        this.launch("com.webos.app.browser");
+        log.info(`🌐 Opened ${target}`);
+      },
+      "ssap://system.launcher/close": ({ id }) => {
+        if (!state().runningApps.includes(id)) throw new Error(`App ${id} is not running`);
+        state().runningApps = state().runningApps.filter((appId) => appId !== id);
+        if (state().foregroundAppId === id) this.setForeground("com.webos.app.home");
+        log.info(`🛑 Closed ${id}`);
+      },
+
+      // TV / channels / inputs
+      "ssap://tv/channelUp": () => this.stepChannel(1),
+      "ssap://tv/channelDown": () => this.stepChannel(-1),
+      "ssap://tv/openChannel": ({ channelId, channelNumber }) => {
+        const target = state().channels.find(
+          (c) => c.channelId === channelId || (channelNumber && c.channelNumber === String(channelNumber))
+        );
+        if (!target) throw new Error("Channel not found");
+        state().currentChannelId = target.channelId;
+        this.setForeground("com.webos.app.livetv");
+      },
+      "ssap://tv/getCurrentChannel": read("ssap://tv/getCurrentChannel"),
+      "ssap://tv/getChannelList": (_payload, conn) => ({
+        channelList: state().channels.map((c) => ({
+          ...c,
+          imgUrl: `http://${conn.host}/logos/${encodeURIComponent(c.channelId)}.png`,
+        })),
+        channelListCount: state().channels.length,
+      }),
+      "ssap://tv/getChannelProgramInfo": () => {
+        const start = new Date();
+        start.setMinutes(0, 0, 0);
+        const end = new Date(start.getTime() + 60 * 60 * 1000);
+        return {
+          channel: this.currentChannel(),
+          programList: [{ programName: "Evening News", startTime: start.toISOString(), endTime: end.toISOString() }],
+        };
+      },
+      "ssap://tv/getExternalInputList": () => ({ devices: state().inputs }),
+      "ssap://tv/switchInput": ({ inputId }) => {
+        const input = state().inputs.find((i) => i.id === inputId);
+        if (!input) throw new Error(`Unknown input: ${inputId}`);
+        this.setForeground(input.appId);
+      },
+
+      // Text input
+      "ssap://com.webos.service.ime/insertText": ({ text, replace }) => {
+        state().imeText = replace ? String(text) : state().imeText + String(text);
+        log.info(`⌨️  Text field: "${state().imeText}"`);
+      },
+      "ssap://com.webos.service.ime/deleteCharacters": ({ count }) => {
+        state().imeText = state().imeText.slice(0, Math.max(0, state().imeText.length - Number(count || 0)));
+      },
+      "ssap://com.webos.service.ime/sendEnterKey": () => {
+        log.info(`⌨️  Submitted: "${state().imeText}"`);
+        state().imeText = "";
+        state().textFieldFocused = false;
+      },
+
+      // Pointer input
+      "ssap://com.webos.service.networkinput/getPointerInputSocket": (_payload, conn) => {
+        const token = randomUUID();
+        this.pointerTokens.add(token);
+        return { socketPath: `ws://${conn.host}/pointer/${token}` };
+      },
+    };
+  }
+}
@@ -0,0 +1,123 @@
+export interface AppEntry {
+  id: string;
+  title: string;
+}
+
+export interface AppCandidate extends AppEntry {
+  // 0-1, how well the query matched
+  score: number;
+  matchedBy: "id" | "alias" | "title" | "fuzzy";
+}
+
+export type AppResolution =
+  | { status: "resolved"; query: string; app: AppCandidate }
+  | { status: "ambiguous"; query: string; candidates: AppCandidate[] }
+  | { status: "not-found"; query: string; candidates: AppCandidate[] };
+
+/**
+ * An app that was asked to close is not running
+ */
+export class AppNotRunningError extends Error {
+  constructor(readonly appId: string) {
+    super(`${appId} is not running`);
+    this.name = "AppNotRunningError";
+  }
+}
+
+// Lowest fuzzy score that counts as a match, and the lead the best match needs over the next one
+const MIN_SCORE = 0.6;
+const MIN_LEAD = 0.15;
+// Weaker matches are still offered as suggestions down to this score
+const SUGGEST_SCORE = 0.3;
+const MAX_CANDIDATES = 5;
+
+/**
+ * Normalize an app name or alias for matching: "The Disney+ app" -> "disneyplus"
+ */
+export function normalizeAppName(name: string): string {
+  return String(name ?? "")
+    .toLowerCase()
+    .replace(/\+/g, " plus ")
+    .replace(/^\s*the\s+/, "")
+    .replace(/\s+app\s*$/, "")
+    .replace(/[^a-z0-9]+/g, "");
+}
+
+/**
+ * Resolve what someone called an app (id, title, alias or something close) to an installed app.
+ * Aliases (normalized names) win over titles.
+ */
+export function resolveApp(query: string, apps: AppEntry[], aliases: { alias: string; appId: string }[] = []): AppResolution {
+  const wanted = normalizeAppName(query);
+  const lowerQuery = String(query ?? "").trim().toLowerCase();
+  const title = (id: string) => apps.find((app) => app.id === id)?.title ?? id;
+
+  const byId = apps.find((app) => app.id.toLowerCase() === lowerQuery);
+  if (byId) return resolved(query, { ...byId, score: 1, matchedBy: "id" });
+
+  const aliased = aliases.find((entry) => entry.alias === wanted)?.appId;
+  if (aliased) return resolved(query, { id: aliased, title: title(aliased), score: 1, matchedBy: "alias" });
+
+  if (!wanted) return { status: "not-found", query, candidates: [] };
+
+  const exact = apps.filter((app) => normalizeAppName(app.title) === wanted);
+  if (exact.length === 1) return resolved(query, { ...exact[0], score: 1, matchedBy: "title" });
+  if (exact.length > 1) {
+    return { status: "ambiguous", query, candidates: exact.map((app) => ({ ...app, score: 1, matchedBy: "title" })) };
+  }
+
+  const scored = apps
+    .map((app): AppCandidate => ({ ...app, score: fuzzyScore(wanted, app), matchedBy: "fuzzy" }))
+    .filter((candidate) => candidate.score >= SUGGEST_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  const [best, next] = scored;
+  if (best && best.score >= MIN_SCORE && (!next || best.score - next.score >= MIN_LEAD)) {
+    return resolved(query, best);
+  }
+
+  const candidates = scored.slice(0, MAX_CANDIDATES).map(round);
+  return best && best.score >= MIN_SCORE
+    ? { status: "ambiguous", query, candidates }
+    : { status: "not-found", query, candidates };
+}
+
+function resolved(query: string, app: AppCandidate): AppResolution {
+  return { status: "resolved", query, app: round(app) };
+}
+
+function round(candidate: AppCandidate): AppCandidate {
+  return { ...candidate, score: Math.round(candidate.score * 100) / 100 };
+}
+
+/**
+ * Score how well a normalized query matches an app, 0 (not at all) to 1
+ */
+function fuzzyScore(wanted: string, app: AppEntry): number {
+  const title = normalizeAppName(app.title);
+  // Last part of reverse-domain ids carries the name: "com.webos.app.hdmi2" -> "hdmi2"
+  const idName = normalizeAppName(app.id.split(".").filter((part) => !/^(com|webos|app|lge|tv)$/.test(part)).join(""));
+
+  if (title.startsWith(wanted)) return 0.9;
+  if (title.includes(wanted)) return 0.8;
+  if (idName && (idName.startsWith(wanted) || wanted.startsWith(idName))) return 0.75;
+  if (idName.includes(wanted)) return 0.7;
+
+  return Math.max(similarity(wanted, title), similarity(wanted, idName)) * 0.85;
+}
+
+/**
+ * 1 - normalized Levenshtein distance
+ */
+export function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
@@ -0,0 +1,117 @@
+import type { SoundOutput } from "./ssap.js";
+
+/**
+ * Sound outputs accepted by ssap://audio/changeSoundOutput, with a human label
+ */
+export const SOUND_OUTPUTS: { id: SoundOutput; label: string }[] = [
+  { id: "tv_speaker", label: "TV speaker" },
+  { id: "external_arc", label: "HDMI ARC / eARC" },
+  { id: "external_optical", label: "Optical" },
+  { id: "bt_soundbar", label: "Bluetooth" },
+  { id: "headphone", label: "Wired headphones" },
+  { id: "lineout", label: "Line out" },
+  { id: "external_speaker", label: "External speaker" },
+  { id: "tv_external_speaker", label: "TV speaker + external speaker" },
+  { id: "tv_speaker_headphone", label: "TV speaker + headphones" },
+];
+
+// Friendly names for the same outputs. A "soundbar" is assumed to sit on HDMI ARC;
+// Bluetooth soundbars are reached with "bluetooth".
+const SOUND_OUTPUT_ALIASES: Record<string, SoundOutput> = {
+  speaker: "tv_speaker",
+  speakers: "tv_speaker",
+  tv: "tv_speaker",
+  internal: "tv_speaker",
+  arc: "external_arc",
+  earc: "external_arc",
+  hdmi: "external_arc",
+  hdmi_arc: "external_arc",
+  soundbar: "external_arc",
+  optical: "external_optical",
+  toslink: "external_optical",
+  spdif: "external_optical",
+  bluetooth: "bt_soundbar",
+  bt: "bt_soundbar",
+  bluetooth_soundbar: "bt_soundbar",
+  headphones: "headphone",
+  line_out: "lineout",
+};
+
+/**
+ * Resolve an output name (case-insensitive, aliases allowed) to a sound output
+ * @returns The output, or null if the TV does not know it
+ */
+export function parseSoundOutput(name: unknown): SoundOutput | null {
+  const id = String(name ?? "").trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if (SOUND_OUTPUTS.some((output) => output.id === id)) return id as SoundOutput;
+  return SOUND_OUTPUT_ALIASES[id] ?? null;
+}
+
+// ==================== SOUND SETTINGS ====================
+
+export const SOUND_MODES = ["aiSoundPlus", "standard", "clearVoice", "movie", "news", "sports", "music", "game"] as const;
+
+export type SoundMode = (typeof SOUND_MODES)[number];
+
+/**
+ * Sound settings read and written through the settings service ("sound" category)
+ */
+export interface SoundSettings {
+  soundMode: SoundMode;
+  // -50 (left) to 50 (right)
+  balance: number;
+  avSync: "on" | "off";
+  // Delay applied while avSync is on, in the steps shown by the TV menu
+  avSyncValue: number;
+}
+
+export const SOUND_SETTING_KEYS: (keyof SoundSettings)[] = ["soundMode", "balance", "avSync", "avSyncValue"];
+
+export const MAX_AV_SYNC_VALUE = 20;
+
+/**
+ * Validate a partial set of sound settings. Sound modes are matched case-insensitively
+ * and avSync also accepts booleans.
+ * @throws Error naming the first unknown key or invalid value
+ */
+export function parseSoundSettings(input: unknown): Partial<SoundSettings> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("settings must be an object");
+  }
+
+  const settings: Partial<SoundSettings> = {};
+  for (const [key, value] of Object.entries(input)) {
+    switch (key) {
+      case "soundMode": {
+        const mode = SOUND_MODES.find((m) => m.toLowerCase() === String(value).replace(/[\s_-]+/g, "").toLowerCase());
+        if (!mode) throw new Error(`Unknown soundMode: ${value}. Valid modes: ${SOUND_MODES.join(", ")}`);
+        settings.soundMode = mode;
+        break;
+      }
+      case "balance":
+        if (!Number.isInteger(value) || (value as number) < -50 || (value as number) > 50) {
+          throw new Error("balance must be an integer from -50 (left) to 50 (right)");
+        }
+        settings.balance = value as number;
+        break;
+      case "avSync":
+        if (value === true || value === "on") settings.avSync = "on";
+        else if (value === false || value === "off") settings.avSync = "off";
+        else throw new Error('avSync must be "on" or "off"');
+        break;
+      case "avSyncValue":
+        if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > MAX_AV_SYNC_VALUE) {
+          throw new Error(`avSyncValue must be an integer from 0 to ${MAX_AV_SYNC_VALUE}`);
+        }
+        settings.avSyncValue = value as number;
+        break;
+      default:
+        throw new Error(`Unknown sound setting: ${key}. Valid settings: ${SOUND_SETTING_KEYS.join(", ")}`);
+    }
+  }
+
+  if (Object.keys(settings).length === 0) {
+    throw new Error(`No sound settings given. Valid settings: ${SOUND_SETTING_KEYS.join(", ")}`);
+  }
+  return settings;
+}
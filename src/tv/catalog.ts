@@ -0,0 +1,240 @@
+import type { LGTVClient, RequestOptions } from "./client.js";
+import type { LaunchPoint, SSAPResponse } from "./ssap.js";
+import { tvDatabase } from "./database.js";
+import { normalizeChannel, type Channel } from "./channels.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("catalog");
+
+const LAUNCH_POINTS_URI = "ssap://com.webos.applicationManager/listLaunchPoints";
+const CHANNEL_LIST_URI = "ssap://tv/getChannelList";
+
+export interface CatalogApp {
+  id: string;
+  title: string;
+  icon?: string;
+  largeIcon?: string;
+  appType?: string;
+}
+
+/**
+ * Where an app list came from:
+ * live - read from the TV now, or kept current by the launch point subscription;
+ * cached - the list last stored for this TV, because the TV did not answer;
+ * fallback - common LG apps, because nothing is known about this TV
+ */
+export type AppCatalogSource = "live" | "cached" | "fallback";
+
+export interface AppCatalogSnapshot {
+  source: AppCatalogSource;
+  // When the list was last read from the TV, null for the fallback
+  refreshedAt: string | null;
+  apps: CatalogApp[];
+  // Why the TV could not be asked (cached and fallback only)
+  error?: string;
+}
+
+/**
+ * Common LG TV apps, listed when the TV cannot be asked and nothing is cached
+ */
+export const FALLBACK_APPS: CatalogApp[] = [
+  { id: "com.webos.app.home", title: "Home", icon: "🏠" },
+  { id: "com.webos.app.livetv", title: "Live TV", icon: "📺" },
+  { id: "youtube.leanback.v4", title: "YouTube", icon: "▶️" },
+  { id: "com.webos.app.hdmi1", title: "HDMI 1", icon: "🔌" },
+  { id: "com.webos.app.hdmi2", title: "HDMI 2", icon: "🔌" },
+  { id: "com.webos.app.hdmi3", title: "HDMI 3", icon: "🔌" },
+  { id: "com.webos.app.hdmi4", title: "HDMI 4", icon: "🔌" },
+  { id: "netflix", title: "Netflix", icon: "🎬" },
+  { id: "amazon", title: "Amazon Prime Video", icon: "📦" },
+  { id: "com.webos.app.browser", title: "Web Browser", icon: "🌐" },
+  { id: "spotify-beehive", title: "Spotify", icon: "🎵" },
+  { id: "com.webos.app.photovideo", title: "Photos & Videos", icon: "📷" },
+  { id: "com.webos.app.music", title: "Music", icon: "🎵" },
+  { id: "com.webos.app.discovery", title: "LG Content Store", icon: "🏪" },
+  { id: "com.webos.app.screenshare", title: "Screen Share", icon: "📱" },
+  { id: "com.webos.app.smartshare", title: "Smart Share", icon: "📂" },
+  { id: "com.webos.app.notificationcenter", title: "Notifications", icon: "🔔" },
+  { id: "com.webos.app.connectionwizard", title: "Connection Wizard", icon: "⚙️" },
+  { id: "com.webos.app.search", title: "Search", icon: "🔍" },
+  { id: "com.disney.disneyplus-prod", title: "Disney+", icon: "🏰" },
+  { id: "hulu", title: "Hulu", icon: "📺" },
+  { id: "com.webos.app.appletvplus", title: "Apple TV+", icon: "🍎" },
+  { id: "cdp-30", title: "Plex", icon: "▶️" },
+];
+
+/**
+ * The installed apps of one TV, cached in the database.
+ * While watching, the launch point subscription keeps the list current and records
+ * installs and removals; otherwise every list() asks the TV and compares with the cache.
+ */
+export class AppCatalog {
+  // Current list, only set while the subscription is up
+  private apps: CatalogApp[] | null = null;
+  private refreshedAt: string | null = null;
+  private stopWatch: Promise<() => void> | null = null;
+  private onDisconnected = () => {
+    this.apps = null;
+  };
+
+  constructor(private client: LGTVClient) {}
+
+  /**
+   * Subscribe to launch point changes (restored by the client after a reconnect)
+   */
+  watch(): void {
+    if (this.stopWatch) return;
+
+    this.client.on("disconnected", this.onDisconnected);
+    const started = this.client.sharedSubscriptions.subscribe(LAUNCH_POINTS_URI, (data) => this.handleUpdate(data));
+    this.stopWatch = started;
+
+    started.catch((err) => {
+      log.warn(`⚠️  Could not watch the apps of ${this.client.ip}`, { error: err.message });
+      if (this.stopWatch === started) this.stop();
+    });
+  }
+
+  /**
+   * Stop watching; the cache stays in the database
+   */
+  stop(): void {
+    this.client.off("disconnected", this.onDisconnected);
+    this.stopWatch?.then((unsubscribe) => unsubscribe(), () => {});
+    this.stopWatch = null;
+    this.apps = null;
+  }
+
+  /**
+   * List the installed apps: current if possible, else the cached list, else the common apps
+   */
+  async list(options: RequestOptions = {}): Promise<AppCatalogSnapshot> {
+    if (this.apps && this.client.isConnected()) {
+      return { source: "live", refreshedAt: this.refreshedAt, apps: this.apps };
+    }
+
+    let error: string;
+    try {
+      log.debug("📱 Requesting apps from TV...");
+      const result = await this.client.request(LAUNCH_POINTS_URI, undefined, options);
+      if (!("launchPoints" in result) || !Array.isArray(result.launchPoints)) {
+        throw new Error("Unexpected response structure");
+      }
+      const apps = this.store(result.launchPoints.map(toCatalogApp));
+      log.debug(`✅ Received ${apps.length} launch points from TV`);
+      return { source: "live", refreshedAt: new Date().toISOString(), apps };
+    } catch (err: any) {
+      // The caller gave up, nobody is waiting for a substitute
+      if (options.signal?.aborted) throw err;
+      error = err.message;
+    }
+
+    const cached = tvDatabase.getAppCatalog(this.client.ip);
+    if (cached) {
+      log.warn(`⚠️  Failed to list apps, using the list cached at ${cached.refreshedAt}`, { error });
+      return { source: "cached", ...cached, error };
+    }
+
+    log.warn("❌ Failed to list apps, using fallback common apps list", { error });
+    return { source: "fallback", refreshedAt: null, apps: FALLBACK_APPS, error };
+  }
+
+  /**
+   * The subscription sends the full list first (and after every reconnect),
+   * then either the full list again or just the launch point that changed
+   */
+  private handleUpdate(data: SSAPResponse<typeof LAUNCH_POINTS_URI>): void {
+    if ("launchPoints" in data && Array.isArray(data.launchPoints)) {
+      this.apps = this.store(data.launchPoints.map(toCatalogApp));
+      this.refreshedAt = new Date().toISOString();
+      return;
+    }
+
+    if (!("change" in data) || !this.apps) return;
+    const others = this.apps.filter((app) => app.id !== data.id);
+    this.apps = this.store(data.change === "removed" ? others : [...others, toCatalogApp(data)]);
+    this.refreshedAt = new Date().toISOString();
+  }
+
+  private store(apps: CatalogApp[]): CatalogApp[] {
+    // An app can have several launch points, the catalog lists it once
+    const unique = [...new Map(apps.map((app) => [app.id, app])).values()];
+    const changes = tvDatabase.saveAppCatalog(this.client.ip, unique);
+    for (const change of changes) {
+      log.info(`${change.change === "installed" ? "📥" : "🗑️ "} ${change.title} (${change.appId}) ${change.change} on ${this.client.ip}`);
+    }
+    return unique;
+  }
+}
+
+function toCatalogApp(point: LaunchPoint): CatalogApp {
+  return {
+    id: point.id,
+    title: point.title || point.id,
+    icon: point.icon,
+    largeIcon: point.largeIcon,
+    appType: point.appType,
+  };
+}
+
+export interface ChannelCatalogSnapshot {
+  // live: read from the TV on this connection; cached: the list last stored for this TV
+  source: "live" | "cached";
+  refreshedAt: string;
+  channels: Channel[];
+  // Why the TV could not be asked (cached only)
+  error?: string;
+}
+
+/**
+ * The channels of one TV, normalized and cached in the database. Channel lists only change
+ * with a channel scan, so the TV is asked once per connection unless a refresh is requested.
+ */
+export class ChannelCatalog {
+  private current: ChannelCatalogSnapshot | null = null;
+  // Registered while a list is kept, so it is read again on the next connection
+  private onDisconnected = () => {
+    this.stop();
+  };
+
+  constructor(private client: LGTVClient) {}
+
+  /**
+   * Forget the list read on this connection; the cache stays in the database
+   */
+  stop(): void {
+    this.client.off("disconnected", this.onDisconnected);
+    this.current = null;
+  }
+
+  /**
+   * List the channels, ordered by number
+   * @throws Error if the TV does not answer and no list is cached
+   */
+  async list(options: RequestOptions = {}, refresh: boolean = false): Promise<ChannelCatalogSnapshot> {
+    if (this.current && !refresh) return this.current;
+
+    let error: string;
+    try {
+      const { channelList } = await this.client.request(CHANNEL_LIST_URI, undefined, options);
+      if (!Array.isArray(channelList)) {
+        throw new Error("Unexpected response structure");
+      }
+      const channels = channelList.map(normalizeChannel).sort((a, b) => a.major - b.major || a.minor - b.minor);
+      tvDatabase.saveChannelCatalog(this.client.ip, channels);
+      if (!this.current) this.client.on("disconnected", this.onDisconnected);
+      this.current = { source: "live", refreshedAt: new Date().toISOString(), channels };
+      return this.current;
+    } catch (err: any) {
+      if (options.signal?.aborted) throw err;
+      error = err.message;
+    }
+
+    const cached = tvDatabase.getChannelCatalog(this.client.ip);
+    if (!cached) {
+      throw new Error(`Could not read the channel list: ${error}`);
+    }
+    log.warn(`⚠️  Failed to list channels, using the list cached at ${cached.refreshedAt}`, { error });
+    return { source: "cached", ...cached, error };
+  }
+}
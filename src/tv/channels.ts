@@ -0,0 +1,198 @@
+import type { TVChannel } from "./ssap.js";
+import { similarity } from "./apps.js";
+
+/**
+ * A channel as reported by ssap://tv/getChannelList, normalized
+ */
+export interface Channel {
+  id: string;
+  // "5.1", or "5" for channels without a minor number
+  number: string;
+  major: number;
+  minor: number;
+  name: string;
+  // As reported, e.g. "Terrestrial Digital TV"
+  type: string | null;
+  hd: boolean;
+  radio: boolean;
+  // Removed from the TV's channel list by the user
+  hidden: boolean;
+  // Left out by channel up/down
+  skipped: boolean;
+  locked: boolean;
+  logo: string | null;
+}
+
+export interface FavoriteChannel {
+  group: string;
+  // 1-based position in the group, stays put when other slots are removed
+  slot: number;
+  channelId: string;
+}
+
+export interface FavoriteGroup {
+  name: string;
+  // channel is null when the channel is no longer in the TV's list
+  channels: { slot: number; channelId: string; channel: Channel | null }[];
+}
+
+export type ChannelResolution =
+  | { status: "resolved"; query: string; channel: Channel; matchedBy: "id" | "number" | "name" | "fuzzy" | "favorite" }
+  | { status: "ambiguous"; query: string; candidates: Channel[] }
+  | { status: "not-found"; query: string; candidates: Channel[] };
+
+export const DEFAULT_FAVORITE_GROUP = "Favorites";
+
+// "fav 3", "favorite #3", "favourite 3"
+const FAVORITE_QUERY = /^fav(?:ou?rite)?\s*#?\s*(\d+)$/i;
+
+// Same thresholds as app names: lowest fuzzy score that counts, and the lead over the next match
+const MIN_SCORE = 0.6;
+const MIN_LEAD = 0.15;
+const SUGGEST_SCORE = 0.3;
+const MAX_CANDIDATES = 5;
+
+/**
+ * Parse a channel number: "5.1", "5-1", "5 1" or "005"
+ * @returns major and minor (null if not given), or null if this is not a channel number
+ */
+export function parseChannelNumber(input: string): { major: number; minor: number | null } | null {
+  const match = String(input ?? "").trim().match(/^(\d{1,5})(?:\s*[.\-_ ]\s*(\d{1,5}))?$/);
+  if (!match) return null;
+  return { major: Number(match[1]), minor: match[2] === undefined ? null : Number(match[2]) };
+}
+
+/**
+ * Normalize a channel from the TV. Numbers come from majorNumber/minorNumber when the TV
+ * reports them, else from channelNumber ("5-1", "005").
+ */
+export function normalizeChannel(raw: TVChannel): Channel {
+  const parsed = parseChannelNumber(raw.channelNumber);
+  const major = raw.majorNumber ?? parsed?.major ?? 0;
+  const minor = raw.minorNumber ?? parsed?.minor ?? 0;
+
+  return {
+    id: raw.channelId,
+    number: minor ? `${major}.${minor}` : `${major}`,
+    major,
+    minor,
+    name: raw.channelName || raw.channelNumber,
+    type: raw.channelTypeName ?? raw.channelType ?? null,
+    hd: !!raw.HDTV,
+    radio: !!raw.Radio,
+    hidden: !!raw.Invisible,
+    skipped: !!raw.skipped,
+    locked: !!raw.locked,
+    logo: raw.imgUrl || null,
+  };
+}
+
+/**
+ * Normalize a channel name for matching: "BBC One HD" -> "bbconehd"
+ */
+export function normalizeChannelName(name: string): string {
+  return String(name ?? "").toLowerCase().replace(/\+/g, " plus ").replace(/[^a-z0-9]+/g, "");
+}
+
+/**
+ * Resolve what someone called a channel to one channel: its id, a number ("5.1", or "5" for
+ * the first channel on 5), a name ("BBC One", or something close) or a slot of the default
+ * favorites group ("fav 3")
+ */
+export function resolveChannel(query: string, channels: Channel[], favorites: FavoriteChannel[] = []): ChannelResolution {
+  const raw = String(query ?? "").trim();
+
+  const byId = channels.find((channel) => channel.id === raw);
+  if (byId) return { status: "resolved", query, channel: byId, matchedBy: "id" };
+
+  const favorite = raw.match(FAVORITE_QUERY);
+  if (favorite) return resolveFavorite(Number(favorite[1]), DEFAULT_FAVORITE_GROUP, channels, favorites, query);
+
+  const number = parseChannelNumber(raw);
+  if (number) {
+    const onMajor = channels.filter((channel) => channel.major === number.major);
+    const matches = number.minor === null
+      ? onMajor.filter((channel) => channel.minor === 0)
+      : onMajor.filter((channel) => channel.minor === number.minor);
+    // "5" tunes the first channel on 5 when there is no plain 5
+    const [first] = matches.length > 0 ? matches : [...onMajor].sort((a, b) => a.minor - b.minor);
+    if (matches.length > 1) return { status: "ambiguous", query, candidates: matches };
+    if (first) return { status: "resolved", query, channel: first, matchedBy: "number" };
+    return { status: "not-found", query, candidates: [] };
+  }
+
+  const wanted = normalizeChannelName(raw);
+  if (!wanted) return { status: "not-found", query, candidates: [] };
+
+  const exact = channels.filter((channel) => normalizeChannelName(channel.name) === wanted);
+  if (exact.length === 1) return { status: "resolved", query, channel: exact[0], matchedBy: "name" };
+  if (exact.length > 1) return { status: "ambiguous", query, candidates: exact };
+
+  const scored = channels
+    .map((channel) => ({ channel, score: fuzzyScore(wanted, channel) }))
+    .filter(({ score }) => score >= SUGGEST_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  const [best, next] = scored;
+  if (best && best.score >= MIN_SCORE && (!next || best.score - next.score >= MIN_LEAD)) {
+    return { status: "resolved", query, channel: best.channel, matchedBy: "fuzzy" };
+  }
+
+  const candidates = scored.slice(0, MAX_CANDIDATES).map(({ channel }) => channel);
+  return best && best.score >= MIN_SCORE
+    ? { status: "ambiguous", query, candidates }
+    : { status: "not-found", query, candidates };
+}
+
+/**
+ * Resolve a slot of a favorites group (group names are case-insensitive)
+ */
+export function resolveFavorite(
+  slot: number,
+  group: string,
+  channels: Channel[],
+  favorites: FavoriteChannel[],
+  query: string = `${group} #${slot}`
+): ChannelResolution {
+  const entry = favorites.find((f) => f.slot === slot && f.group.toLowerCase() === group.toLowerCase());
+  const channel = entry && channels.find((c) => c.id === entry.channelId);
+  return channel
+    ? { status: "resolved", query, channel, matchedBy: "favorite" }
+    : { status: "not-found", query, candidates: [] };
+}
+
+/**
+ * Group favorite channels for display, with the channel each slot points at
+ */
+export function groupFavorites(favorites: FavoriteChannel[], channels: Channel[]): FavoriteGroup[] {
+  const groups = new Map<string, FavoriteGroup>();
+  for (const { group, slot, channelId } of favorites) {
+    const entry = groups.get(group.toLowerCase()) ?? { name: group, channels: [] };
+    entry.channels.push({ slot, channelId, channel: channels.find((c) => c.id === channelId) ?? null });
+    groups.set(group.toLowerCase(), entry);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Channels whose name contains the query, or whose number starts with it ("5" finds 5 and 5.1)
+ */
+export function searchChannels(query: string, channels: Channel[]): Channel[] {
+  const wanted = normalizeChannelName(query);
+  const number = parseChannelNumber(query);
+
+  return channels.filter((channel) =>
+    (wanted && normalizeChannelName(channel.name).includes(wanted)) ||
+    (number && channel.major === number.major && (number.minor === null || channel.minor === number.minor))
+  );
+}
+
+/**
+ * Score how well a normalized query matches a channel name, 0 (not at all) to 1
+ */
+function fuzzyScore(wanted: string, channel: Channel): number {
+  const name = normalizeChannelName(channel.name);
+  if (name.startsWith(wanted)) return 0.9;
+  if (name.includes(wanted)) return 0.8;
+  return similarity(wanted, name) * 0.85;
+}
@@ -1,11 +1,82 @@
 import { randomUUID } from "crypto";
-import WebSocket from "ws";
-import https from "https";
+import { EventEmitter } from "events";
+import { SOCKET_OPEN, webSocketTransport, type TVSocket, type TVTransport } from "./transport.js";
+import type { SSAPPayload, SSAPResponse, SSAPUri } from "./ssap.js";
+import { DEFAULT_PERMISSION_PROFILE, PROFILE_DETAILS, type PermissionProfile } from "./permissions.js";
+import { isStateEvent, STATE_EVENT_SOURCES, type StateEvent, type TVClientEvent, type TVClientEvents } from "./events.js";
+import { SubscriptionHub } from "./subscriptions.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("client");
+
+const CONNECT_TIMEOUT = 10000;
+const REQUEST_TIMEOUT = 10000;
+const REGISTRATION_TIMEOUT = 60000;
+const PIN_TIMEOUT = 30000;
+
+/**
+ * The error to reject with when a signal aborts: its reason if that is an Error
+ */
+export function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error("Request aborted");
+}
+
+/**
+ * The TV refused the stored client-key (revoked, or the TV was reset); only pairing again helps
+ */
+export class ClientKeyRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ClientKeyRejectedError";
+  }
+}
 
 export interface TVClientConfig {
   ip: string;
+  // wss (true) or ws (false); leave undefined to probe wss:3001 first, then ws:3000
   secure?: boolean;
+  // Override the WebSocket port (default: 3001 for wss, 3000 for ws)
+  port?: number;
   clientKey?: string;
+  // Reconnect automatically when the connection drops (default: true)
+  autoReconnect?: boolean;
+  // First reconnect delay in ms, doubled after every failed attempt (default: 1000)
+  reconnectBaseDelay?: number;
+  // Upper bound for the reconnect delay in ms (default: 30000)
+  reconnectMaxDelay?: number;
+  // How sockets are opened (default: real WebSockets)
+  transport?: TVTransport;
+  // SHA-256 certificate fingerprint recorded at pairing; secure connections presenting another certificate are refused
+  pinnedFingerprint?: string;
+  // Permissions asked for when registering (default: full-control)
+  permissionProfile?: PermissionProfile;
+}
+
+export interface TVEndpoint {
+  secure: boolean;
+  port: number;
+  url: string;
+}
+
+export interface RequestOptions {
+  // Give up after this many ms (the default depends on the call: 10 s for requests, 60 s for pairing)
+  timeout?: number;
+  // Cancel the call, e.g. when the HTTP client that asked for it went away
+  signal?: AbortSignal;
+}
+
+// Payload (when the URI takes one) followed by the request options
+export type SSAPRequestArgs<U extends SSAPUri> = {} extends SSAPPayload<U>
+  ? [payload?: SSAPPayload<U>, options?: RequestOptions]
+  : [payload: SSAPPayload<U>, options?: RequestOptions];
+
+export type PairingType = "PIN" | "PROMPT";
+
+export type PairingState = "none" | "requested" | "waiting-for-pin" | "waiting-for-prompt" | "paired" | "failed";
+
+interface Subscription {
+  uri: string;
+  callback: (data: any) => void;
 }
 
 export interface TVMessage {
@@ -16,7 +87,7 @@ export interface TVMessage {
   error?: string;
 }
 
-// Registration manifest from Python implementation
+// Registration manifest from Python implementation (without the unsigned permissions)
 const REGISTRATION_MANIFEST = {
   forcePairing: false,
   pairingType: "PIN",
@@ -59,63 +130,7 @@ const REGISTRATION_MANIFEST = {
       ],
       serial: "2f930e2d2cfe083771f68e4fe7bb07",
     },
-    permissions: [
-      "LAUNCH",
-      "LAUNCH_WEBAPP",
-      "APP_TO_APP",
-      "CLOSE",
-      "TEST_OPEN",
-      "TEST_PROTECTED",
-      "CONTROL_AUDIO",
-      "CONTROL_DISPLAY",
-      "CONTROL_INPUT_JOYSTICK",
-      "CONTROL_INPUT_MEDIA_RECORDING",
-      "CONTROL_INPUT_MEDIA_PLAYBACK",
-      "CONTROL_INPUT_TV",
-      "CONTROL_INPUT_TEXT",
-      "CONTROL_MOUSE_AND_KEYBOARD",
-      "CONTROL_POWER",
-      "READ_APP_STATUS",
-      "READ_CURRENT_CHANNEL",
-      "READ_INPUT_DEVICE_LIST",
-      "READ_NETWORK_STATE",
-      "READ_RUNNING_APPS",
-      "READ_INSTALLED_APPS",
-      "READ_TV_CHANNEL_LIST",
-      "WRITE_NOTIFICATION_TOAST",
-      "READ_POWER_STATE",
-      "READ_COUNTRY_INFO",
-      "READ_SETTINGS",
-      "CONTROL_TV_SCREEN",
-      "CONTROL_TV_STANBY",
-      "CONTROL_FAVORITE_GROUP",
-      "CONTROL_USER_INFO",
-      "CHECK_BLUETOOTH_DEVICE",
-      "CONTROL_BLUETOOTH",
-      "CONTROL_TIMER_INFO",
-      "STB_INTERNAL_CONNECTION",
-      "CONTROL_RECORDING",
-      "READ_RECORDING_STATE",
-      "WRITE_RECORDING_LIST",
-      "READ_RECORDING_LIST",
-      "READ_RECORDING_SCHEDULE",
-      "WRITE_RECORDING_SCHEDULE",
-      "READ_STORAGE_DEVICE_LIST",
-      "READ_TV_PROGRAM_INFO",
-      "CONTROL_BOX_CHANNEL",
-      "READ_TV_ACR_AUTH_TOKEN",
-      "READ_TV_CONTENT_STATE",
-      "READ_TV_CURRENT_TIME",
-      "ADD_LAUNCHER_CHANNEL",
-      "SET_CHANNEL_SKIP",
-      "RELEASE_CHANNEL_SKIP",
-      "CONTROL_CHANNEL_BLOCK",
-      "DELETE_SELECT_CHANNEL",
-      "CONTROL_CHANNEL_GROUP",
-      "SCAN_TV_CHANNELS",
-      "CONTROL_TV_POWER",
-      "CONTROL_WOL",
-    ],
+    // permissions come from the permission profile, see permissions.ts
     signatures: [
       {
         signatureVersion: 1,
@@ -126,80 +141,302 @@ const REGISTRATION_MANIFEST = {
   },
 };
 
+/**
+ * Client for one TV. Besides request()/subscribe() it emits typed events
+ * (see TVClientEvents): on("volumeChanged", ...) works without knowing SSAP URIs.
+ */
 export class LGTVClient {
-  private ws: any = null;
+  private ws: TVSocket | null = null;
   private config: TVClientConfig;
+  private transport: TVTransport;
   private pendingRequests = new Map<string, (response: TVMessage) => void>();
-  private subscriptions = new Map<string, (data: any) => void>();
+  private subscriptions = new Map<string, Subscription>();
   public clientKey: string | null = null;
-  private pointerSocket: any = null;
-  private pointerSocketPath: string | null = null;
+  // Fingerprint of the certificate presented on the last secure connection
+  public certificateFingerprint: string | null = null;
+  // Endpoint the last successful connection used
+  public endpoint: TVEndpoint | null = null;
+  // Set when reconnecting stopped for good: a certificate mismatch or a rejected client-key
+  public reconnectError: string | null = null;
+  // Profile the client registers with; TVCommands refuses URIs outside it
+  public readonly permissionProfile: PermissionProfile;
+  private pointerSocket: TVSocket | null = null;
+  // Path of the pointer socket once open, pending while it opens; shared by concurrent callers
+  private pointerSocketPath: Promise<string> | null = null;
   private pendingRegistrationId: string | null = null;
+  // Called whenever pairingState changes
+  private pairingListeners = new Set<() => void>();
+  // Progress of the pairing started by initiateRegistration()
+  public pairingState: PairingState = "none";
+  public pairingError: string | null = null;
+  private closedByUser = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  // Whether the TV accepted our registration on the current socket
+  private registered = false;
+  private events = new EventEmitter();
+  // State events someone listens to: their hub subscription once registered, null until then
+  private stateWatches = new Map<StateEvent, Promise<() => void> | null>();
+  // TV subscriptions shared by every listener (SSE clients, state events, ...)
+  public readonly sharedSubscriptions = new SubscriptionHub(this);
 
   constructor(config: TVClientConfig) {
     this.config = config;
+    this.transport = config.transport || webSocketTransport;
     this.clientKey = config.clientKey || null;
+    this.permissionProfile = config.permissionProfile ?? DEFAULT_PERMISSION_PROFILE;
+
+    // State events open their TV subscription with the first listener and close it with the last
+    this.events.on("newListener", (event: string | symbol) => {
+      if (isStateEvent(event) && !this.stateWatches.has(event)) {
+        this.stateWatches.set(event, null);
+        this.startStateWatches();
+      }
+    });
+    this.events.on("removeListener", (event: string | symbol) => {
+      if (isStateEvent(event) && this.events.listenerCount(event) === 0) {
+        this.stopStateWatch(event);
+      }
+    });
+  }
+
+  /**
+   * Listen to an event
+   */
+  on<E extends TVClientEvent>(event: E, listener: (...args: TVClientEvents[E]) => void): this {
+    this.events.on(event, listener as (...args: any[]) => void);
+    return this;
+  }
+
+  /**
+   * Listen to the next occurrence of an event
+   */
+  once<E extends TVClientEvent>(event: E, listener: (...args: TVClientEvents[E]) => void): this {
+    this.events.once(event, listener as (...args: any[]) => void);
+    return this;
+  }
+
+  /**
+   * Stop listening to an event
+   */
+  off<E extends TVClientEvent>(event: E, listener: (...args: TVClientEvents[E]) => void): this {
+    this.events.off(event, listener as (...args: any[]) => void);
+    return this;
+  }
+
+  /**
+   * Call the listeners of an event. A throwing listener is logged, it does not break the client.
+   */
+  private emit<E extends TVClientEvent>(event: E, ...args: TVClientEvents[E]): void {
+    for (const listener of this.events.listeners(event)) {
+      try {
+        listener(...args);
+      } catch (err: any) {
+        log.warn(`⚠️  ${event} listener failed`, { ip: this.config.ip, error: err.message });
+      }
+    }
+  }
+
+  /**
+   * Subscribe on the TV for every state event that has listeners but no subscription yet
+   */
+  private startStateWatches(): void {
+    if (!this.registered) return;
+
+    for (const [event, watch] of this.stateWatches) {
+      if (watch) continue;
+
+      const { uri, map } = STATE_EVENT_SOURCES[event];
+      const started = this.sharedSubscriptions.subscribe(uri, (data) => {
+        this.emit(event, (map as (data: any) => any)(data));
+      });
+      this.stateWatches.set(event, started);
+
+      started.catch((err) => {
+        log.warn(`⚠️  Could not watch ${event}`, { ip: this.config.ip, error: err.message });
+        // Try again with the next registration
+        if (this.stateWatches.get(event) === started) this.stateWatches.set(event, null);
+      });
+    }
+  }
+
+  /**
+   * Drop the TV subscription of a state event nobody listens to anymore
+   */
+  private stopStateWatch(event: StateEvent): void {
+    const watch = this.stateWatches.get(event);
+    this.stateWatches.delete(event);
+    watch?.then((unsubscribe) => unsubscribe(), () => {});
+  }
+
+  /**
+   * The TV accepted the registration: (re-)send subscriptions from now on
+   */
+  private markRegistered(paired: boolean): void {
+    this.registered = true;
+    this.restoreSubscriptions();
+    this.startStateWatches();
+    this.emit("registered", { paired });
+  }
+
+  /**
+   * Build the register payload, asking for the permissions of the client's profile
+   */
+  private registrationPayload(): Record<string, any> {
+    return {
+      ...REGISTRATION_MANIFEST,
+      manifest: {
+        ...REGISTRATION_MANIFEST.manifest,
+        permissions: PROFILE_DETAILS[this.permissionProfile].permissions,
+      },
+    };
   }
 
   /**
    * Connect to the TV
    */
-  async connect(): Promise<void> {
-    // LG TVs can use different ports depending on model/firmware
-    // Common ports: 3000, 3001 (standard)
-    const port = this.config.secure ? 3001 : 3000;
-    const protocol = this.config.secure ? "wss" : "ws";
-    const url = `${protocol}://${this.config.ip}:${port}/`;
+  async connect(options: RequestOptions = {}): Promise<void> {
+    this.closedByUser = false;
 
-    return new Promise((resolve, reject) => {
+    if (this.config.pinnedFingerprint && this.config.secure === false) {
+      throw new Error(`The certificate of ${this.config.ip} is pinned, refusing to connect without TLS`);
+    }
+
+    const candidates = this.candidateEndpoints();
+    const failures: string[] = [];
+
+    for (const endpoint of candidates) {
       try {
-        // Use ws package with proper TLS options for secure connections
-        const wsOptions: any = {};
-        
-        if (this.config.secure) {
-          // For secure connections, accept self-signed certificates
-          wsOptions.agent = new https.Agent({
-            rejectUnauthorized: false,
-          });
+        await this.openSocket(endpoint, options);
+        // Stick to what worked so reconnects go straight to it
+        this.config.secure = endpoint.secure;
+        this.endpoint = endpoint;
+        this.reconnectError = null;
+        return;
+      } catch (err: any) {
+        // A different certificate is a warning sign, not a reason to try plain ws
+        if (err.message.startsWith("Certificate mismatch") || options.signal?.aborted) {
+          throw err;
         }
+        if (candidates.length === 1) {
+          throw this.config.pinnedFingerprint
+            ? new Error(`${err.message} (not trying ws: the certificate of ${this.config.ip} is pinned)`)
+            : err;
+        }
+        log.warn(`❌ ${endpoint.url} failed`, { error: err.message });
+        failures.push(`${endpoint.url}: ${err.message}`);
+      }
+    }
+
+    throw new Error(`Could not connect to ${this.config.ip} on any port (${failures.join("; ")})`);
+  }
+
+  /**
+   * Endpoints to try, in order. Newer firmware refuses ws:3000, older sets have no wss:3001.
+   * With a pinned certificate only wss is tried: the client-key must not go out unencrypted.
+   */
+  private candidateEndpoints(): TVEndpoint[] {
+    const endpoint = (secure: boolean): TVEndpoint => {
+      const port = this.config.port ?? (secure ? 3001 : 3000);
+      return { secure, port, url: `${secure ? "wss" : "ws"}://${this.config.ip}:${port}/` };
+    };
+
+    if (this.config.secure !== undefined || this.config.pinnedFingerprint) {
+      return [endpoint(this.config.secure ?? true)];
+    }
+    return [endpoint(true), endpoint(false)];
+  }
+
+  /**
+   * IP address of the TV
+   */
+  get ip(): string {
+    return this.config.ip;
+  }
+
+  /**
+   * Whether the WebSocket to the TV is currently open
+   */
+  isConnected(): boolean {
+    return !!this.ws && this.ws.readyState === SOCKET_OPEN;
+  }
+
+  /**
+   * Whether the connection dropped and a reconnect is pending or in progress
+   */
+  isReconnecting(): boolean {
+    return this.reconnectAttempts > 0;
+  }
+
+  /**
+   * Open the WebSocket and wire up its handlers
+   */
+  private async openSocket({ secure, url }: TVEndpoint, options: RequestOptions = {}): Promise<void> {
+    const { timeout = CONNECT_TIMEOUT, signal } = options;
+    signal?.throwIfAborted();
 
-        this.ws = new WebSocket(url, wsOptions);
+    return new Promise((resolve, reject) => {
+      try {
+        const socket = this.transport.open(url, { secure });
+        this.ws = socket;
         
         let connected = false;
         let connectTimeout: any;
 
-        connectTimeout = setTimeout(() => {
+        const giveUp = (error: Error) => {
           if (!connected) {
-            this.ws?.close();
-            reject(new Error("Connection timeout after 10 seconds"));
+            if (this.ws === socket) this.ws = null;
+            socket.close();
+            reject(error);
           }
-        }, 10000);
+        };
+        const onAbort = () => giveUp(abortError(signal!));
+        const settle = () => {
+          clearTimeout(connectTimeout);
+          signal?.removeEventListener("abort", onAbort);
+        };
+
+        connectTimeout = setTimeout(() => giveUp(new Error(`Connection timeout after ${timeout / 1000} seconds`)), timeout);
+        signal?.addEventListener("abort", onAbort, { once: true });
 
-        this.ws.on('open', () => {
+        socket.on('open', () => {
           connected = true;
-          clearTimeout(connectTimeout);
-          console.log(`✅ Connected to TV at ${url}`);
+          settle();
+
+          // Check the certificate before anything (like the client-key) is sent
+          const certificateError = this.verifyCertificate(socket, secure);
+          if (certificateError) {
+            this.ws = null;
+            socket.close();
+            reject(certificateError);
+            return;
+          }
+
+          log.info(`✅ Connected to TV at ${url}`);
+          this.emit("connected", { url, secure });
           resolve();
         });
 
-        this.ws.on('error', (err: Error) => {
-          clearTimeout(connectTimeout);
-          console.error("❌ WebSocket error:", err.message);
+        socket.on('error', (err: Error) => {
+          settle();
+          log.error("❌ WebSocket error", { ip: this.config.ip, error: err.message });
           if (!connected) {
             reject(new Error(`Failed to connect to ${url}: ${err.message}`));
           }
         });
 
-        this.ws.on('message', (data: Buffer) => {
+        socket.on('message', (data: Buffer) => {
           this.handleMessage(data.toString());
         });
 
-        this.ws.on('close', (code: number, reason: Buffer) => {
-          clearTimeout(connectTimeout);
+        socket.on('close', (code: number, reason: Buffer) => {
+          settle();
           if (!connected) {
             reject(new Error(`Connection closed before handshake. Code: ${code}, Reason: ${reason.toString() || 'Unknown'}`));
-          } else {
-            console.log("TV connection closed");
+          } else if (this.ws === socket) {
+            // Unexpected drop (TV rebooted, Wi-Fi hiccup, ...)
+            log.warn("TV connection closed", { ip: this.config.ip });
+            this.handleConnectionLost();
           }
         });
       } catch (err: any) {
@@ -209,14 +446,164 @@ export class LGTVClient {
   }
 
   /**
-   * Initiate registration with PIN pairing
-   * This displays a PIN on the TV screen that must be entered via completePairing()
-   * @returns Promise that resolves when PIN is displayed on TV
+   * Compare the certificate of a secure socket with the pinned fingerprint (trust on first use)
+   * @returns An error if the TV presented a different certificate
+   */
+  private verifyCertificate(socket: TVSocket, secure: boolean): Error | null {
+    if (!secure) return null;
+
+    const actual = socket.peerFingerprint ?? null;
+    const expected = this.config.pinnedFingerprint;
+    if (expected && actual !== expected) {
+      log.error(`🚨 Certificate mismatch for ${this.config.ip}`, { expected, actual });
+      return new Error(
+        `Certificate mismatch for ${this.config.ip}: expected ${expected}, got ${actual ?? "no certificate"}. ` +
+        `Another device may be impersonating the TV. If the TV was reset or updated, re-trust its certificate.`
+      );
+    }
+
+    this.certificateFingerprint = actual;
+    return null;
+  }
+
+  /**
+   * Tear down the dead socket, fail in-flight requests and start reconnecting
+   */
+  private handleConnectionLost(): void {
+    this.ws = null;
+    this.registered = false;
+
+    if (this.pointerSocket) {
+      this.pointerSocket.close();
+      this.pointerSocket = null;
+      this.pointerSocketPath = null;
+    }
+
+    // Pending handlers all treat an error message as a failure
+    for (const [id, handler] of this.pendingRequests) {
+      handler({ type: "error", id, error: "Connection closed" });
+    }
+    this.pendingRequests.clear();
+    this.pendingRegistrationId = null;
+
+    const willReconnect = this.config.autoReconnect !== false && !this.closedByUser;
+    this.emit("disconnected", { reason: "lost", willReconnect });
+    if (willReconnect) {
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Schedule the next reconnect attempt with exponential backoff
+   */
+  private scheduleReconnect(): void {
+    if (this.closedByUser || this.reconnectTimer) return;
+
+    const baseDelay = this.config.reconnectBaseDelay ?? 1000;
+    const maxDelay = this.config.reconnectMaxDelay ?? 30000;
+    const delay = Math.min(baseDelay * 2 ** this.reconnectAttempts, maxDelay);
+    this.reconnectAttempts++;
+
+    log.info(`🔄 Reconnecting to ${this.config.ip} in ${delay}ms (attempt ${this.reconnectAttempts})...`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnect();
+    }, delay);
+  }
+
+  /**
+   * Skip the backoff delay and reconnect immediately (e.g. once the TV is known to be awake)
+   * @returns true if the connection was restored
+   */
+  async reconnectNow(): Promise<boolean> {
+    if (this.closedByUser) throw new Error("Client was disconnected");
+    if (this.isConnected()) return true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+    return this.reconnect();
+  }
+
+  /**
+   * Reopen the socket, re-authenticate and restore every subscription
+   * @returns true if the connection was restored
+   */
+  private async reconnect(): Promise<boolean> {
+    try {
+      await this.openSocket(this.endpoint ?? this.candidateEndpoints()[0]);
+      if (this.closedByUser) {
+        this.disconnect();
+        return false;
+      }
+
+      // Registering restores the subscriptions
+      if (this.clientKey) {
+        await this.registerWithStoredKey();
+      }
+
+      this.reconnectAttempts = 0;
+      log.info(`✅ Reconnected to ${this.config.ip}`);
+      return true;
+    } catch (err: any) {
+      log.error(`❌ Reconnect to ${this.config.ip} failed`, { error: err.message });
+
+      // Drop a half-open socket without triggering another close handler
+      const socket = this.ws;
+      this.ws = null;
+      socket?.close();
+
+      // Retrying cannot fix a different certificate, so stop until the TV is re-trusted
+      if (err.message.startsWith("Certificate mismatch")) {
+        this.reconnectAttempts = 0;
+        this.reconnectError = err.message;
+        this.emit("disconnected", { reason: "certificate-mismatch", willReconnect: false });
+        return false;
+      }
+
+      // Neither can retrying bring back a client-key the TV no longer accepts
+      if (err instanceof ClientKeyRejectedError) {
+        this.reconnectAttempts = 0;
+        this.reconnectError = err.message;
+        this.emit("disconnected", { reason: "rejected", willReconnect: false });
+        return false;
+      }
+
+      this.scheduleReconnect();
+      return false;
+    }
+  }
+
+  /**
+   * Re-issue every active subscription under its original id so callbacks keep firing
+   */
+  private restoreSubscriptions(): void {
+    for (const [id, { uri }] of this.subscriptions) {
+      this.send({ type: "subscribe", id, uri });
+    }
+    if (this.subscriptions.size > 0) {
+      log.info(`📡 Restored ${this.subscriptions.size} subscription(s)`, { ip: this.config.ip });
+    }
+  }
+
+  /**
+   * Initiate registration.
+   * PIN pairing displays a PIN on the TV screen that must be entered via completePairing().
+   * PROMPT pairing shows an Accept/Decline dialog; the client-key arrives once the user accepts
+   * (see waitForPairing()). The TV may answer with the other mode than the one requested.
+   * The timeout (default 60 s) covers the whole pairing, not just until the PIN is shown.
+   * @returns Promise that resolves when the PIN or prompt is displayed on TV, or when already registered
    */
-  async initiateRegistration(): Promise<{ requiresPIN: boolean }> {
+  async initiateRegistration(
+    pairingType: PairingType = "PIN",
+    options: RequestOptions = {}
+  ): Promise<{ requiresPIN: boolean; requiresPrompt: boolean }> {
     if (!this.ws) throw new Error("Not connected");
+    options.signal?.throwIfAborted();
 
-    const payload: any = { ...REGISTRATION_MANIFEST };
+    const payload: any = { ...this.registrationPayload(), pairingType };
     
     if (this.clientKey) {
       payload["client-key"] = this.clientKey;
@@ -229,57 +616,123 @@ export class LGTVClient {
     };
 
     this.pendingRegistrationId = message.id;
+    this.setPairingState("requested");
 
     return new Promise((resolve, reject) => {
+      const { release, cancel } = this.trackPending(message.id, options, REGISTRATION_TIMEOUT, "Registration timeout", (err) => {
+        this.pendingRegistrationId = null;
+        this.setPairingState("failed", err.message);
+        reject(err);
+      });
+
       const checkResponse = (msg: TVMessage) => {
         if (msg.type === "response" && msg.payload?.pairingType === "PIN") {
-          console.log("🔑 PIN displayed on TV");
-          resolve({ requiresPIN: true });
+          log.info("🔑 PIN displayed on TV", { ip: this.config.ip });
+          this.setPairingState("waiting-for-pin");
+          this.emit("pairingRequired", { pairingType: "PIN" });
+          resolve({ requiresPIN: true, requiresPrompt: false });
           // Keep handler active to receive "registered" message after PIN entry
         } else if (msg.type === "response" && msg.payload?.pairingType === "PROMPT") {
-          console.log("⚠️  Please accept the pairing request on your TV");
+          log.info("⚠️  Please accept the pairing request on your TV", { ip: this.config.ip });
+          this.setPairingState("waiting-for-prompt");
+          this.emit("pairingRequired", { pairingType: "PROMPT" });
+          resolve({ requiresPIN: false, requiresPrompt: true });
+          // Keep handler active to receive "registered" message once accepted
         } else if (msg.type === "registered") {
+          release();
           this.clientKey = msg.payload["client-key"];
           this.pendingRequests.delete(message.id);
           this.pendingRegistrationId = null;
-          console.log("✅ Successfully paired with TV");
+          log.info("✅ Successfully paired with TV", { ip: this.config.ip, profile: this.permissionProfile });
+          // Only a fresh pairing went through a PIN or prompt
+          this.markRegistered(this.pairingState !== "requested");
+          this.setPairingState("paired");
           // If TV immediately returns registered (e.g. stored client-key), resolve
-          try {
-            resolve({ requiresPIN: false });
-          } catch {}
+          resolve({ requiresPIN: false, requiresPrompt: false });
         } else if (msg.type === "error") {
+          release();
           this.pendingRequests.delete(message.id);
           this.pendingRegistrationId = null;
+          this.setPairingState("failed", msg.error || "Registration failed");
           reject(new Error(msg.error || "Registration failed"));
         }
       };
 
       this.pendingRequests.set(message.id, checkResponse);
-      this.send(message);
+      try {
+        this.send(message);
+      } catch (err: any) {
+        cancel(err);
+      }
+    });
+  }
 
-      setTimeout(() => {
-        if (this.pendingRequests.has(message.id) && !this.clientKey) {
-          this.pendingRequests.delete(message.id);
-          this.pendingRegistrationId = null;
-          reject(new Error("Registration timeout"));
+  /**
+   * Wait until a pairing started with initiateRegistration() completes
+   * (PIN entered or prompt accepted on the TV)
+   * @returns Promise that resolves with the client-key, or rejects if the pairing was declined, timed out or aborted
+   */
+  waitForPairing(options: RequestOptions = {}): Promise<string> {
+    return this.untilPaired(options, "Pairing timeout");
+  }
+
+  private untilPaired(options: RequestOptions, timeoutMessage: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const { signal } = options;
+
+      const finish = (settle: () => void) => {
+        this.pairingListeners.delete(check);
+        signal?.removeEventListener("abort", onAbort);
+        clearTimeout(timer);
+        settle();
+      };
+      const check = () => {
+        if (this.pairingState === "paired" && this.clientKey) {
+          finish(() => resolve(this.clientKey!));
+        } else if (this.pairingState === "failed" || this.pairingState === "none") {
+          finish(() => reject(new Error(this.pairingError || "Pairing failed")));
         }
-      }, 60000);
+      };
+      const onAbort = () => finish(() => reject(abortError(signal!)));
+
+      if (signal?.aborted) return onAbort();
+
+      this.pairingListeners.add(check);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (options.timeout !== undefined) {
+        timer = setTimeout(() => finish(() => reject(new Error(timeoutMessage))), options.timeout);
+      }
+      // The pairing may already be over
+      check();
     });
   }
 
+  /**
+   * Update the pairing progress and wake up everyone waiting for it
+   */
+  private setPairingState(state: PairingState, error: string | null = null): void {
+    this.pairingState = state;
+    this.pairingError = error;
+    for (const listener of [...this.pairingListeners]) {
+      listener();
+    }
+  }
+
   /**
    * Complete pairing by submitting the PIN displayed on TV
    * Uses ssap://pairing/setPin to verify the PIN and receive client-key
    * @param pin - The PIN code displayed on the TV screen
-   * @returns Promise that resolves with the client-key when pairing is complete
+   * @returns Promise that resolves with the client-key when pairing is complete (default timeout: 30 s)
    */
-  async completePairing(pin: string): Promise<string> {
+  async completePairing(pin: string, options: RequestOptions = {}): Promise<string> {
     if (!this.ws) throw new Error("Not connected");
     if (!this.pendingRegistrationId) {
       throw new Error("No pending registration. Call initiateRegistration() first.");
     }
+    options.signal?.throwIfAborted();
 
-    console.log(`🔑 Submitting PIN: ${pin}`);
+    log.info("🔑 Submitting PIN", { ip: this.config.ip });
     
     const message = {
       type: "request",
@@ -292,26 +745,8 @@ export class LGTVClient {
 
     this.send(message);
     
-    // Wait for the registration handler to receive "registered" message
-    return new Promise((resolve, reject) => {
-      const checkInterval = setInterval(() => {
-        if (!this.pendingRegistrationId) {
-          clearInterval(checkInterval);
-          if (this.clientKey) {
-            resolve(this.clientKey);
-          } else {
-            reject(new Error("Pairing failed"));
-          }
-        }
-      }, 100);
-      
-      setTimeout(() => {
-        clearInterval(checkInterval);
-        if (this.pendingRegistrationId) {
-          reject(new Error("PIN entry timeout"));
-        }
-      }, 30000);
-    });
+    // The registration handler receives the "registered" message
+    return this.untilPaired({ signal: options.signal, timeout: options.timeout ?? PIN_TIMEOUT }, "PIN entry timeout");
   }
 
   /**
@@ -319,13 +754,14 @@ export class LGTVClient {
    * Sends registration manifest with permissions even when we have a client-key
    * @returns Promise that resolves with the client-key when authenticated
    */
-  async registerWithStoredKey(): Promise<string> {
+  async registerWithStoredKey(options: RequestOptions = {}): Promise<string> {
     if (!this.ws) throw new Error("Not connected");
     if (!this.clientKey) throw new Error("No client-key available");
+    options.signal?.throwIfAborted();
 
-    console.log("🔐 Authenticating with stored client-key...");
+    log.info("🔐 Authenticating with stored client-key...", { ip: this.config.ip });
 
-    const payload: any = { ...REGISTRATION_MANIFEST };
+    const payload: any = this.registrationPayload();
     payload["client-key"] = this.clientKey;
     
     const message = {
@@ -335,26 +771,29 @@ export class LGTVClient {
     };
 
     return new Promise((resolve, reject) => {
+      const { release, cancel } = this.trackPending(message.id, options, REQUEST_TIMEOUT, "Authentication timeout", reject);
+
       const checkResponse = (msg: TVMessage) => {
         if (msg.type === "registered") {
-          console.log("✅ Authenticated with stored credentials");
+          log.info("✅ Authenticated with stored credentials", { ip: this.config.ip });
+          release();
           this.pendingRequests.delete(message.id);
+          this.markRegistered(false);
           resolve(this.clientKey || "");
-        } else if (msg.type === "error") {
+        } else if (msg.type === "error" || msg.payload?.pairingType) {
+          // A TV that forgot the key answers with an error or starts pairing anew
+          release();
           this.pendingRequests.delete(message.id);
-          reject(new Error(msg.error || "Authentication failed"));
+          reject(new ClientKeyRejectedError(msg.error || `${this.config.ip} no longer accepts the stored client-key`));
         }
       };
 
       this.pendingRequests.set(message.id, checkResponse);
-      this.send(message);
-
-      setTimeout(() => {
-        if (this.pendingRequests.has(message.id)) {
-          this.pendingRequests.delete(message.id);
-          reject(new Error("Authentication timeout"));
-        }
-      }, 10000);
+      try {
+        this.send(message);
+      } catch (err: any) {
+        cancel(err);
+      }
     });
   }
 
@@ -362,30 +801,34 @@ export class LGTVClient {
    * Register/authenticate with the TV (legacy method for backward compatibility)
    * @param pin - Optional 6-digit PIN code shown on TV screen
    */
-  async register(pin?: string): Promise<string> {
+  async register(pin?: string, options: RequestOptions = {}): Promise<string> {
     if (pin) {
-      return this.completePairing(pin);
+      return this.completePairing(pin, options);
     }
     
     // If we have a client-key, just authenticate with it
     if (this.clientKey) {
-      return this.registerWithStoredKey();
+      return this.registerWithStoredKey(options);
     }
     
-    const result = await this.initiateRegistration();
+    const result = await this.initiateRegistration("PIN", options);
     if (result.requiresPIN) {
       throw new Error("PIN required. Use completePairing() or call /api/pair endpoint.");
     }
+    if (result.requiresPrompt) {
+      return this.waitForPairing(options);
+    }
     
-    // If no PIN required, should have been registered already
+    // If no PIN or prompt required, should have been registered already
     return this.clientKey || "";
   }
 
   /**
-   * Send a request to the TV
+   * Send a request to the TV. Payload and response types come from the SSAP catalog (./ssap.ts).
    */
-  async request(uri: string, payload?: any): Promise<any> {
+  async request<U extends SSAPUri>(uri: U, ...[payload, options = {}]: SSAPRequestArgs<U>): Promise<SSAPResponse<U>> {
     if (!this.ws) throw new Error("Not connected");
+    options.signal?.throwIfAborted();
 
     const message: TVMessage = {
       type: "request",
@@ -395,7 +838,10 @@ export class LGTVClient {
     };
 
     return new Promise((resolve, reject) => {
+      const { release, cancel } = this.trackPending(message.id, options, REQUEST_TIMEOUT, "Request timeout", reject);
+
       this.pendingRequests.set(message.id, (response: TVMessage) => {
+        release();
         this.pendingRequests.delete(message.id);
 
         if (response.type === "error") {
@@ -407,26 +853,53 @@ export class LGTVClient {
         }
       });
 
-      this.send(message);
-
-      // Timeout after 10 seconds
-      setTimeout(() => {
-        if (this.pendingRequests.has(message.id)) {
-          this.pendingRequests.delete(message.id);
-          reject(new Error("Request timeout"));
-        }
-      }, 10000);
+      try {
+        this.send(message);
+      } catch (err: any) {
+        cancel(err);
+      }
     });
   }
 
+  /**
+   * Cancel a message awaiting an answer once its timeout passes or its signal aborts:
+   * the pending entry is removed and onCancel called with the reason
+   * @returns release stops watching (call it when the answer arrived), cancel gives up
+   * right away (e.g. when the message could not be sent)
+   */
+  private trackPending(
+    id: string,
+    options: RequestOptions,
+    defaultTimeout: number,
+    timeoutMessage: string,
+    onCancel: (error: Error) => void
+  ): { release: () => void; cancel: (error: Error) => void } {
+    const { timeout = defaultTimeout, signal } = options;
+
+    const cancel = (error: Error) => {
+      release();
+      this.pendingRequests.delete(id);
+      onCancel(error);
+    };
+    const onAbort = () => cancel(abortError(signal!));
+    const timer = setTimeout(() => cancel(new Error(timeoutMessage)), timeout);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const release = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    return { release, cancel };
+  }
+
   /**
    * Call Luna Service API using the createAlert hack
    * This exploits the alert dialog's onClick/onclose handlers to trigger Luna services
    */
-  async callLunaService(uri: string, params: any): Promise<any> {
+  async callLunaService(uri: string, params: any, options: RequestOptions = {}): Promise<any> {
     if (!this.ws) throw new Error("Not connected");
 
-    console.log(`🌙 Calling Luna service: ${uri}`);
+    log.info(`🌙 Calling Luna service: ${uri}`);
 
     // Step 1: Create alert with Luna service call in onclose
     const alertPayload = {
@@ -442,7 +915,7 @@ export class LGTVClient {
       }
     };
 
-    const alertResponse = await this.request("ssap://system.notifications/createAlert", alertPayload);
+    const alertResponse = await this.request("ssap://system.notifications/createAlert", alertPayload, options);
     const alertId = alertResponse.alertId;
 
     if (!alertId) {
@@ -450,9 +923,9 @@ export class LGTVClient {
     }
 
     // Step 2: Immediately close the alert to trigger the onclose handler
-    await this.request("ssap://system.notifications/closeAlert", { alertId });
+    await this.request("ssap://system.notifications/closeAlert", { alertId }, options);
 
-    console.log(`✅ Luna service triggered: ${uri}`);
+    log.info(`✅ Luna service triggered: ${uri}`);
     
     // Note: Luna service results are not directly returned
     // The TV executes the service internally
@@ -462,11 +935,16 @@ export class LGTVClient {
   /**
    * Subscribe to real-time events
    */
-  async subscribe(uri: string, callback: (data: any) => void): Promise<string> {
+  async subscribe<U extends SSAPUri>(
+    uri: U,
+    callback: (data: SSAPResponse<U>) => void,
+    options: RequestOptions = {}
+  ): Promise<string> {
     if (!this.ws) throw new Error("Not connected");
+    options.signal?.throwIfAborted();
 
     const subscriptionId = randomUUID();
-    this.subscriptions.set(subscriptionId, callback);
+    this.subscriptions.set(subscriptionId, { uri, callback: callback as (data: any) => void });
 
     const message: TVMessage = {
       type: "subscribe",
@@ -474,7 +952,15 @@ export class LGTVClient {
       uri,
     };
 
-    this.send(message);
+    try {
+      this.send(message);
+    } catch (err) {
+      this.subscriptions.delete(subscriptionId);
+      throw err;
+    }
+
+    // Unsubscribe automatically once the caller goes away
+    options.signal?.addEventListener("abort", () => this.unsubscribe(subscriptionId, uri), { once: true });
     return subscriptionId;
   }
 
@@ -490,48 +976,71 @@ export class LGTVClient {
       uri,
     };
 
-    this.send(message);
+    // Nothing to tell the TV if the socket is already gone
+    if (this.ws?.readyState === SOCKET_OPEN) {
+      this.send(message);
+    }
   }
 
   /**
    * Get pointer input socket for remote control buttons
    */
-  async getPointerInputSocket(): Promise<string> {
-    if (this.pointerSocketPath && this.pointerSocket) {
-      return this.pointerSocketPath;
+  async getPointerInputSocket(options: RequestOptions = {}): Promise<string> {
+    if (!this.pointerSocketPath) {
+      // The open is shared, so one caller's signal must not abort it for the others
+      const opening = this.openPointerSocket({ timeout: options.timeout });
+      this.pointerSocketPath = opening;
+      opening.catch(() => {
+        if (this.pointerSocketPath === opening) this.pointerSocketPath = null;
+      });
     }
 
-    const response = await this.request("ssap://com.webos.service.networkinput/getPointerInputSocket");
+    const socketPath = await this.pointerSocketPath;
+    options.signal?.throwIfAborted();
+    return socketPath;
+  }
+
+  private async openPointerSocket(options: RequestOptions): Promise<string> {
+    const response = await this.request("ssap://com.webos.service.networkinput/getPointerInputSocket", undefined, options);
     
     if (!response.socketPath) {
       throw new Error("No pointer socket path returned");
     }
 
-    this.pointerSocketPath = response.socketPath;
+    const secure = response.socketPath.startsWith("wss:");
+    // Plain ws would skip the certificate check below
+    if (!secure && this.config.pinnedFingerprint) {
+      throw new Error(`Refusing the unencrypted pointer socket of ${this.config.ip}, its certificate is pinned`);
+    }
     
     // Connect to pointer input socket
-    const wsOptions: any = {};
-    if (this.config.secure) {
-      wsOptions.agent = new https.Agent({
-        rejectUnauthorized: false,
-      });
-    }
-
     return new Promise((resolve, reject) => {
-      this.pointerSocket = new WebSocket(response.socketPath, wsOptions);
+      const socket = this.transport.open(response.socketPath, { secure });
+      this.pointerSocket = socket;
       
-      this.pointerSocket.on('open', () => {
-        console.log("✅ Pointer input socket connected");
+      socket.on('open', () => {
+        // The pointer socket is served by the same TV, so it must present the same certificate
+        const expected = this.config.pinnedFingerprint ?? this.certificateFingerprint;
+        if (secure && expected && socket.peerFingerprint !== expected) {
+          socket.close();
+          reject(new Error(`Certificate mismatch on pointer socket for ${this.config.ip}`));
+          return;
+        }
+
+        log.info("✅ Pointer input socket connected", { ip: this.config.ip });
         resolve(response.socketPath);
       });
 
-      this.pointerSocket.on('error', (err: Error) => {
-        console.error("❌ Pointer socket error:", err.message);
+      socket.on('error', (err: Error) => {
+        log.error("❌ Pointer socket error", { ip: this.config.ip, error: err.message });
         reject(err);
       });
 
-      this.pointerSocket.on('close', () => {
-        console.log("Pointer socket closed");
+      socket.on('close', () => {
+        log.debug("Pointer socket closed", { ip: this.config.ip });
+        // Rejects an open that never completed; a no-op once it resolved
+        reject(new Error("Pointer socket closed"));
+        if (this.pointerSocket !== socket) return;
         this.pointerSocket = null;
         this.pointerSocketPath = null;
       });
@@ -541,31 +1050,69 @@ export class LGTVClient {
   /**
    * Send button press through pointer input socket
    */
-  async sendButton(button: string): Promise<void> {
-    await this.getPointerInputSocket();
-    
-    if (!this.pointerSocket || this.pointerSocket.readyState !== WebSocket.OPEN) {
+  async sendButton(button: string, options: RequestOptions = {}): Promise<void> {
+    // Button message format for webOS
+    await this.sendPointerFrame(`type:button\nname:${button}\n\n`, options);
+    log.debug(`📤 Button pressed: ${button}`);
+  }
+
+  /**
+   * Move the Magic Remote cursor by a relative offset (in screen pixels)
+   * @param drag - Hold the pointer button down while moving
+   */
+  async movePointer(dx: number, dy: number, drag: boolean = false, options: RequestOptions = {}): Promise<void> {
+    await this.sendPointerFrame(`type:move\ndx:${Math.round(dx)}\ndy:${Math.round(dy)}\ndown:${drag ? 1 : 0}\n\n`, options);
+  }
+
+  /**
+   * Scroll at the cursor position (positive dy scrolls down)
+   */
+  async scroll(dx: number, dy: number, options: RequestOptions = {}): Promise<void> {
+    await this.sendPointerFrame(`type:scroll\ndx:${Math.round(dx)}\ndy:${Math.round(dy)}\n\n`, options);
+  }
+
+  /**
+   * Click at the cursor position
+   */
+  async click(options: RequestOptions = {}): Promise<void> {
+    await this.sendPointerFrame(`type:click\n\n`, options);
+  }
+
+  /**
+   * Write a raw frame to the pointer input socket, opening it if needed
+   */
+  private async sendPointerFrame(frame: string, options: RequestOptions): Promise<void> {
+    await this.getPointerInputSocket(options);
+    options.signal?.throwIfAborted();
+
+    if (!this.pointerSocket || this.pointerSocket.readyState !== SOCKET_OPEN) {
       throw new Error("Pointer socket not connected");
     }
 
-    // Button message format for webOS
-    const message = `type:button\nname:${button}\n\n`;
-    this.pointerSocket.send(message);
-    console.log(`📤 Button pressed: ${button}`);
+    this.pointerSocket.send(frame);
   }
 
   /**
    * Close connection
    */
   disconnect(): void {
+    this.closedByUser = true;
+    this.reconnectAttempts = 0;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
     if (this.pointerSocket) {
       this.pointerSocket.close();
       this.pointerSocket = null;
       this.pointerSocketPath = null;
     }
     if (this.ws) {
-      this.ws.close();
+      const socket = this.ws;
       this.ws = null;
+      this.registered = false;
+      socket.close();
+      this.emit("disconnected", { reason: "closed", willReconnect: false });
     }
   }
 
@@ -573,11 +1120,11 @@ export class LGTVClient {
    * Send message to TV
    */
   private send(message: any): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+    if (!this.ws || this.ws.readyState !== SOCKET_OPEN) {
       throw new Error("Not connected");
     }
     const msg = JSON.stringify(message);
-    console.log("📤 Sending to TV:", msg);
+    log.debug("📤 Sending to TV", { ip: this.config.ip, message });
     this.ws.send(msg);
   }
 
@@ -587,8 +1134,7 @@ export class LGTVClient {
   private handleMessage(data: string): void {
     try {
       const message: TVMessage = JSON.parse(data);
-      console.log(data)
-      console.log("📩 TV Message:", JSON.stringify(message));
+      log.debug("📩 TV Message", { ip: this.config.ip, message });
 
       // Check if this is a response to a pending request
       if (message.id && this.pendingRequests.has(message.id)) {
@@ -599,14 +1145,14 @@ export class LGTVClient {
 
       // Check if this is a subscription update
       if (message.id && this.subscriptions.has(message.id)) {
-        const callback = this.subscriptions.get(message.id);
-        if (callback) callback(message.payload);
+        const subscription = this.subscriptions.get(message.id);
+        if (subscription) subscription.callback(message.payload);
         return;
       }
 
-      console.log("⚠️  Unhandled message:", message);
+      log.debug("⚠️  Unhandled message", { ip: this.config.ip, message });
     } catch (err) {
-      console.error("❌ Failed to parse message:", err);
+      log.error("❌ Failed to parse message", { ip: this.config.ip, error: err });
     }
   }
 }
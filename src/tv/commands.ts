@@ -1,75 +1,190 @@
-import { LGTVClient } from "./client";
+import { LGTVClient, abortError, type RequestOptions, type SSAPRequestArgs } from "./client";
+import type { SoundOutput, SSAPResponse, SSAPUri } from "./ssap.js";
+import { assertProfileAllows } from "./permissions.js";
+import { normalizeKey, parseKeySequence, type KeyStep, type RemoteKey } from "./keys.js";
+import { SOUND_SETTING_KEYS, type SoundSettings } from "./audio.js";
+import { keyboardState, type KeyboardState } from "./events.js";
+import type { DeepLink } from "./deeplinks.js";
+import { AppNotRunningError, resolveApp, type AppResolution } from "./apps.js";
+import { AppCatalog, ChannelCatalog, type AppCatalogSnapshot, type ChannelCatalogSnapshot } from "./catalog.js";
+import { resolveChannel, resolveFavorite, searchChannels, type Channel, type ChannelResolution, type FavoriteChannel } from "./channels.js";
+import {
+  InvalidSettingError,
+  PICTURE_SETTING_KEYS,
+  allowedSettingValues,
+  parsePictureSettings,
+  type AllowedSettingValues,
+  type PictureSettings,
+} from "./picture.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("commands");
+
+// Remote buttons and the Magic Remote cursor need the pointer input socket
+const POINTER_URI: SSAPUri = "ssap://com.webos.service.networkinput/getPointerInputSocket";
+
+// Settings are written by a Luna call, which is smuggled through an alert
+const SET_SYSTEM_SETTINGS_URI = "luna://com.webos.settingsservice/setSystemSettings";
+
+const KEYBOARD_URI = "ssap://com.webos.service.ime/registerRemoteKeyboard";
+// How long to wait for the TV to report its keyboard, and for a text field to get focus
+const KEYBOARD_READ_TIMEOUT = 5000;
+export const KEYBOARD_WAIT_TIMEOUT = 10000;
+
+// How long restartApp waits for a closed app to leave the running list
+const APP_CLOSE_TIMEOUT = 5000;
+
+// How long setPictureSettings waits for written values to show up before calling them refused
+const PICTURE_APPLY_TIMEOUT = 1500;
+
+export interface RunningAppInfo {
+  id: string;
+  title: string | null;
+  foreground: boolean;
+  // Part of webOS itself; closeOtherApps leaves these running
+  system: boolean;
+}
+
+/**
+ * Whether an app belongs to webOS itself (home, live TV, inputs, system UI)
+ */
+export function isSystemApp(appId: string): boolean {
+  return /^com\.(webos|lge)\./.test(appId);
+}
+
+export interface EnterTextOptions {
+  // Replace the field's text instead of appending to it
+  replace?: boolean;
+  // Press Enter after typing
+  submit?: boolean;
+  // ms to wait for a focused text field first; 0 types without checking
+  wait?: number;
+}
 
 /**
  * TV Control Commands - Organized by category
+ *
+ * Every command takes RequestOptions last: a timeout and an AbortSignal that
+ * cancels the call (and drops its pending request) when the caller goes away.
  */
 export class TVCommands {
-  constructor(private client: LGTVClient) {}
+  // Installed apps and channels, cached per TV
+  readonly apps: AppCatalog;
+  readonly channels: ChannelCatalog;
+
+  constructor(private client: LGTVClient) {
+    this.apps = new AppCatalog(client);
+    this.channels = new ChannelCatalog(client);
+  }
+
+  /**
+   * Refuse URIs outside the client's permission profile before anything reaches the TV
+   */
+  private assertAllowed(uri: SSAPUri): void {
+    assertProfileAllows(this.client.permissionProfile, uri);
+  }
+
+  private async request<U extends SSAPUri>(uri: U, ...args: SSAPRequestArgs<U>): Promise<SSAPResponse<U>> {
+    this.assertAllowed(uri);
+    return this.client.request(uri, ...args);
+  }
+
+  private async subscribe<U extends SSAPUri>(uri: U, callback: (data: SSAPResponse<U>) => void, options: RequestOptions) {
+    this.assertAllowed(uri);
+    return this.client.subscribe(uri, callback, options);
+  }
+
+  private async getSystemSettings(category: string, keys: string[], options: RequestOptions): Promise<Record<string, any>> {
+    const { settings } = await this.request("ssap://settings/getSystemSettings", { category, keys }, options);
+    return settings;
+  }
+
+  /**
+   * SSAP cannot write settings; the Luna call goes through an alert, so it needs the full-control profile
+   */
+  private async setSystemSettings(category: string, settings: Record<string, unknown>, options: RequestOptions): Promise<void> {
+    this.assertAllowed("ssap://system.notifications/createAlert");
+    await this.client.callLunaService(SET_SYSTEM_SETTINGS_URI, { category, settings }, options);
+  }
 
   // ==================== AUDIO/VOLUME ====================
   
-  async volumeUp() {
-    return this.client.request("ssap://audio/volumeUp");
+  async volumeUp(options: RequestOptions = {}) {
+    return this.request("ssap://audio/volumeUp", undefined, options);
+  }
+
+  async volumeDown(options: RequestOptions = {}) {
+    return this.request("ssap://audio/volumeDown", undefined, options);
   }
 
-  async volumeDown() {
-    return this.client.request("ssap://audio/volumeDown");
+  async setVolume(volume: number, options: RequestOptions = {}) {
+    return this.request("ssap://audio/setVolume", { volume }, options);
   }
 
-  async setVolume(volume: number) {
-    return this.client.request("ssap://audio/setVolume", { volume });
+  async getVolume(options: RequestOptions = {}) {
+    return this.request("ssap://audio/getVolume", undefined, options);
   }
 
-  async getVolume() {
-    return this.client.request("ssap://audio/getVolume");
+  async mute(mute: boolean, options: RequestOptions = {}) {
+    return this.request("ssap://audio/setMute", { mute }, options);
   }
 
-  async mute(mute: boolean) {
-    return this.client.request("ssap://audio/setMute", { mute });
+  async getAudioOutput(options: RequestOptions = {}) {
+    return this.request("ssap://audio/getSoundOutput", undefined, options);
   }
 
-  async getAudioOutput() {
-    return this.client.request("ssap://audio/getSoundOutput");
+  async setAudioOutput(output: SoundOutput, options: RequestOptions = {}) {
+    return this.request("ssap://audio/changeSoundOutput", { output }, options);
   }
 
-  async setAudioOutput(output: string) {
-    // output: "tv_speaker", "external_speaker", "soundbar", "bt_soundbar"
-    return this.client.request("ssap://audio/changeSoundOutput", { output });
+  /**
+   * Read sound mode, balance and AV sync from the settings service
+   */
+  async getSoundSettings(options: RequestOptions = {}): Promise<Partial<SoundSettings>> {
+    return this.getSystemSettings("sound", SOUND_SETTING_KEYS, options);
+  }
+
+  /**
+   * Change sound settings through the settings service and read them back
+   */
+  async setSoundSettings(settings: Partial<SoundSettings>, options: RequestOptions = {}): Promise<Partial<SoundSettings>> {
+    await this.setSystemSettings("sound", settings, options);
+    return this.getSoundSettings(options);
   }
 
   // ==================== MEDIA PLAYBACK ====================
   
-  async play() {
-    return this.client.request("ssap://media.controls/play");
+  async play(options: RequestOptions = {}) {
+    return this.request("ssap://media.controls/play", undefined, options);
   }
 
-  async pause() {
-    return this.client.request("ssap://media.controls/pause");
+  async pause(options: RequestOptions = {}) {
+    return this.request("ssap://media.controls/pause", undefined, options);
   }
 
-  async stop() {
-    return this.client.request("ssap://media.controls/stop");
+  async stop(options: RequestOptions = {}) {
+    return this.request("ssap://media.controls/stop", undefined, options);
   }
 
-  async rewind() {
-    return this.client.request("ssap://media.controls/rewind");
+  async rewind(options: RequestOptions = {}) {
+    return this.request("ssap://media.controls/rewind", undefined, options);
   }
 
-  async fastForward() {
-    return this.client.request("ssap://media.controls/fastForward");
+  async fastForward(options: RequestOptions = {}) {
+    return this.request("ssap://media.controls/fastForward", undefined, options);
   }
 
-  async getMediaStatus() {
+  async getMediaStatus(options: RequestOptions = {}) {
     try {
       // Get foreground app info first
       let appId = null;
       try {
-        appId = await this.getCurrentApp();
+        appId = await this.getCurrentApp(options);
       } catch {}
 
       // Try getting media metadata (works for video/audio apps)
       try {
-        const metadata = await this.client.request("ssap://media.viewer/getMediaMetaData");
+        const metadata = await this.request("ssap://media.viewer/getMediaMetaData", undefined, options);
         return {
           playing: true,
           appId,
@@ -82,7 +197,7 @@ export class TVCommands {
       } catch {
         // If media metadata fails, check foreground media app info
         try {
-          const appInfo = await this.client.request("ssap://com.webos.media/getForegroundAppInfo");
+          const appInfo = await this.request("ssap://com.webos.media/getForegroundAppInfo", undefined, options);
           return {
             playing: appInfo.foregroundAppInfo?.length > 0,
             appId,
@@ -105,56 +220,132 @@ export class TVCommands {
     }
   }
 
-  async getForegroundMediaInfo() {
-    return this.client.request("ssap://com.webos.media/getForegroundAppInfo");
+  async getForegroundMediaInfo(options: RequestOptions = {}) {
+    return this.request("ssap://com.webos.media/getForegroundAppInfo", undefined, options);
   }
 
   // ==================== SYSTEM CONTROL ====================
   
-  async powerOff() {
-    return this.client.request("ssap://system/turnOff");
+  async powerOff(options: RequestOptions = {}) {
+    return this.request("ssap://system/turnOff", undefined, options);
   }
 
-  async powerOn() {
-    return this.client.request("ssap://system/turnOn");
+  async powerOn(options: RequestOptions = {}) {
+    return this.request("ssap://system/turnOn", undefined, options);
   }
 
-  async screenOff() {
-    return this.client.request("ssap://com.webos.service.tvpower/power/turnOffScreen", {
+  async screenOff(options: RequestOptions = {}) {
+    return this.request("ssap://com.webos.service.tvpower/power/turnOffScreen", {
       standbyMode: "active",
-    });
+    }, options);
   }
 
-  async screenOn() {
-    return this.client.request("ssap://com.webos.service.tvpower/power/turnOnScreen", {
+  async screenOn(options: RequestOptions = {}) {
+    return this.request("ssap://com.webos.service.tvpower/power/turnOnScreen", {
       standbyMode: "active",
-    });
+    }, options);
+  }
+
+  async getSystemInfo(options: RequestOptions = {}) {
+    return this.request("ssap://com.webos.service.update/getCurrentSWInformation", undefined, options);
   }
 
-  async getSystemInfo() {
-    return this.client.request("ssap://com.webos.service.update/getCurrentSWInformation");
+  async getNetworkInfo(options: RequestOptions = {}) {
+    return this.request("ssap://com.webos.service.connectionmanager/getinfo", undefined, options);
   }
 
-  async notify(message: string, iconData?: string, iconExtension?: string) {
-    return this.client.request("ssap://system.notifications/createToast", {
+  /**
+   * Get the MAC address of the active network interface (wired preferred)
+   */
+  async getMacAddress(options: RequestOptions = {}): Promise<string | null> {
+    const info = await this.getNetworkInfo(options);
+    const wired = info.wiredInfo;
+    const wifi = info.wifiInfo;
+
+    if (wired?.macAddress && wired.state === "connected") return wired.macAddress;
+    if (wifi?.macAddress && wifi.state === "connected") return wifi.macAddress;
+    return wired?.macAddress || wifi?.macAddress || null;
+  }
+
+  async notify(message: string, iconData?: string, iconExtension?: string, options: RequestOptions = {}) {
+    return this.request("ssap://system.notifications/createToast", {
       message,
       iconData,
       iconExtension,
-    });
+    }, options);
+  }
+
+  // ==================== PICTURE ====================
+
+  /**
+   * Read picture mode, backlight, contrast, brightness, color, color temperature and energy saving
+   */
+  async getPictureSettings(options: RequestOptions = {}): Promise<Partial<PictureSettings>> {
+    return this.getSystemSettings("picture", PICTURE_SETTING_KEYS, options);
+  }
+
+  /**
+   * Options and ranges the TV offers for each picture setting. Empty when the TV does not
+   * describe its settings; values are then only checked against the built-in lists.
+   */
+  async getAllowedPictureValues(options: RequestOptions = {}): Promise<Record<string, AllowedSettingValues>> {
+    try {
+      const { results } = await this.request(
+        "ssap://settings/getSystemSettingDesc",
+        { category: "picture", keys: PICTURE_SETTING_KEYS },
+        options
+      );
+      return allowedSettingValues(Array.isArray(results) ? results : []);
+    } catch (err: any) {
+      if (options.signal?.aborted) throw err;
+      log.debug("Picture setting descriptions not available", { error: err.message });
+      return {};
+    }
+  }
+
+  /**
+   * Change picture settings through the settings service and read them back.
+   * Settings the TV does not report, and values it does not offer, are refused rather than
+   * written blindly. The Luna call cannot answer, so a value that does not show up in the
+   * read back counts as refused by the TV.
+   * @throws InvalidSettingError if a value is invalid, not offered or not applied
+   */
+  async setPictureSettings(settings: Partial<PictureSettings>, options: RequestOptions = {}): Promise<Partial<PictureSettings>> {
+    const [current, allowed] = await Promise.all([this.getPictureSettings(options), this.getAllowedPictureValues(options)]);
+    const validated = parsePictureSettings(settings, current, allowed);
+    await this.setSystemSettings("picture", validated, options);
+
+    const deadline = Date.now() + PICTURE_APPLY_TIMEOUT;
+    for (;;) {
+      const applied = await this.getPictureSettings(options);
+      const refused = Object.entries(validated).filter(
+        ([key, value]) => String(applied[key as keyof PictureSettings]).toLowerCase() !== String(value).toLowerCase()
+      );
+      if (refused.length === 0) return applied;
+      if (Date.now() > deadline) {
+        throw new InvalidSettingError(`The TV did not apply ${refused.map(([key, value]) => `${key} ${value}`).join(", ")}`, allowed[refused[0][0]]);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 250));
+      options.signal?.throwIfAborted();
+    }
+  }
+
+  async setPictureMode(mode: PictureSettings["pictureMode"], options: RequestOptions = {}) {
+    return this.setPictureSettings({ pictureMode: mode }, options);
   }
 
   // ==================== SEARCH ====================
   
-  async searchContent(query: string) {
+  async searchContent(query: string, options: RequestOptions = {}) {
     try {
-      console.log(`🔍 Searching for: "${query}"`);
+      log.info(`🔍 Searching for: "${query}"`);
       
       // Try direct SSAP search endpoint first
       try {
-        const result = await this.client.request("ssap://com.webos.service.search/search", {
+        const result = await this.request("ssap://com.webos.service.search/search", {
           query: query
-        });
-        console.log("✅ Search executed via SSAP");
+        }, options);
+        log.info("✅ Search executed via SSAP");
         return {
           success: true,
           message: `Search results for "${query}"`,
@@ -162,10 +353,10 @@ export class TVCommands {
           results: result
         };
       } catch (ssapErr: any) {
-        console.log("⚠️  SSAP search failed, trying alternative methods...");
+        log.warn("⚠️  SSAP search failed, trying alternative methods...", { error: ssapErr.message });
         
         // Try launching search app with query
-        await this.launchApp("com.webos.app.search", undefined, { query });
+        await this.launchApp("com.webos.app.search", undefined, { query }, options);
         return {
           success: true,
           message: `Search app launched with query "${query}"`,
@@ -173,14 +364,14 @@ export class TVCommands {
         };
       }
     } catch (err: any) {
-      console.error("❌ Search failed:", err.message);
+      log.error("❌ Search failed", { error: err.message });
       throw err;
     }
   }
 
-  async searchContentAdvanced(query: string, categories?: string[]) {
+  async searchContentAdvanced(query: string, categories?: string[], options: RequestOptions = {}) {
     try {
-      console.log(`🔍 Advanced search for: "${query}"`, categories);
+      log.info(`🔍 Advanced search for: "${query}"`, { categories });
       
       const params: any = { query };
       
@@ -190,8 +381,8 @@ export class TVCommands {
 
       // Try direct SSAP search endpoint
       try {
-        const result = await this.client.request("ssap://com.webos.service.search/search", params);
-        console.log("✅ Search executed via SSAP");
+        const result = await this.request("ssap://com.webos.service.search/search", params, options);
+        log.info("✅ Search executed via SSAP");
         return {
           success: true,
           message: `Search results for "${query}"`,
@@ -200,10 +391,10 @@ export class TVCommands {
           results: result
         };
       } catch (ssapErr: any) {
-        console.log("⚠️  SSAP search failed, trying search app...");
+        log.warn("⚠️  SSAP search failed, trying search app...", { error: ssapErr.message });
         
         // Fallback to launching search app
-        await this.launchApp("com.webos.app.search", undefined, params);
+        await this.launchApp("com.webos.app.search", undefined, params, options);
         return {
           success: true,
           message: `Search app launched with query "${query}"`,
@@ -212,226 +403,473 @@ export class TVCommands {
         };
       }
     } catch (err: any) {
-      console.error("❌ Search failed:", err.message);
+      log.error("❌ Search failed", { error: err.message });
       throw err;
     }
   }
 
   // ==================== APPLICATIONS ====================
   
-  async listApps() {
-    try {
-      console.log("📱 Requesting apps from TV...");
-      const result = await this.client.request("ssap://com.webos.applicationManager/listLaunchPoints");
-      
-      // Handle different response structures
-      // if (result.apps && Array.isArray(result.apps)) {
-      //   console.log(`✅ Received ${result.apps.length} apps from TV`);
-      //   return result.apps.map((app: any) => ({
-      //     id: app.id,
-      //     title: app.title || app.id,
-      //     icon: app.icon,
-      //     largeIcon: app.largeIcon,
-      //     appType: app.appType,
-      //   }));
-      // }
-      
-      if (result.launchPoints && Array.isArray(result.launchPoints)) {
-        console.log(`✅ Received ${result.launchPoints.length} launch points from TV`);
-        return result.launchPoints.map((app: any) => ({
-          id: app.id,
-          title: app.title || app.id,
-          icon: app.icon,
-          largeIcon: app.largeIcon,
-          appType: app.appType,
-        }));
-      }
-      
-      console.log("⚠️  Unexpected response structure, using fallback");
-      return this.getCommonApps();
-    } catch (err: any) {
-      console.error("❌ Failed to list apps:", err.message);
-      console.log("📋 Using fallback common apps list");
-      return this.getCommonApps();
-    }
-  }
-
-  async listRunningApps() {
-    // List currently running apps (requires READ_RUNNING_APPS permission which is usually available)
-    try {
-      const result = await this.client.request("ssap://com.webos.service.applicationmanager/listRunningApps");
-      return result.running || [];
-    } catch (err: any) {
-      // Try alternative endpoint
-      try {
-        const result = await this.client.request("ssap://com.webos.applicationManager/listApps");
-        return result.apps || [];
-      } catch {
-        // If both fail, return empty array
-        return [];
-      }
-    }
+  /**
+   * List the installed apps. source tells whether the list is live, cached or the common apps fallback.
+   */
+  async listApps(options: RequestOptions = {}): Promise<AppCatalogSnapshot> {
+    return this.apps.list(options);
   }
 
   /**
-   * Get a list of common LG TV apps
-   * This is a fallback when we can't query installed apps
+   * List running apps with their title and whether they are in the foreground
+   * @throws Error if the TV does not report its running apps
    */
-  getCommonApps() {
-    return [
-      {id:"com.webos.app.home", title: "Home", icon: "🏠"},
-      { id: "com.webos.app.livetv", title: "Live TV", icon: "📺" },
-      { id: "youtube.leanback.v4", title: "YouTube", icon: "▶️" },
-      { id: "com.webos.app.hdmi1", title: "HDMI 1", icon: "🔌" },
-      { id: "com.webos.app.hdmi2", title: "HDMI 2", icon: "🔌" },
-      { id: "com.webos.app.hdmi3", title: "HDMI 3", icon: "🔌" },
-      { id: "com.webos.app.hdmi4", title: "HDMI 4", icon: "🔌" },
-      { id: "netflix", title: "Netflix", icon: "🎬" },
-      { id: "amazon", title: "Amazon Prime Video", icon: "📦" },
-      { id: "com.webos.app.browser", title: "Web Browser", icon: "🌐" },
-      { id: "spotify-beehive", title: "Spotify", icon: "🎵" },
-      { id: "com.webos.app.photovideo", title: "Photos & Videos", icon: "📷" },
-      { id: "com.webos.app.music", title: "Music", icon: "🎵" },
-      { id: "com.webos.app.discovery", title: "LG Content Store", icon: "🏪" },
-      { id: "com.webos.app.screenshare", title: "Screen Share", icon: "📱" },
-      { id: "com.webos.app.smartshare", title: "Smart Share", icon: "📂" },
-      { id: "com.webos.app.notificationcenter", title: "Notifications", icon: "🔔" },
-      { id: "com.webos.app.connectionwizard", title: "Connection Wizard", icon: "⚙️" },
-      { id: "com.webos.app.search", title: "Search", icon: "🔍" },
-      { id: "Disney+", title: "Disney Plus", icon: "🏰" },
-      { id: "hulu", title: "Hulu", icon: "📺" },
-      { id: "com.webos.app.appletvplus", title: "Apple TV+", icon: "🍎" },
-      { id: "cdp-30", title: "Plex", icon: "▶️" },
-    ];
-  }
-
-  async launchApp(appId: string, contentId?: string, params?: any) {
-    return this.client.request("ssap://system.launcher/launch", {
+  async listRunningApps(options: RequestOptions = {}): Promise<RunningAppInfo[]> {
+    const [running, foreground, catalog] = await Promise.all([
+      this.runningAppIds(options),
+      this.getCurrentApp(options).catch(() => null),
+      this.listApps(options),
+    ]);
+    const titles = new Map(catalog.apps.map((app) => [app.id, app.title]));
+
+    return running.map((id) => ({
+      id,
+      title: titles.get(id) ?? null,
+      foreground: id === foreground,
+      system: isSystemApp(id),
+    }));
+  }
+
+  private async runningAppIds(options: RequestOptions): Promise<string[]> {
+    const { running = [] } = await this.request("ssap://com.webos.service.applicationmanager/listRunningApps", undefined, options);
+    return running.map((app) => app.id);
+  }
+
+  async launchApp(appId: string, contentId?: string, params?: Record<string, unknown>, options: RequestOptions = {}) {
+    return this.request("ssap://system.launcher/launch", {
       id: appId,
       contentId,
       params,
-    });
+    }, options);
   }
 
-  async getCurrentApp() {
-    const result = await this.client.request(
-      "ssap://com.webos.applicationManager/getForegroundAppInfo"
-    );
+  /**
+   * Resolve an app id, title or alias against the installed apps
+   */
+  async resolveApp(query: string, aliases: { alias: string; appId: string }[] = [], options: RequestOptions = {}): Promise<AppResolution> {
+    return resolveApp(query, (await this.listApps(options)).apps, aliases);
+  }
+
+  /**
+   * Launch an app by id, title or alias. Nothing is launched unless the name resolves to one app;
+   * an unknown name that looks like an app id is launched as given.
+   */
+  async launchAppByName(
+    name: string,
+    aliases: { alias: string; appId: string }[] = [],
+    contentId?: string,
+    params?: Record<string, unknown>,
+    options: RequestOptions = {}
+  ): Promise<AppResolution> {
+    let resolution = await this.resolveApp(name, aliases, options);
+    if (resolution.status === "not-found" && /^[\w-]+(\.[\w-]+)+$/.test(name.trim())) {
+      resolution = { status: "resolved", query: name, app: { id: name.trim(), title: name.trim(), score: 1, matchedBy: "id" } };
+    }
+
+    if (resolution.status === "resolved") {
+      await this.launchApp(resolution.app.id, contentId, params, options);
+    }
+    return resolution;
+  }
+
+  async openUrl(url: string, options: RequestOptions = {}) {
+    return this.request("ssap://system.launcher/open", { target: url }, options);
+  }
+
+  /**
+   * Open a resolved share link: in its app, or in the browser for plain web pages
+   */
+  async openDeepLink(link: DeepLink, options: RequestOptions = {}) {
+    if (link.service === "browser") {
+      return this.openUrl(link.url, options);
+    }
+    return this.launchApp(link.appId, link.contentId, link.params, options);
+  }
+
+  async getCurrentApp(options: RequestOptions = {}) {
+    const result = await this.request("ssap://com.webos.applicationManager/getForegroundAppInfo", undefined, options);
     return result.appId;
   }
 
-  async closeApp(appInfo: any) {
-    return this.client.request("ssap://system.launcher/close", appInfo);
+  async closeApp(appInfo: { id: string; sessionId?: string }, options: RequestOptions = {}) {
+    return this.request("ssap://system.launcher/close", appInfo, options);
+  }
+
+  /**
+   * Close an app after checking that it is running
+   * @throws AppNotRunningError if the app is not running
+   */
+  async closeRunningApp(appId: string, options: RequestOptions = {}) {
+    const app = (await this.listRunningApps(options)).find((running) => running.id === appId);
+    if (!app) {
+      throw new AppNotRunningError(appId);
+    }
+    await this.closeApp({ id: appId }, options);
+    return app;
+  }
+
+  /**
+   * Close every running app except the foreground one. System apps are left alone.
+   */
+  async closeOtherApps(options: RequestOptions = {}) {
+    const running = await this.listRunningApps(options);
+    const result = {
+      foreground: running.find((app) => app.foreground)?.id ?? null,
+      closed: [] as string[],
+      skipped: [] as string[],
+      failed: [] as { id: string; error: string }[],
+    };
+
+    for (const app of running) {
+      if (app.foreground) continue;
+      if (app.system) {
+        result.skipped.push(app.id);
+        continue;
+      }
+      try {
+        await this.closeApp({ id: app.id }, options);
+        result.closed.push(app.id);
+      } catch (err: any) {
+        options.signal?.throwIfAborted();
+        result.failed.push({ id: app.id, error: err.message });
+      }
+    }
+
+    log.info(`🛑 Closed ${result.closed.length} background apps`, { skipped: result.skipped.length, failed: result.failed.length });
+    return result;
+  }
+
+  /**
+   * Relaunch an app cleanly: close it if it is running, wait until it is gone, launch it again
+   */
+  async restartApp(appId: string, contentId?: string, params?: Record<string, unknown>, options: RequestOptions = {}) {
+    const running = await this.listRunningApps(options);
+    const wasRunning = running.some((app) => app.id === appId);
+
+    if (wasRunning) {
+      await this.closeApp({ id: appId }, options);
+
+      const deadline = Date.now() + APP_CLOSE_TIMEOUT;
+      while ((await this.runningAppIds(options)).includes(appId)) {
+        if (Date.now() > deadline) {
+          throw new Error(`${appId} did not close within ${APP_CLOSE_TIMEOUT}ms`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, 250));
+        options.signal?.throwIfAborted();
+      }
+    }
+
+    await this.launchApp(appId, contentId, params, options);
+    return { appId, wasRunning };
   }
 
   // ==================== TV/CHANNELS ====================
   
-  async channelUp() {
-    return this.client.request("ssap://tv/channelUp");
+  async channelUp(options: RequestOptions = {}) {
+    return this.request("ssap://tv/channelUp", undefined, options);
   }
 
-  async channelDown() {
-    return this.client.request("ssap://tv/channelDown");
+  async channelDown(options: RequestOptions = {}) {
+    return this.request("ssap://tv/channelDown", undefined, options);
   }
 
-  async setChannel(channelId: string) {
-    return this.client.request("ssap://tv/openChannel", { channelId });
+  async setChannel(channelId: string, options: RequestOptions = {}) {
+    return this.request("ssap://tv/openChannel", { channelId }, options);
   }
 
-  async getCurrentChannel() {
-    return this.client.request("ssap://tv/getCurrentChannel");
+  async getCurrentChannel(options: RequestOptions = {}) {
+    return this.request("ssap://tv/getCurrentChannel", undefined, options);
   }
 
-  async getChannelList() {
-    return this.client.request("ssap://tv/getChannelList");
+  /**
+   * The channel list as the TV sends it; see listChannels for the normalized catalog
+   */
+  async getChannelList(options: RequestOptions = {}) {
+    return this.request("ssap://tv/getChannelList", undefined, options);
   }
 
-  async getCurrentProgram() {
-    return this.client.request("ssap://tv/getChannelProgramInfo");
+  /**
+   * List the channels, normalized and ordered by number. The list is read from the TV once
+   * per connection; pass refresh after a channel scan.
+   */
+  async listChannels(options: RequestOptions = {}, refresh: boolean = false): Promise<ChannelCatalogSnapshot> {
+    return this.channels.list(options, refresh);
+  }
+
+  /**
+   * Resolve a channel id, number ("5.1"), name ("BBC One") or favorite ("fav 3"),
+   * or a slot of a favorites group
+   */
+  async resolveChannel(
+    target: string | { favorite: number; group: string },
+    favorites: FavoriteChannel[] = [],
+    options: RequestOptions = {}
+  ): Promise<ChannelResolution> {
+    const { channels } = await this.listChannels(options);
+    return typeof target === "string"
+      ? resolveChannel(target, channels, favorites)
+      : resolveFavorite(target.favorite, target.group, channels, favorites);
+  }
+
+  /**
+   * Tune to a channel by id, number, name or favorite. Nothing is tuned unless it resolves to one channel.
+   */
+  async tuneChannel(
+    target: string | { favorite: number; group: string },
+    favorites: FavoriteChannel[] = [],
+    options: RequestOptions = {}
+  ): Promise<ChannelResolution> {
+    const resolution = await this.resolveChannel(target, favorites, options);
+    if (resolution.status === "resolved") {
+      await this.setChannel(resolution.channel.id, options);
+    }
+    return resolution;
+  }
+
+  async getCurrentProgram(options: RequestOptions = {}) {
+    return this.request("ssap://tv/getChannelProgramInfo", undefined, options);
   }
 
   // ==================== INPUT SOURCES ====================
   
-  async listInputs() {
-    const result = await this.client.request("ssap://tv/getExternalInputList");
+  async listInputs(options: RequestOptions = {}) {
+    const result = await this.request("ssap://tv/getExternalInputList", undefined, options);
     return result.devices;
   }
 
-  async setInput(inputId: string) {
-    return this.client.request("ssap://tv/switchInput", { inputId });
+  async setInput(inputId: string, options: RequestOptions = {}) {
+    return this.request("ssap://tv/switchInput", { inputId }, options);
   }
 
   // ==================== TEXT INPUT ====================
   
-  async typeText(text: string) {
-    return this.client.request("ssap://com.webos.service.ime/insertText", {
+  async typeText(text: string, replace: boolean = false, options: RequestOptions = {}) {
+    return this.request("ssap://com.webos.service.ime/insertText", {
       text,
-      replace: 0,
-    });
+      replace: replace ? 1 : 0,
+    }, options);
+  }
+
+  async deleteCharacters(count: number, options: RequestOptions = {}) {
+    return this.request("ssap://com.webos.service.ime/deleteCharacters", { count }, options);
+  }
+
+  async sendEnter(options: RequestOptions = {}) {
+    return this.request("ssap://com.webos.service.ime/sendEnterKey", undefined, options);
+  }
+
+  /**
+   * Whether a text field is focused on the TV, and what it holds
+   */
+  async getKeyboardState(options: RequestOptions = {}): Promise<KeyboardState> {
+    return this.watchKeyboard(() => true, options.timeout ?? KEYBOARD_READ_TIMEOUT, options.signal,
+      "TV did not report its keyboard state");
   }
 
-  async deleteCharacters(count: number) {
-    return this.client.request("ssap://com.webos.service.ime/deleteCharacters", { count });
+  /**
+   * Wait until a text field is focused on the TV
+   * @throws Error if none gets focus within the timeout
+   */
+  async waitForKeyboard(timeout: number = KEYBOARD_WAIT_TIMEOUT, options: RequestOptions = {}): Promise<KeyboardState> {
+    return this.watchKeyboard((state) => state.focused, timeout, options.signal,
+      `No text field focused on the TV within ${timeout}ms. Open a search or text field first.`);
   }
 
-  async sendEnter() {
-    return this.client.request("ssap://com.webos.service.ime/sendEnterKey");
+  /**
+   * Type into the focused text field, waiting for one first, and optionally submit
+   */
+  async enterText(text: string, { replace = false, submit = false, wait = KEYBOARD_WAIT_TIMEOUT }: EnterTextOptions = {}, options: RequestOptions = {}) {
+    const keyboard = wait > 0 ? await this.waitForKeyboard(wait, options) : null;
+    await this.typeText(text, replace, options);
+    if (submit) {
+      await this.sendEnter(options);
+    }
+    return { keyboard, text, submitted: submit };
+  }
+
+  /**
+   * Resolve with the first keyboard state (current or future) that matches.
+   * Goes through the shared subscription, so the state is replayed if someone already listens.
+   */
+  private watchKeyboard(
+    until: (state: KeyboardState) => boolean,
+    timeout: number,
+    signal: AbortSignal | undefined,
+    timeoutMessage: string
+  ): Promise<KeyboardState> {
+    this.assertAllowed(KEYBOARD_URI);
+    signal?.throwIfAborted();
+
+    return new Promise((resolve, reject) => {
+      let unsubscribe: (() => void) | null = null;
+      let settled = false;
+
+      const finish = (err: Error | null, state?: KeyboardState) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        unsubscribe?.();
+        if (err) reject(err);
+        else resolve(state!);
+      };
+      const onAbort = () => finish(abortError(signal!));
+      const timer = setTimeout(() => finish(new Error(timeoutMessage)), timeout);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.client.sharedSubscriptions.subscribe(KEYBOARD_URI, (data) => {
+        const state = keyboardState(data.currentWidget);
+        if (until(state)) finish(null, state);
+      }).then(
+        (release) => (settled ? release() : (unsubscribe = release)),
+        (err) => finish(err)
+      );
+    });
   }
 
   // ==================== REMOTE NAVIGATION ====================
 
-  async pressButton(button: "UP" | "DOWN" | "LEFT" | "RIGHT" | "ENTER" | "BACK" | "HOME" | "EXIT" | "RED" | "GREEN" | "YELLOW" | "BLUE") {
+  async pressButton(button: RemoteKey, options: RequestOptions = {}) {
     // LG webOS uses pointer input socket for remote control buttons
-    return this.client.sendButton(button);
+    this.assertAllowed(POINTER_URI);
+    return this.client.sendButton(button, options);
+  }
+
+  /**
+   * Press a key by name (case-insensitive, aliases such as OK or VOL_UP allowed)
+   */
+  async pressKey(name: string, options: RequestOptions = {}): Promise<RemoteKey> {
+    const key = normalizeKey(name);
+    if (!key) {
+      throw new Error(`Unknown key: ${name}`);
+    }
+    await this.pressButton(key, options);
+    return key;
+  }
+
+  /**
+   * Press a sequence of keys, pausing after each one (e.g. DOWN, DOWN, ENTER to pick a menu entry).
+   * The whole sequence is validated before the first key is sent.
+   */
+  async pressKeys(sequence: Array<string | KeyStep>, defaultDelay: number = 300, options: RequestOptions = {}): Promise<RemoteKey[]> {
+    const steps = parseKeySequence(sequence, defaultDelay);
+
+    for (let i = 0; i < steps.length; i++) {
+      // Stop mid-sequence if the caller went away
+      options.signal?.throwIfAborted();
+      await this.pressButton(steps[i].key, options);
+      if (i < steps.length - 1 && steps[i].delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, steps[i].delay));
+      }
+    }
+
+    return steps.map((step) => step.key);
+  }
+
+  async pressUp(options: RequestOptions = {}) {
+    return this.pressButton("UP", options);
   }
 
-  async pressUp() {
-    return this.pressButton("UP");
+  async pressDown(options: RequestOptions = {}) {
+    return this.pressButton("DOWN", options);
   }
 
-  async pressDown() {
-    return this.pressButton("DOWN");
+  async pressLeft(options: RequestOptions = {}) {
+    return this.pressButton("LEFT", options);
   }
 
-  async pressLeft() {
-    return this.pressButton("LEFT");
+  async pressRight(options: RequestOptions = {}) {
+    return this.pressButton("RIGHT", options);
   }
 
-  async pressRight() {
-    return this.pressButton("RIGHT");
+  async pressOk(options: RequestOptions = {}) {
+    return this.pressButton("ENTER", options);
   }
 
-  async pressOk() {
-    return this.pressButton("ENTER");
+  async pressBack(options: RequestOptions = {}) {
+    return this.pressButton("BACK", options);
   }
 
-  async pressBack() {
-    return this.pressButton("BACK");
+  async pressHome(options: RequestOptions = {}) {
+    return this.pressButton("HOME", options);
   }
 
-  async pressHome() {
-    return this.pressButton("HOME");
+  // ==================== POINTER ====================
+
+  /**
+   * Open the pointer input socket ahead of the first movement
+   */
+  async openPointer(options: RequestOptions = {}) {
+    this.assertAllowed(POINTER_URI);
+    return this.client.getPointerInputSocket(options);
+  }
+
+  async movePointer(dx: number, dy: number, drag: boolean = false, options: RequestOptions = {}) {
+    this.assertAllowed(POINTER_URI);
+    return this.client.movePointer(dx, dy, drag, options);
+  }
+
+  async scroll(dx: number, dy: number, options: RequestOptions = {}) {
+    this.assertAllowed(POINTER_URI);
+    return this.client.scroll(dx, dy, options);
+  }
+
+  async click(options: RequestOptions = {}) {
+    this.assertAllowed(POINTER_URI);
+    return this.client.click(options);
+  }
+
+  /**
+   * Drag with the pointer button held down. The offset is split into small
+   * moves so apps see a continuous gesture rather than a jump.
+   */
+  async drag(dx: number, dy: number, steps: number = 10, options: RequestOptions = {}) {
+    this.assertAllowed(POINTER_URI);
+    const count = Math.max(1, Math.round(steps));
+
+    for (let i = 1; i <= count; i++) {
+      options.signal?.throwIfAborted();
+      const stepX = Math.round((dx * i) / count) - Math.round((dx * (i - 1)) / count);
+      const stepY = Math.round((dy * i) / count) - Math.round((dy * (i - 1)) / count);
+      await this.client.movePointer(stepX, stepY, true, options);
+      await new Promise((resolve) => setTimeout(resolve, 16));
+    }
+
+    // Release the button where the drag ended, even if the caller went away
+    await this.client.movePointer(0, 0, false, { timeout: options.timeout });
   }
 
   // ==================== SUBSCRIPTIONS ====================
   
-  async subscribeVolume(callback: (data: any) => void) {
-    return this.client.subscribe("ssap://audio/getVolume", callback);
+  async subscribeVolume(callback: (data: SSAPResponse<"ssap://audio/getVolume">) => void, options: RequestOptions = {}) {
+    return this.subscribe("ssap://audio/getVolume", callback, options);
   }
 
-  async subscribeCurrentApp(callback: (data: any) => void) {
-    return this.client.subscribe(
-      "ssap://com.webos.applicationManager/getForegroundAppInfo",
-      callback
-    );
+  async subscribeAudioOutput(callback: (data: SSAPResponse<"ssap://audio/getSoundOutput">) => void, options: RequestOptions = {}) {
+    return this.subscribe("ssap://audio/getSoundOutput", callback, options);
+  }
+
+  async subscribeKeyboard(callback: (data: SSAPResponse<typeof KEYBOARD_URI>) => void, options: RequestOptions = {}) {
+    return this.subscribe(KEYBOARD_URI, callback, options);
   }
 
-  async subscribeCurrentChannel(callback: (data: any) => void) {
-    return this.client.subscribe("ssap://tv/getCurrentChannel", callback);
+  async subscribeCurrentApp(callback: (data: SSAPResponse<"ssap://com.webos.applicationManager/getForegroundAppInfo">) => void, options: RequestOptions = {}) {
+    return this.subscribe("ssap://com.webos.applicationManager/getForegroundAppInfo", callback, options);
   }
 
-  async subscribeMediaState(callback: (data: any) => void) {
-    return this.client.subscribe("ssap://com.webos.media/getForegroundAppInfo", callback);
+  async subscribeCurrentChannel(callback: (data: SSAPResponse<"ssap://tv/getCurrentChannel">) => void, options: RequestOptions = {}) {
+    return this.subscribe("ssap://tv/getCurrentChannel", callback, options);
+  }
+
+  async subscribeMediaState(callback: (data: SSAPResponse<"ssap://com.webos.media/getForegroundAppInfo">) => void, options: RequestOptions = {}) {
+    return this.subscribe("ssap://com.webos.media/getForegroundAppInfo", callback, options);
   }
 
   // ==================== SEARCH ====================
@@ -440,23 +878,23 @@ export class TVCommands {
    * Open system search with optional query
    * Note: This opens the WebOS universal search interface
    */
-  async openSearch(query?: string) {
+  async openSearch(query?: string, options: RequestOptions = {}) {
     // Launch the search app (WebOS built-in search)
-    return this.client.request("ssap://system.launcher/launch", {
+    return this.request("ssap://system.launcher/launch", {
       id: "com.webos.app.search",
       params: query ? { query } : undefined,
-    });
+    }, options);
   }
 
 
   /**
    * Search for apps by name
    */
-  async searchApps(query: string) {
-    const apps = await this.listApps();
+  async searchApps(query: string, options: RequestOptions = {}) {
+    const { apps } = await this.listApps(options);
     const lowerQuery = query.toLowerCase();
     
-    return apps.filter((app: any) => 
+    return apps.filter((app) => 
       app.title?.toLowerCase().includes(lowerQuery) ||
       app.id?.toLowerCase().includes(lowerQuery)
     );
@@ -465,14 +903,9 @@ export class TVCommands {
   /**
    * Search for channels by name or number
    */
-  async searchChannels(query: string) {
-    const channels = await this.getChannelList();
-    const lowerQuery = query.toLowerCase();
-    
-    return channels.filter((channel: any) => 
-      channel.channelName?.toLowerCase().includes(lowerQuery) ||
-      channel.channelNumber?.toString().includes(query)
-    );
+  async searchChannels(query: string, options: RequestOptions = {}): Promise<Channel[]> {
+    const { channels } = await this.listChannels(options);
+    return searchChannels(query, channels);
   }
 
 }
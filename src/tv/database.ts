@@ -1,6 +1,12 @@
 import Database from "better-sqlite3";
 import path from "path";
 import { fileURLToPath } from "url";
+import { DEFAULT_PERMISSION_PROFILE, parsePermissionProfile, type PermissionProfile } from "./permissions.js";
+import type { CatalogApp } from "./catalog.js";
+import type { Channel, FavoriteChannel } from "./channels.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("database");
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -9,12 +15,40 @@ export interface TVCredential {
   ip: string;
   clientKey: string;
   secure: boolean;
+  // WebSocket port that worked last (3001 for wss, 3000 for ws on stock firmware)
+  port?: number;
   name?: string;
+  mac?: string;
+  // SHA-256 fingerprint of the TV's certificate, pinned at pairing (secure connections only)
+  certFingerprint?: string;
+  // Permission profile the client-key was registered with
+  permissionProfile: PermissionProfile;
   createdAt: string;
   lastUsed: string;
   isValid: boolean;
 }
 
+export interface AppAlias {
+  // Normalized, see normalizeAppName
+  alias: string;
+  appId: string;
+  createdAt: string;
+}
+
+export interface AppChange {
+  id: number;
+  appId: string;
+  title: string;
+  change: "installed" | "removed";
+  detectedAt: string;
+}
+
+const CREDENTIAL_COLUMNS = `
+  ip, client_key as clientKey, secure, port, name, mac, cert_fingerprint as certFingerprint,
+  permission_profile as permissionProfile, created_at as createdAt,
+  last_used as lastUsed, is_valid as isValid
+`;
+
 class TVDatabase {
   private db: Database.Database;
 
@@ -40,39 +74,103 @@ class TVDatabase {
       )
     `);
 
-    // Migration: ensure 'name' column exists for older databases
+    // Migration: ensure newer columns exist for older databases
+    const migrations: [column: string, definition: string][] = [
+      ["name", "TEXT"],
+      ["mac", "TEXT"],
+      ["cert_fingerprint", "TEXT"],
+      ["port", "INTEGER"],
+      ["permission_profile", "TEXT"],
+    ];
     try {
       const cols = this.db.prepare("PRAGMA table_info(tv_credentials)").all() as any[];
-      const hasName = cols.some((c) => c.name === "name");
-      if (!hasName) {
-        this.db.exec("ALTER TABLE tv_credentials ADD COLUMN name TEXT");
+      for (const [column, definition] of migrations) {
+        if (!cols.some((c) => c.name === column)) {
+          this.db.exec(`ALTER TABLE tv_credentials ADD COLUMN ${column} ${definition}`);
+        }
       }
     } catch {
       // ignore migration errors
     }
 
-    console.log("✅ Database initialized");
+    // Names people give apps and inputs on one TV ("the game console" -> HDMI 2)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS app_aliases (
+        ip TEXT NOT NULL,
+        alias TEXT NOT NULL,
+        app_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (ip, alias)
+      )
+    `);
+
+    // Last app list read from each TV, and the installs and removals seen since
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS app_catalog (
+        ip TEXT NOT NULL,
+        app_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        icon TEXT,
+        large_icon TEXT,
+        app_type TEXT,
+        refreshed_at TEXT NOT NULL,
+        PRIMARY KEY (ip, app_id)
+      );
+      CREATE TABLE IF NOT EXISTS app_changes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        ip TEXT NOT NULL,
+        app_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        change TEXT NOT NULL,
+        detected_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS app_changes_ip ON app_changes (ip, id);
+    `);
+
+    // Last channel list read from each TV, and the favorite groups made from it
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS channel_catalog (
+        ip TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        channel TEXT NOT NULL,
+        refreshed_at TEXT NOT NULL,
+        PRIMARY KEY (ip, position)
+      );
+      CREATE TABLE IF NOT EXISTS channel_favorites (
+        ip TEXT NOT NULL,
+        group_name TEXT NOT NULL COLLATE NOCASE,
+        slot INTEGER NOT NULL,
+        channel_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (ip, group_name, slot)
+      );
+    `);
+
+    log.info("✅ Database initialized");
   }
 
   /**
-   * Save or update TV credentials
+   * Save or update TV credentials. The pinned certificate is left alone, see
+   * saveCertificateFingerprint (TVSessionManager.finishPairing sets both).
    */
-  saveCredentials(ip: string, clientKey: string, secure: boolean = true, name?: string): void {
+  saveCredentials(ip: string, clientKey: string, secure: boolean = true, name?: string, mac?: string, port?: number): void {
     const now = new Date().toISOString();
     
     const stmt = this.db.prepare(`
-      INSERT INTO tv_credentials (ip, client_key, secure, name, created_at, last_used, is_valid)
-      VALUES (?, ?, ?, ?, ?, ?, 1)
+      INSERT INTO tv_credentials (ip, client_key, secure, port, name, mac, created_at, last_used, is_valid)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1)
       ON CONFLICT(ip) DO UPDATE SET
         client_key = excluded.client_key,
         secure = excluded.secure,
+        port = COALESCE(excluded.port, port),
         last_used = excluded.last_used,
         is_valid = 1,
-        name = COALESCE(excluded.name, name)
+        name = COALESCE(excluded.name, name),
+        mac = COALESCE(excluded.mac, mac)
     `);
 
-    stmt.run(ip, clientKey, secure ? 1 : 0, name ?? null, now, now);
-    console.log(`💾 Saved credentials for ${ip}`);
+    stmt.run(ip, clientKey, secure ? 1 : 0, port ?? null, name ?? null, mac ?? null, now, now);
+    log.info(`💾 Saved credentials for ${ip}`);
   }
 
   /**
@@ -80,8 +178,7 @@ class TVDatabase {
    */
   getCredentials(ip: string): TVCredential | null {
     const stmt = this.db.prepare(`
-      SELECT ip, client_key as clientKey, secure, name, created_at as createdAt, 
-             last_used as lastUsed, is_valid as isValid
+      SELECT ${CREDENTIAL_COLUMNS}
       FROM tv_credentials
       WHERE ip = ?
     `);
@@ -92,15 +189,7 @@ class TVDatabase {
     // Update last_used timestamp
     this.updateLastUsed(ip);
 
-    return {
-      ip: row.ip,
-      clientKey: row.clientKey,
-      secure: row.secure === 1,
-      name: row.name || undefined,
-      createdAt: row.createdAt,
-      lastUsed: row.lastUsed,
-      isValid: row.isValid === 1,
-    };
+    return this.toCredential(row);
   }
 
   /**
@@ -108,22 +197,13 @@ class TVDatabase {
    */
   getAllCredentials(): TVCredential[] {
     const stmt = this.db.prepare(`
-      SELECT ip, client_key as clientKey, secure, name, created_at as createdAt, 
-             last_used as lastUsed, is_valid as isValid
+      SELECT ${CREDENTIAL_COLUMNS}
       FROM tv_credentials
       ORDER BY last_used DESC
     `);
 
     const rows = stmt.all() as any[];
-    return rows.map(row => ({
-      ip: row.ip,
-      clientKey: row.clientKey,
-      secure: row.secure === 1,
-       name: row.name || undefined,
-      createdAt: row.createdAt,
-      lastUsed: row.lastUsed,
-      isValid: row.isValid === 1,
-    }));
+    return rows.map(row => this.toCredential(row));
   }
 
   /**
@@ -137,7 +217,7 @@ class TVDatabase {
     `);
 
     stmt.run(ip);
-    console.log(`❌ Invalidated credentials for ${ip}`);
+    log.warn(`❌ Invalidated credentials for ${ip}`);
   }
 
   /**
@@ -150,7 +230,10 @@ class TVDatabase {
     `);
 
     stmt.run(ip);
-    console.log(`🗑️  Deleted credentials for ${ip}`);
+    for (const table of ["app_aliases", "app_catalog", "app_changes", "channel_catalog", "channel_favorites"]) {
+      this.db.prepare(`DELETE FROM ${table} WHERE ip = ?`).run(ip);
+    }
+    log.info(`🗑️  Deleted credentials for ${ip}`);
   }
 
   /**
@@ -171,8 +254,7 @@ class TVDatabase {
    */
   getMostRecentTV(): TVCredential | null {
     const stmt = this.db.prepare(`
-      SELECT ip, client_key as clientKey, secure, name, created_at as createdAt, 
-             last_used as lastUsed, is_valid as isValid
+      SELECT ${CREDENTIAL_COLUMNS}
       FROM tv_credentials
       WHERE is_valid = 1
       ORDER BY last_used DESC
@@ -182,11 +264,301 @@ class TVDatabase {
     const row = stmt.get() as any;
     if (!row) return null;
 
+    return this.toCredential(row);
+  }
+
+  /**
+   * Store the MAC address used for Wake-on-LAN
+   */
+  saveMacAddress(ip: string, mac: string): void {
+    const stmt = this.db.prepare(`
+      UPDATE tv_credentials
+      SET mac = ?
+      WHERE ip = ?
+    `);
+
+    stmt.run(mac, ip);
+    log.info(`💾 Saved MAC address ${mac} for ${ip}`);
+  }
+
+  /**
+   * Pin (or with null, forget) the certificate fingerprint of a TV
+   */
+  saveCertificateFingerprint(ip: string, fingerprint: string | null): void {
+    const stmt = this.db.prepare(`
+      UPDATE tv_credentials
+      SET cert_fingerprint = ?
+      WHERE ip = ?
+    `);
+
+    stmt.run(fingerprint, ip);
+    log.info(fingerprint ? `📌 Pinned certificate ${fingerprint} for ${ip}` : `📌 Cleared pinned certificate for ${ip}`);
+  }
+
+  /**
+   * Store the permission profile a TV was paired with
+   */
+  savePermissionProfile(ip: string, profile: PermissionProfile): void {
+    const stmt = this.db.prepare(`
+      UPDATE tv_credentials
+      SET permission_profile = ?
+      WHERE ip = ?
+    `);
+
+    stmt.run(profile, ip);
+    log.info(`🛡️  Saved permission profile ${profile} for ${ip}`);
+  }
+
+  /**
+   * Get the app aliases of a TV
+   */
+  getAppAliases(ip: string): AppAlias[] {
+    const stmt = this.db.prepare(`
+      SELECT alias, app_id as appId, created_at as createdAt
+      FROM app_aliases
+      WHERE ip = ?
+      ORDER BY alias
+    `);
+
+    return stmt.all(ip) as AppAlias[];
+  }
+
+  /**
+   * Save (or repoint) an app alias of a TV
+   */
+  saveAppAlias(ip: string, alias: string, appId: string): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO app_aliases (ip, alias, app_id, created_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(ip, alias) DO UPDATE SET app_id = excluded.app_id
+    `);
+
+    stmt.run(ip, alias, appId, new Date().toISOString());
+    log.info(`🏷️  Saved app alias "${alias}" -> ${appId} for ${ip}`);
+  }
+
+  /**
+   * Delete an app alias of a TV
+   * @returns Whether the alias existed
+   */
+  deleteAppAlias(ip: string, alias: string): boolean {
+    const stmt = this.db.prepare(`
+      DELETE FROM app_aliases
+      WHERE ip = ? AND alias = ?
+    `);
+
+    return stmt.run(ip, alias).changes > 0;
+  }
+
+  /**
+   * Get the app list last read from a TV
+   * @returns The apps and when they were read, or null if the TV was never asked
+   */
+  getAppCatalog(ip: string): { apps: CatalogApp[]; refreshedAt: string } | null {
+    const stmt = this.db.prepare(`
+      SELECT app_id as id, title, icon, large_icon as largeIcon, app_type as appType, refreshed_at as refreshedAt
+      FROM app_catalog
+      WHERE ip = ?
+      ORDER BY rowid
+    `);
+
+    const rows = stmt.all(ip) as any[];
+    if (rows.length === 0) return null;
+
+    return {
+      apps: rows.map(({ id, title, icon, largeIcon, appType }) => ({
+        id,
+        title,
+        icon: icon ?? undefined,
+        largeIcon: largeIcon ?? undefined,
+        appType: appType ?? undefined,
+      })),
+      refreshedAt: rows[0].refreshedAt,
+    };
+  }
+
+  /**
+   * Replace the app list of a TV and record which apps were installed or removed since the last one.
+   * The first list stored for a TV records no changes.
+   * @returns The changes recorded
+   */
+  saveAppCatalog(ip: string, apps: CatalogApp[]): AppChange[] {
+    const now = new Date().toISOString();
+    const previous = this.db.prepare("SELECT app_id as id, title FROM app_catalog WHERE ip = ?").all(ip) as { id: string; title: string }[];
+    const previousIds = new Set(previous.map((app) => app.id));
+    const currentIds = new Set(apps.map((app) => app.id));
+
+    const found: Omit<AppChange, "id">[] = previous.length === 0 ? [] : [
+      ...apps.filter((app) => !previousIds.has(app.id)).map((app) => ({ appId: app.id, title: app.title, change: "installed" as const, detectedAt: now })),
+      ...previous.filter((app) => !currentIds.has(app.id)).map((app) => ({ appId: app.id, title: app.title, change: "removed" as const, detectedAt: now })),
+    ];
+
+    const insertApp = this.db.prepare(`
+      INSERT INTO app_catalog (ip, app_id, title, icon, large_icon, app_type, refreshed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertChange = this.db.prepare(`
+      INSERT INTO app_changes (ip, app_id, title, change, detected_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    return this.db.transaction(() => {
+      this.db.prepare("DELETE FROM app_catalog WHERE ip = ?").run(ip);
+      for (const app of apps) {
+        insertApp.run(ip, app.id, app.title, app.icon ?? null, app.largeIcon ?? null, app.appType ?? null, now);
+      }
+      return found.map((change) => ({
+        id: Number(insertChange.run(ip, change.appId, change.title, change.change, change.detectedAt).lastInsertRowid),
+        ...change,
+      }));
+    })();
+  }
+
+  /**
+   * Get the app installs and removals seen on a TV, newest first
+   * @param since Only changes detected after this ISO timestamp
+   */
+  getAppChanges(ip: string, limit: number = 50, since?: string): AppChange[] {
+    const stmt = this.db.prepare(`
+      SELECT id, app_id as appId, title, change, detected_at as detectedAt
+      FROM app_changes
+      WHERE ip = ? AND detected_at > ?
+      ORDER BY id DESC
+      LIMIT ?
+    `);
+
+    return stmt.all(ip, since ?? "", limit) as AppChange[];
+  }
+
+  /**
+   * Get the channel list last read from a TV
+   * @returns The channels and when they were read, or null if the TV was never asked
+   */
+  getChannelCatalog(ip: string): { channels: Channel[]; refreshedAt: string } | null {
+    const stmt = this.db.prepare(`
+      SELECT channel, refreshed_at as refreshedAt
+      FROM channel_catalog
+      WHERE ip = ?
+      ORDER BY position
+    `);
+
+    const rows = stmt.all(ip) as { channel: string; refreshedAt: string }[];
+    if (rows.length === 0) return null;
+
+    return { channels: rows.map((row) => JSON.parse(row.channel)), refreshedAt: rows[0].refreshedAt };
+  }
+
+  /**
+   * Replace the channel list of a TV
+   */
+  saveChannelCatalog(ip: string, channels: Channel[]): void {
+    const now = new Date().toISOString();
+    const insert = this.db.prepare(`
+      INSERT INTO channel_catalog (ip, position, channel, refreshed_at)
+      VALUES (?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM channel_catalog WHERE ip = ?").run(ip);
+      channels.forEach((channel, position) => insert.run(ip, position, JSON.stringify(channel), now));
+    })();
+  }
+
+  /**
+   * Get the favorite channels of a TV, by group and slot
+   */
+  getFavoriteChannels(ip: string): FavoriteChannel[] {
+    const stmt = this.db.prepare(`
+      SELECT group_name as "group", slot, channel_id as channelId
+      FROM channel_favorites
+      WHERE ip = ?
+      ORDER BY group_name, slot
+    `);
+
+    return stmt.all(ip) as FavoriteChannel[];
+  }
+
+  /**
+   * Put a channel in a favorites group, creating the group if needed.
+   * Without a slot a channel already in the group keeps its slot, a new one goes last.
+   * With a slot the channel moves there, replacing whatever was in it.
+   * @returns The group (as first spelled) and slot the channel is in
+   */
+  saveFavoriteChannel(ip: string, group: string, channelId: string, slot?: number): { group: string; slot: number } {
+    const existing = this.db.prepare(`
+      SELECT slot FROM channel_favorites
+      WHERE ip = ? AND group_name = ? AND channel_id = ?
+    `).get(ip, group, channelId) as { slot: number } | undefined;
+    // Keep the spelling the group was created with
+    const named = this.db.prepare(`
+      SELECT group_name as name FROM channel_favorites
+      WHERE ip = ? AND group_name = ?
+      LIMIT 1
+    `).get(ip, group) as { name: string } | undefined;
+    group = named?.name ?? group;
+
+    if (existing && (slot === undefined || slot === existing.slot)) {
+      return { group, slot: existing.slot };
+    }
+
+    return this.db.transaction(() => {
+      if (existing) this.deleteFavoriteChannel(ip, group, existing.slot);
+
+      const target = slot ?? ((this.db.prepare(`
+        SELECT MAX(slot) as last FROM channel_favorites
+        WHERE ip = ? AND group_name = ?
+      `).get(ip, group) as { last: number | null }).last ?? 0) + 1;
+
+      this.db.prepare(`
+        INSERT INTO channel_favorites (ip, group_name, slot, channel_id, created_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(ip, group_name, slot) DO UPDATE SET channel_id = excluded.channel_id
+      `).run(ip, group, target, channelId, new Date().toISOString());
+
+      log.info(`⭐ Saved ${channelId} as ${group} #${target} for ${ip}`);
+      return { group, slot: target };
+    })();
+  }
+
+  /**
+   * Empty one slot of a favorites group
+   * @returns Whether the slot was taken
+   */
+  deleteFavoriteChannel(ip: string, group: string, slot: number): boolean {
+    const stmt = this.db.prepare(`
+      DELETE FROM channel_favorites
+      WHERE ip = ? AND group_name = ? AND slot = ?
+    `);
+
+    return stmt.run(ip, group, slot).changes > 0;
+  }
+
+  /**
+   * Delete a favorites group with all its channels
+   * @returns Whether the group existed
+   */
+  deleteFavoriteGroup(ip: string, group: string): boolean {
+    const stmt = this.db.prepare(`
+      DELETE FROM channel_favorites
+      WHERE ip = ? AND group_name = ?
+    `);
+
+    return stmt.run(ip, group).changes > 0;
+  }
+
+  /**
+   * Map a tv_credentials row to a TVCredential
+   */
+  private toCredential(row: any): TVCredential {
     return {
       ip: row.ip,
       clientKey: row.clientKey,
       secure: row.secure === 1,
+      port: row.port ?? undefined,
       name: row.name || undefined,
+      mac: row.mac || undefined,
+      certFingerprint: row.certFingerprint || undefined,
+      permissionProfile: parsePermissionProfile(row.permissionProfile) ?? DEFAULT_PERMISSION_PROFILE,
       createdAt: row.createdAt,
       lastUsed: row.lastUsed,
       isValid: row.isValid === 1,
@@ -0,0 +1,110 @@
+export type DeepLinkService = "youtube" | "netflix" | "prime-video" | "disney-plus" | "plex" | "spotify" | "browser";
+
+/**
+ * How to open a pasted URL on the TV: the app and the launch payload it understands.
+ * Browser links have no payload; they go through system.launcher/open with the URL.
+ */
+export interface DeepLink {
+  service: DeepLinkService;
+  appId: string;
+  contentId?: string;
+  params?: Record<string, unknown>;
+  url: string;
+}
+
+export const DEEP_LINK_APPS: Record<DeepLinkService, string> = {
+  youtube: "youtube.leanback.v4",
+  netflix: "netflix",
+  "prime-video": "amazon",
+  "disney-plus": "com.disney.disneyplus-prod",
+  plex: "cdp-30",
+  spotify: "spotify-beehive",
+  browser: "com.webos.app.browser",
+};
+
+const SPOTIFY_TYPES = ["track", "album", "playlist", "artist", "episode", "show"];
+
+/**
+ * Resolve a share URL (or spotify: URI) to the app and payload that opens it
+ * @throws Error if the input is not a URL, or a known service's URL points at no content
+ */
+export function resolveDeepLink(input: string): DeepLink {
+  const raw = String(input ?? "").trim();
+
+  const spotifyUri = raw.match(/^spotify:(\w+):([A-Za-z0-9]+)$/);
+  if (spotifyUri && SPOTIFY_TYPES.includes(spotifyUri[1])) {
+    return link("spotify", raw, { contentId: raw });
+  }
+
+  // Pasted links often lack the scheme ("youtu.be/..."), but then need a dotted host
+  const hasScheme = /^[a-z][a-z0-9+.-]*:/i.test(raw);
+  let url: URL;
+  try {
+    url = new URL(hasScheme ? raw : `https://${raw}`);
+  } catch {
+    throw new Error(`Not a URL: ${input}`);
+  }
+  if (!hasScheme && !url.hostname.includes(".")) {
+    throw new Error(`Not a URL: ${input}`);
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error(`Unsupported URL scheme: ${url.protocol}`);
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^(www|m)\./, "");
+  const path = url.pathname;
+
+  if (host === "youtu.be" || host === "youtube.com" || host === "music.youtube.com") {
+    const videoId =
+      host === "youtu.be"
+        ? path.split("/")[1]
+        : url.searchParams.get("v") ?? path.match(/^\/(?:shorts|live|embed)\/([\w-]+)/)?.[1];
+    if (!videoId || !/^[\w-]{11}$/.test(videoId)) {
+      throw new Error(`No YouTube video in ${raw}`);
+    }
+    const start = parseInt(url.searchParams.get("t") ?? "", 10);
+    const target = `https://www.youtube.com/tv?v=${videoId}${start > 0 ? `&t=${start}` : ""}`;
+    return link("youtube", raw, { contentId: videoId, params: { contentTarget: target } });
+  }
+
+  if (host === "netflix.com") {
+    const match = path.match(/^(?:\/[a-z]{2}(?:-[a-z]{2})?)?\/(title|watch)\/(\d+)/i);
+    if (!match) throw new Error(`No Netflix title in ${raw}`);
+    const contentId = `m=https://www.netflix.com/${match[1].toLowerCase()}/${match[2]}&source_type=4`;
+    return link("netflix", raw, { contentId });
+  }
+
+  if (host === "primevideo.com" || (/^amazon\.[a-z.]+$/.test(host) && path.startsWith("/gp/video"))) {
+    const asin = path.match(/\/detail\/(?:[^/]+\/)?([A-Z0-9]{10,})/i)?.[1];
+    if (!asin) throw new Error(`No Prime Video title in ${raw}`);
+    return link("prime-video", raw, {
+      contentId: asin,
+      params: { contentTarget: `https://www.primevideo.com/detail/${asin}` },
+    });
+  }
+
+  if (host === "disneyplus.com" || host === "apps.disneyplus.com") {
+    const id = path.match(/\/(?:video|play|movies\/[^/]+|series\/[^/]+)\/([\w-]+)\/?$/)?.[1];
+    if (!id) throw new Error(`No Disney+ title in ${raw}`);
+    return link("disney-plus", raw, { contentId: id, params: { contentTarget: url.href } });
+  }
+
+  if (host === "app.plex.tv" || host === "watch.plex.tv") {
+    // The web app keeps the item in the hash: #!/server/<machine>/details?key=/library/metadata/<id>
+    const key = new URLSearchParams(url.hash.split("?")[1] ?? "").get("key") ?? (host === "watch.plex.tv" ? path : null);
+    if (!key || key === "/") throw new Error(`No Plex item in ${raw}`);
+    return link("plex", raw, { contentId: key, params: { contentTarget: url.href } });
+  }
+
+  if (host === "open.spotify.com") {
+    const match = path.match(/^(?:\/intl-[\w-]+)?\/(\w+)\/([A-Za-z0-9]+)/);
+    if (!match || !SPOTIFY_TYPES.includes(match[1])) throw new Error(`No Spotify item in ${raw}`);
+    return link("spotify", raw, { contentId: `spotify:${match[1]}:${match[2]}` });
+  }
+
+  return link("browser", url.href, {});
+}
+
+function link(service: DeepLinkService, url: string, payload: { contentId?: string; params?: Record<string, unknown> }): DeepLink {
+  return { service, appId: DEEP_LINK_APPS[service], ...payload, url };
+}
@@ -1,9 +1,14 @@
 import dgram from "dgram";
+import { normalizeMac } from "./wol.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("discovery");
 
 export interface DiscoveredTV {
   ip: string;
   location: string;
   name?: string;
+  mac?: string;
 }
 
 /**
@@ -49,12 +54,16 @@ export async function discoverTVs(timeout: number = 5000): Promise<DiscoveredTV[
           friendlyName = nameMatch[1].trim();
         }
 
+        // Some firmwares publish the MAC address (needed for Wake-on-LAN)
+        const macMatch = text.match(/<(?:wiredMac|wifiMac|macAddress)>([^<]+)<\//i);
+
         // Validate it's an LG TV (keep previous heuristic) and store
         if (text.toLowerCase().includes("lg")) {
           discovered.set(rinfo.address, {
             ip: rinfo.address,
             location,
             name: friendlyName,
+            mac: macMatch ? normalizeMac(macMatch[1].trim()) ?? undefined : undefined,
           });
         }
       } catch (err) {
@@ -63,7 +72,7 @@ export async function discoverTVs(timeout: number = 5000): Promise<DiscoveredTV[
     });
 
     socket.on("error", (err) => {
-      console.error("Discovery socket error:", err);
+      log.error("Discovery socket error", { error: err });
       socket.close();
     });
 
@@ -79,7 +88,7 @@ export async function discoverTVs(timeout: number = 5000): Promise<DiscoveredTV[
         1900,
         "239.255.255.250",
         (err) => {
-          if (err) console.error("Send error:", err);
+          if (err) log.error("Send error", { error: err });
         }
       );
 
@@ -0,0 +1,160 @@
+import type { PairingType } from "./client.js";
+import type { ForegroundMediaInfo, KeyboardWidget, SSAPResponse, SSAPUri } from "./ssap.js";
+
+/**
+ * Events emitted by LGTVClient, with the arguments their listeners receive.
+ *
+ * Connection events come from the client itself. State events (volumeChanged,
+ * appChanged, ...) are backed by TV subscriptions that are only opened while
+ * someone listens, see STATE_EVENT_SOURCES.
+ */
+export interface TVClientEvents {
+  connected: [info: { url: string; secure: boolean }];
+  // "closed" by disconnect(), "lost" when the socket dropped; reconnecting stops for good on
+  // "certificate-mismatch" (another certificate than the pinned one) and "rejected" (the TV
+  // no longer accepts the client-key)
+  disconnected: [info: { reason: "closed" | "lost" | "certificate-mismatch" | "rejected"; willReconnect: boolean }];
+  // paired is true for a fresh pairing, false when a stored client-key was accepted
+  registered: [info: { paired: boolean }];
+  pairingRequired: [info: { pairingType: PairingType }];
+  volumeChanged: [state: VolumeState];
+  appChanged: [state: AppState];
+  channelChanged: [state: ChannelState];
+  mediaStateChanged: [state: MediaState];
+  powerStateChanged: [state: PowerState];
+  soundOutputChanged: [state: SoundOutputState];
+  keyboardChanged: [state: KeyboardState];
+}
+
+export type TVClientEvent = keyof TVClientEvents;
+
+export interface VolumeState {
+  volume: number;
+  muted: boolean;
+  soundOutput?: string;
+}
+
+export interface AppState {
+  appId: string;
+  appName?: string;
+}
+
+export interface ChannelState {
+  channelId: string;
+  channelNumber: string;
+  channelName: string;
+  channelType?: string;
+}
+
+export interface MediaState {
+  // The first media session in the foreground, if any
+  appId: string | null;
+  playState: string | null;
+  foregroundAppInfo: ForegroundMediaInfo[];
+}
+
+export interface PowerState {
+  // "Active", "Screen Off", "Active Standby", "Suspend", ...
+  state: string;
+  processing?: string;
+}
+
+export interface SoundOutputState {
+  soundOutput: string;
+}
+
+export interface KeyboardState {
+  // Whether a text field is focused, i.e. typed text goes somewhere
+  focused: boolean;
+  contentType: string | null;
+  hiddenText: boolean;
+  // Current text of the field, if the TV shares it (never for hidden text)
+  value: string | null;
+}
+
+/**
+ * The TV subscription behind each state event and how its updates map to the event
+ */
+export const STATE_EVENT_SOURCES = {
+  volumeChanged: {
+    uri: "ssap://audio/getVolume",
+    // webOS 5+ nests the values in volumeStatus
+    map: (data: SSAPResponse<"ssap://audio/getVolume">): VolumeState => ({
+      volume: data.volumeStatus?.volume ?? data.volume,
+      muted: data.volumeStatus?.muteStatus ?? data.muted,
+      soundOutput: data.volumeStatus?.soundOutput ?? data.scenario?.replace(/^mastervolume_/, ""),
+    }),
+  },
+  appChanged: {
+    uri: "ssap://com.webos.applicationManager/getForegroundAppInfo",
+    map: (data: SSAPResponse<"ssap://com.webos.applicationManager/getForegroundAppInfo">): AppState => ({
+      appId: data.appId,
+      appName: data.appName || data.title,
+    }),
+  },
+  channelChanged: {
+    uri: "ssap://tv/getCurrentChannel",
+    map: (data: SSAPResponse<"ssap://tv/getCurrentChannel">): ChannelState => ({
+      channelId: data.channelId,
+      channelNumber: data.channelNumber,
+      channelName: data.channelName,
+      channelType: data.channelType,
+    }),
+  },
+  mediaStateChanged: {
+    uri: "ssap://com.webos.media/getForegroundAppInfo",
+    map: (data: SSAPResponse<"ssap://com.webos.media/getForegroundAppInfo">): MediaState => {
+      const foregroundAppInfo = data.foregroundAppInfo || [];
+      return {
+        appId: foregroundAppInfo[0]?.appId ?? null,
+        playState: foregroundAppInfo[0]?.playState ?? null,
+        foregroundAppInfo,
+      };
+    },
+  },
+  powerStateChanged: {
+    uri: "ssap://com.webos.service.tvpower/power/getPowerState",
+    map: (data: SSAPResponse<"ssap://com.webos.service.tvpower/power/getPowerState">): PowerState => ({
+      state: data.state,
+      processing: data.processing,
+    }),
+  },
+  soundOutputChanged: {
+    uri: "ssap://audio/getSoundOutput",
+    map: (data: SSAPResponse<"ssap://audio/getSoundOutput">): SoundOutputState => ({
+      soundOutput: data.soundOutput,
+    }),
+  },
+  keyboardChanged: {
+    uri: "ssap://com.webos.service.ime/registerRemoteKeyboard",
+    map: (data: SSAPResponse<"ssap://com.webos.service.ime/registerRemoteKeyboard">): KeyboardState => keyboardState(data.currentWidget),
+  },
+} satisfies { [E in StateEvent]: { uri: SSAPUri; map: (data: any) => TVClientEvents[E][0] } };
+
+export type StateEvent =
+  | "volumeChanged"
+  | "appChanged"
+  | "channelChanged"
+  | "mediaStateChanged"
+  | "powerStateChanged"
+  | "soundOutputChanged"
+  | "keyboardChanged";
+
+/**
+ * Map the text field reported by registerRemoteKeyboard to a keyboard state
+ */
+export function keyboardState(widget?: KeyboardWidget): KeyboardState {
+  return {
+    focused: !!widget?.focus,
+    contentType: widget?.focus ? widget.contentType ?? null : null,
+    hiddenText: !!widget?.hiddenText,
+    value: widget?.focus && !widget.hiddenText ? widget.value ?? null : null,
+  };
+}
+
+/**
+ * Whether an event is backed by a TV subscription
+ */
+export function isStateEvent(event: string | symbol): event is StateEvent {
+  return typeof event === "string" && Object.hasOwn(STATE_EVENT_SOURCES, event);
+}
@@ -0,0 +1,128 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("icons");
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const ICON_FETCH_TIMEOUT = 10000;
+// App icons are small PNGs; anything bigger is not an icon
+const MAX_ICON_BYTES = 2 * 1024 * 1024;
+
+export type IconSize = "small" | "large";
+
+export interface CachedIcon {
+  // File holding the image
+  path: string;
+  contentType: string;
+  // Strong ETag derived from the image bytes
+  etag: string;
+  // URL on the TV the icon was fetched from
+  source: string;
+  fetchedAt: string;
+}
+
+/**
+ * Whether an If-None-Match header matches an ETag: "*", or any tag of the list by weak
+ * comparison (W/"x" matches "x"), as conditional GETs require
+ */
+export function matchesIfNoneMatch(header: string | undefined, etag: string): boolean {
+  if (!header) return false;
+  if (header.trim() === "*") return true;
+
+  const opaque = (tag: string) => tag.replace(/^W\//, "");
+  const tags = header.match(/(?:W\/)?"[^"]*"/g) ?? [];
+  return tags.some((tag) => opaque(tag) === opaque(etag));
+}
+
+/**
+ * App icons fetched from the TV's HTTP server, kept on disk so they can be served
+ * from outside the LAN and while the TV is off. Every icon is fetched once.
+ */
+export class IconCache {
+  private dir: string;
+  // Fetches in progress, so a burst of requests for one icon reaches the TV once
+  private pending = new Map<string, Promise<CachedIcon>>();
+
+  constructor(dir?: string) {
+    this.dir = dir || path.join(__dirname, "../../icon-cache");
+  }
+
+  /**
+   * Get an icon from the cache
+   * @returns The icon, or null if it was never fetched
+   */
+  get(ip: string, appId: string, size: IconSize): CachedIcon | null {
+    const file = this.file(ip, appId, size);
+    try {
+      const meta = JSON.parse(fs.readFileSync(`${file}.json`, "utf8"));
+      return fs.existsSync(file) ? { ...meta, path: file } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Fetch an icon from the TV and store it. The download is shared by everyone asking
+   * for the icon meanwhile, so it only ends by its own timeout.
+   * @throws Error if the TV does not answer or does not return an image
+   */
+  async fetch(ip: string, appId: string, size: IconSize, url: string): Promise<CachedIcon> {
+    const file = this.file(ip, appId, size);
+    const running = this.pending.get(file);
+    if (running) return running;
+
+    const fetched = this.download(file, url).finally(() => this.pending.delete(file));
+    this.pending.set(file, fetched);
+    return fetched;
+  }
+
+  private async download(file: string, url: string): Promise<CachedIcon> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(ICON_FETCH_TIMEOUT) });
+    if (!response.ok) {
+      throw new Error(`TV answered ${response.status} for ${url}`);
+    }
+
+    const contentType = response.headers.get("content-type")?.split(";")[0].trim() || "application/octet-stream";
+    if (!contentType.startsWith("image/")) {
+      throw new Error(`${url} is not an image (${contentType})`);
+    }
+    const data = Buffer.from(await response.arrayBuffer());
+    if (data.length > MAX_ICON_BYTES) {
+      throw new Error(`${url} is too large for an icon (${data.length} bytes)`);
+    }
+
+    const meta: Omit<CachedIcon, "path"> = {
+      contentType,
+      etag: `"${createHash("sha256").update(data).digest("hex").slice(0, 32)}"`,
+      source: url,
+      fetchedAt: new Date().toISOString(),
+    };
+
+    // Image first, so a readable .json always has its image
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.writeAtomically(file, data);
+    this.writeAtomically(`${file}.json`, JSON.stringify(meta));
+
+    log.debug(`🖼️  Cached ${url}`, { bytes: data.length });
+    return { ...meta, path: file };
+  }
+
+  private writeAtomically(file: string, data: string | Buffer): void {
+    const temp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(temp, data);
+    fs.renameSync(temp, file);
+  }
+
+  private file(ip: string, appId: string, size: IconSize): string {
+    const key = createHash("sha1").update(`${appId}\0${size}`).digest("hex");
+    return path.join(this.dir, ip.replace(/[^\w.-]/g, "_"), key);
+  }
+}
+
+// Export singleton instance
+export const iconCache = new IconCache(process.env.ICON_CACHE_DIR);
@@ -0,0 +1,85 @@
+/**
+ * Remote control keys accepted by the pointer input socket (type:button frames)
+ */
+export const REMOTE_KEYS = [
+  // Navigation
+  "UP", "DOWN", "LEFT", "RIGHT", "ENTER", "BACK", "EXIT", "HOME",
+  "MENU", "QMENU", "INFO", "GUIDE", "LIST", "MYAPPS", "RECENT",
+  // Digits
+  "0", "1", "2", "3", "4", "5", "6", "7", "8", "9", "DASH", "ASTERISK",
+  // Volume & channels
+  "VOLUMEUP", "VOLUMEDOWN", "MUTE", "CHANNELUP", "CHANNELDOWN", "PROGRAM",
+  // Playback
+  "PLAY", "PAUSE", "STOP", "REWIND", "FASTFORWARD", "RECORD",
+  // Colour keys
+  "RED", "GREEN", "YELLOW", "BLUE",
+  // Accessibility & teletext
+  "CC", "AD", "SAP", "TELETEXT", "TEXTOPTION",
+  // Picture & screen
+  "3D_MODE", "SCREEN_REMOTE", "LIVE_ZOOM", "MAGNIFIER_ZOOM",
+  // Shortcuts
+  "NETFLIX", "AMAZON",
+  "POWER",
+] as const;
+
+export type RemoteKey = (typeof REMOTE_KEYS)[number];
+
+// Friendly names people (and agents) tend to use for the same keys
+const KEY_ALIASES: Record<string, RemoteKey> = {
+  OK: "ENTER",
+  SELECT: "ENTER",
+  VOL_UP: "VOLUMEUP",
+  VOL_DOWN: "VOLUMEDOWN",
+  CH_UP: "CHANNELUP",
+  CH_DOWN: "CHANNELDOWN",
+  FF: "FASTFORWARD",
+  REW: "REWIND",
+  STAR: "ASTERISK",
+  "*": "ASTERISK",
+  "-": "DASH",
+  SETTINGS: "QMENU",
+};
+
+export interface KeyStep {
+  key: string;
+  // Pause after this key in ms (overrides the sequence default)
+  delay?: number;
+}
+
+// Longest pause allowed between two keys of a sequence
+export const MAX_KEY_DELAY = 10000;
+
+/**
+ * Resolve a key name (case-insensitive, aliases allowed) to a remote key
+ * @returns The key, or null if the pointer socket does not know it
+ */
+export function normalizeKey(name: string): RemoteKey | null {
+  const upper = String(name).trim().toUpperCase().replace(/[\s-]+(?=\w)/g, "_");
+  if ((REMOTE_KEYS as readonly string[]).includes(upper)) return upper as RemoteKey;
+  return KEY_ALIASES[upper] ?? null;
+}
+
+/**
+ * Validate a key sequence. Entries are key names or {key, delay} steps.
+ * @throws Error naming the first unknown key or invalid delay
+ */
+export function parseKeySequence(
+  sequence: Array<string | KeyStep>,
+  defaultDelay: number = 300
+): Array<{ key: RemoteKey; delay: number }> {
+  if (!Array.isArray(sequence) || sequence.length === 0) {
+    throw new Error("keys must be a non-empty array");
+  }
+
+  return sequence.map((step, index) => {
+    const { key: name, delay = defaultDelay } = typeof step === "string" ? { key: step } : ((step ?? {}) as KeyStep);
+    const key = normalizeKey(name);
+    if (!key) {
+      throw new Error(`Unknown key at position ${index}: ${name}`);
+    }
+    if (typeof delay !== "number" || !Number.isFinite(delay) || delay < 0 || delay > MAX_KEY_DELAY) {
+      throw new Error(`Delay at position ${index} must be 0-${MAX_KEY_DELAY}ms`);
+    }
+    return { key, delay };
+  });
+}
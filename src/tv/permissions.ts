@@ -0,0 +1,205 @@
+import type { SSAPUri } from "./ssap.js";
+
+/**
+ * Permission profiles a TV can be paired with.
+ *
+ * A profile decides which permissions the registration manifest asks the TV
+ * for, and which SSAP URIs TVCommands lets through. Profiles are nested:
+ * basic-remote includes everything read-only allows, full-control everything.
+ */
+export const PERMISSION_PROFILES = ["read-only", "basic-remote", "full-control"] as const;
+
+export type PermissionProfile = (typeof PERMISSION_PROFILES)[number];
+
+// Credentials paired before profiles existed asked for everything
+export const DEFAULT_PERMISSION_PROFILE: PermissionProfile = "full-control";
+
+const READ_ONLY_PERMISSIONS = [
+  // The TV only answers audio/getVolume and getSoundOutput with CONTROL_AUDIO; volume changes are still refused by TVCommands
+  "CONTROL_AUDIO",
+  "READ_APP_STATUS",
+  "READ_CURRENT_CHANNEL",
+  "READ_INPUT_DEVICE_LIST",
+  "READ_NETWORK_STATE",
+  "READ_RUNNING_APPS",
+  "READ_INSTALLED_APPS",
+  "READ_TV_CHANNEL_LIST",
+  "READ_POWER_STATE",
+  "READ_COUNTRY_INFO",
+  "READ_SETTINGS",
+  "READ_TV_PROGRAM_INFO",
+  "READ_TV_CURRENT_TIME",
+];
+
+const BASIC_REMOTE_PERMISSIONS = [
+  ...READ_ONLY_PERMISSIONS,
+  "LAUNCH",
+  "LAUNCH_WEBAPP",
+  "APP_TO_APP",
+  "CLOSE",
+  "CONTROL_DISPLAY",
+  "CONTROL_INPUT_JOYSTICK",
+  "CONTROL_INPUT_MEDIA_PLAYBACK",
+  "CONTROL_INPUT_TV",
+  "CONTROL_INPUT_TEXT",
+  "CONTROL_MOUSE_AND_KEYBOARD",
+  "CONTROL_POWER",
+  "WRITE_NOTIFICATION_TOAST",
+  "CONTROL_TV_SCREEN",
+  "CONTROL_TV_STANBY",
+  "CONTROL_TV_POWER",
+  "CONTROL_WOL",
+];
+
+// Everything the original manifest asked for, including recording and channel editing
+const FULL_CONTROL_PERMISSIONS = [
+  ...BASIC_REMOTE_PERMISSIONS,
+  "TEST_OPEN",
+  "TEST_PROTECTED",
+  "CONTROL_INPUT_MEDIA_RECORDING",
+  "CONTROL_FAVORITE_GROUP",
+  "CONTROL_USER_INFO",
+  "CHECK_BLUETOOTH_DEVICE",
+  "CONTROL_BLUETOOTH",
+  "CONTROL_TIMER_INFO",
+  "STB_INTERNAL_CONNECTION",
+  "CONTROL_RECORDING",
+  "READ_RECORDING_STATE",
+  "WRITE_RECORDING_LIST",
+  "READ_RECORDING_LIST",
+  "READ_RECORDING_SCHEDULE",
+  "WRITE_RECORDING_SCHEDULE",
+  "READ_STORAGE_DEVICE_LIST",
+  "CONTROL_BOX_CHANNEL",
+  "READ_TV_ACR_AUTH_TOKEN",
+  "READ_TV_CONTENT_STATE",
+  "ADD_LAUNCHER_CHANNEL",
+  "SET_CHANNEL_SKIP",
+  "RELEASE_CHANNEL_SKIP",
+  "CONTROL_CHANNEL_BLOCK",
+  "DELETE_SELECT_CHANNEL",
+  "CONTROL_CHANNEL_GROUP",
+  "SCAN_TV_CHANNELS",
+];
+
+export const PROFILE_DETAILS: Record<PermissionProfile, { description: string; permissions: string[] }> = {
+  "read-only": {
+    description: "Read volume, power state, apps, channels and inputs. Cannot change anything.",
+    permissions: READ_ONLY_PERMISSIONS,
+  },
+  "basic-remote": {
+    description: "Everything a remote control does: volume, playback, keys, pointer, apps, channels, inputs, power and toasts.",
+    permissions: BASIC_REMOTE_PERMISSIONS,
+  },
+  "full-control": {
+    description: "Every permission, including sound output, sound and picture settings, alerts, recording and channel editing.",
+    permissions: FULL_CONTROL_PERMISSIONS,
+  },
+};
+
+// Lowest profile allowed to call each URI. Typed over the catalog, so new URIs must be classified.
+const URI_PROFILES: Record<SSAPUri, PermissionProfile> = {
+  "ssap://pairing/setPin": "read-only",
+
+  "ssap://audio/getVolume": "read-only",
+  "ssap://audio/getSoundOutput": "read-only",
+  "ssap://audio/volumeUp": "basic-remote",
+  "ssap://audio/volumeDown": "basic-remote",
+  "ssap://audio/setVolume": "basic-remote",
+  "ssap://audio/setMute": "basic-remote",
+  "ssap://audio/changeSoundOutput": "full-control",
+
+  "ssap://media.viewer/getMediaMetaData": "read-only",
+  "ssap://com.webos.media/getForegroundAppInfo": "read-only",
+  "ssap://media.controls/play": "basic-remote",
+  "ssap://media.controls/pause": "basic-remote",
+  "ssap://media.controls/stop": "basic-remote",
+  "ssap://media.controls/rewind": "basic-remote",
+  "ssap://media.controls/fastForward": "basic-remote",
+
+  "ssap://com.webos.service.tvpower/power/getPowerState": "read-only",
+  "ssap://com.webos.service.update/getCurrentSWInformation": "read-only",
+  "ssap://com.webos.service.connectionmanager/getinfo": "read-only",
+  "ssap://settings/getSystemSettings": "read-only",
+  "ssap://settings/getSystemSettingDesc": "read-only",
+  "ssap://system/turnOff": "basic-remote",
+  "ssap://system/turnOn": "basic-remote",
+  "ssap://com.webos.service.tvpower/power/turnOffScreen": "basic-remote",
+  "ssap://com.webos.service.tvpower/power/turnOnScreen": "basic-remote",
+
+  "ssap://system.notifications/createToast": "basic-remote",
+  "ssap://system.notifications/createAlert": "full-control",
+  "ssap://system.notifications/closeAlert": "full-control",
+
+  "ssap://com.webos.service.search/search": "read-only",
+
+  "ssap://com.webos.applicationManager/listLaunchPoints": "read-only",
+  "ssap://com.webos.applicationManager/listApps": "read-only",
+  "ssap://com.webos.service.applicationmanager/listRunningApps": "read-only",
+  "ssap://com.webos.applicationManager/getForegroundAppInfo": "read-only",
+  "ssap://system.launcher/launch": "basic-remote",
+  "ssap://system.launcher/open": "basic-remote",
+  "ssap://system.launcher/close": "basic-remote",
+
+  "ssap://tv/getCurrentChannel": "read-only",
+  "ssap://tv/getChannelList": "read-only",
+  "ssap://tv/getChannelProgramInfo": "read-only",
+  "ssap://tv/channelUp": "basic-remote",
+  "ssap://tv/channelDown": "basic-remote",
+  "ssap://tv/openChannel": "basic-remote",
+
+  "ssap://tv/getExternalInputList": "read-only",
+  "ssap://tv/switchInput": "basic-remote",
+
+  "ssap://com.webos.service.ime/insertText": "basic-remote",
+  "ssap://com.webos.service.ime/deleteCharacters": "basic-remote",
+  "ssap://com.webos.service.ime/sendEnterKey": "basic-remote",
+  "ssap://com.webos.service.ime/registerRemoteKeyboard": "basic-remote",
+
+  // Buttons and the Magic Remote cursor go through the pointer socket
+  "ssap://com.webos.service.networkinput/getPointerInputSocket": "basic-remote",
+};
+
+/**
+ * Parse a profile name (case-insensitive, "_" or " " instead of "-" allowed)
+ * @returns The profile, or null if there is no such profile
+ */
+export function parsePermissionProfile(value: unknown): PermissionProfile | null {
+  const name = String(value ?? "").trim().toLowerCase().replace(/[\s_]+/g, "-");
+  return (PERMISSION_PROFILES as readonly string[]).includes(name) ? (name as PermissionProfile) : null;
+}
+
+/**
+ * Get the lowest profile that may call a URI
+ */
+export function requiredProfile(uri: SSAPUri): PermissionProfile {
+  return URI_PROFILES[uri] ?? "full-control";
+}
+
+/**
+ * Check whether a profile may call a URI
+ */
+export function profileAllows(profile: PermissionProfile, uri: SSAPUri): boolean {
+  return PERMISSION_PROFILES.indexOf(profile) >= PERMISSION_PROFILES.indexOf(requiredProfile(uri));
+}
+
+/**
+ * A URI outside the permission profile the TV was paired with
+ */
+export class PermissionDeniedError extends Error {
+  constructor(readonly uri: SSAPUri, readonly profile: PermissionProfile) {
+    super(
+      `Permission denied: ${uri} requires the "${requiredProfile(uri)}" profile, but this TV was paired with "${profile}". ` +
+      `Reconnect with {force: true, profile: "${requiredProfile(uri)}"} to allow it.`
+    );
+    this.name = "PermissionDeniedError";
+  }
+}
+
+/**
+ * Refuse URIs outside a profile before anything reaches the TV
+ * @throws PermissionDeniedError naming the URI and the profile it needs
+ */
+export function assertProfileAllows(profile: PermissionProfile, uri: SSAPUri): void {
+  if (!profileAllows(profile, uri)) throw new PermissionDeniedError(uri, profile);
+}
@@ -0,0 +1,173 @@
+import type { SettingDescription } from "./ssap.js";
+
+export const PICTURE_MODES = [
+  "vivid", "standard", "eco", "cinema", "sports", "game", "filmMaker", "expert1", "expert2",
+] as const;
+
+export type PictureMode = (typeof PICTURE_MODES)[number];
+
+// Friendly names for the same modes
+const PICTURE_MODE_ALIASES: Record<string, PictureMode> = {
+  movie: "cinema",
+  console: "game",
+  gaming: "game",
+  energysaving: "eco",
+};
+
+export const ENERGY_SAVING_MODES = ["off", "auto", "min", "med", "max", "screen_off"] as const;
+
+export type EnergySaving = (typeof ENERGY_SAVING_MODES)[number];
+
+/**
+ * Picture settings read and written through the settings service ("picture" category)
+ */
+export interface PictureSettings {
+  // One of PICTURE_MODES, or another mode the TV lists (e.g. an HDR mode)
+  pictureMode: string;
+  // 0-100
+  backlight: number;
+  contrast: number;
+  brightness: number;
+  color: number;
+  // "W50" (warmest) to "C50" (coolest), "W0"/"C0" is neutral
+  colorTemperature: string;
+  energySaving: EnergySaving;
+}
+
+export const PICTURE_SETTING_KEYS: (keyof PictureSettings)[] = [
+  "pictureMode", "backlight", "contrast", "brightness", "color", "colorTemperature", "energySaving",
+];
+
+/**
+ * Values a TV allows for one setting: a list of options or a numeric range
+ */
+export interface AllowedSettingValues {
+  options?: string[];
+  range?: { min: number; max: number };
+}
+
+/**
+ * A setting value that is invalid, or that this TV does not offer
+ */
+export class InvalidSettingError extends Error {
+  constructor(message: string, readonly allowed?: AllowedSettingValues) {
+    super(message);
+    this.name = "InvalidSettingError";
+  }
+}
+
+/**
+ * Turn the TV's setting descriptions into the options and ranges it allows.
+ * Options the model hides or disables are left out.
+ */
+export function allowedSettingValues(descriptions: SettingDescription[]): Record<string, AllowedSettingValues> {
+  const allowed: Record<string, AllowedSettingValues> = {};
+  for (const { key, values } of descriptions) {
+    if (values?.range && Number.isFinite(values.range.min) && Number.isFinite(values.range.max)) {
+      allowed[key] = { range: { min: values.range.min, max: values.range.max } };
+    } else if (values?.arrayExt) {
+      allowed[key] = {
+        options: values.arrayExt.filter((o) => o.active !== false && o.visible !== false).map((o) => o.value),
+      };
+    } else if (values?.array) {
+      allowed[key] = { options: values.array };
+    }
+  }
+  return allowed;
+}
+
+/**
+ * Resolve a picture mode name (case-insensitive, spaces and aliases allowed).
+ * Pass the modes the TV lists to resolve against those instead of PICTURE_MODES.
+ * @returns The mode in the spelling of the list, or null if there is no such mode
+ */
+export function parsePictureMode(name: unknown, modes: readonly string[] = PICTURE_MODES): string | null {
+  const compact = (mode: unknown) => String(mode ?? "").replace(/[\s_-]+/g, "").toLowerCase();
+  const key = compact(name);
+  const alias = PICTURE_MODE_ALIASES[key]?.toLowerCase();
+  return modes.find((mode) => compact(mode) === key) ?? modes.find((mode) => mode.toLowerCase() === alias) ?? null;
+}
+
+/**
+ * Validate a partial set of picture settings.
+ * Pass what the TV reported to refuse keys this TV does not have, and the options and
+ * ranges it allows to refuse values it does not offer (e.g. a picture mode of another model).
+ * @throws InvalidSettingError naming the first unknown key or invalid value
+ */
+export function parsePictureSettings(
+  input: unknown,
+  reported?: Record<string, unknown>,
+  allowed: Record<string, AllowedSettingValues> = {}
+): Partial<PictureSettings> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new InvalidSettingError("settings must be an object");
+  }
+
+  const settings: Partial<PictureSettings> = {};
+  for (const [key, value] of Object.entries(input)) {
+    switch (key) {
+      case "pictureMode": {
+        // The modes this TV lists, if it describes them
+        const modes = allowed.pictureMode?.options ?? PICTURE_MODES;
+        const mode = parsePictureMode(value, modes);
+        if (!mode) {
+          throw new InvalidSettingError(`Unknown pictureMode: ${value}. Valid modes: ${modes.join(", ")}`, {
+            options: [...modes],
+          });
+        }
+        settings.pictureMode = mode;
+        break;
+      }
+      case "backlight":
+      case "contrast":
+      case "brightness":
+      case "color": {
+        const { min, max } = allowed[key]?.range ?? { min: 0, max: 100 };
+        if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+          throw new InvalidSettingError(`${key} must be an integer from ${min} to ${max}`, { range: { min, max } });
+        }
+        settings[key] = value as number;
+        break;
+      }
+      case "colorTemperature": {
+        const temperature = String(value).trim().toUpperCase();
+        const match = temperature.match(/^([WC])(\d{1,2})$/);
+        if (!match || Number(match[2]) > 50) {
+          throw new InvalidSettingError('colorTemperature must be "W50" (warm) to "C50" (cool), e.g. "W0" or "C20"');
+        }
+        settings.colorTemperature = `${match[1]}${Number(match[2])}`;
+        break;
+      }
+      case "energySaving":
+        if (!(ENERGY_SAVING_MODES as readonly unknown[]).includes(value)) {
+          throw new InvalidSettingError(`energySaving must be one of ${ENERGY_SAVING_MODES.join(", ")}`, {
+            options: [...(allowed.energySaving?.options ?? ENERGY_SAVING_MODES)],
+          });
+        }
+        settings.energySaving = value as EnergySaving;
+        break;
+      default:
+        throw new InvalidSettingError(`Unknown picture setting: ${key}. Valid settings: ${PICTURE_SETTING_KEYS.join(", ")}`);
+    }
+
+    if (reported && !(key in reported)) {
+      throw new InvalidSettingError(`This TV does not report ${key}, so it cannot be changed`);
+    }
+
+    // Ranges were checked above; options once the value is normalized, sent in the TV's spelling
+    const options = allowed[key]?.options;
+    if (options) {
+      const normalized = String(settings[key as keyof PictureSettings]);
+      const option = options.find((o) => o.toLowerCase() === normalized.toLowerCase());
+      if (!option) {
+        throw new InvalidSettingError(`${key} ${normalized} is not available on this TV. Allowed: ${options.join(", ")}`, { options });
+      }
+      (settings as Record<string, unknown>)[key] = option;
+    }
+  }
+
+  if (Object.keys(settings).length === 0) {
+    throw new InvalidSettingError(`No picture settings given. Valid settings: ${PICTURE_SETTING_KEYS.join(", ")}`);
+  }
+  return settings;
+}
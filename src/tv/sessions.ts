@@ -0,0 +1,447 @@
+import { ClientKeyRejectedError, LGTVClient, type RequestOptions } from "./client.js";
+import { TVCommands } from "./commands.js";
+import { tvDatabase, type TVCredential } from "./database.js";
+import type { SubscriptionHub } from "./subscriptions.js";
+import { TVStateModel } from "./state.js";
+import { normalizeMac, sendMagicPacket, waitForPort } from "./wol.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("sessions");
+
+export interface PowerOnResult {
+  ip: string;
+  mac: string;
+  port: number;
+  session: TVSession | null;
+  elapsedMs: number;
+}
+
+export interface TVSession {
+  ip: string;
+  name?: string;
+  secure: boolean;
+  client: LGTVClient;
+  // null while a pairing is still in progress
+  commands: TVCommands | null;
+  // TV subscriptions shared by every listener (SSE clients, ...)
+  subscriptions: SubscriptionHub;
+  // Live state fed by TV subscriptions, null while a pairing is still in progress
+  state: TVStateModel | null;
+  connectedAt: string;
+}
+
+/**
+ * The endpoint to connect to: what the request asks for, else what the stored credentials
+ * remember. A TV paired over wss, or with a pinned certificate, is never reached over ws,
+ * so its client-key cannot go out unencrypted to whatever answers on port 3000.
+ * @throws Error if ws is asked for such a TV
+ */
+export function connectEndpoint(
+  stored: TVCredential | null,
+  requested: { secure?: boolean; port?: number }
+): { secure?: boolean; port?: number } {
+  if (!stored) return requested;
+
+  if (requested.secure === false && (stored.secure || stored.certFingerprint)) {
+    throw new Error(
+      `${stored.ip} was paired over a secure connection, refusing to connect with ws. ` +
+      `Delete its saved credentials to pair it again without TLS.`
+    );
+  }
+
+  const secure = requested.secure ?? stored.secure;
+  return { secure, port: requested.port ?? (secure === stored.secure ? stored.port : undefined) };
+}
+
+/**
+ * Keeps one live LGTVClient per TV so several TVs can be controlled at once.
+ * Sessions are keyed by IP (the tv_credentials primary key) and can be
+ * addressed by IP or friendly name.
+ */
+export class TVSessionManager {
+  private sessions = new Map<string, TVSession>();
+  private defaultTarget: string | null;
+  // Why the last reconnect to a TV failed, so callers can report more than "not connected"
+  private lastErrors = new Map<string, string>();
+  // Reconnects in progress, so concurrent requests for one TV open one client
+  private pendingReconnects = new Map<string, Promise<TVSession | null>>();
+
+  constructor(defaultTarget?: string) {
+    this.defaultTarget = defaultTarget || null;
+  }
+
+  /**
+   * Register (or replace) the session for a TV
+   */
+  set(ip: string, client: LGTVClient, commands: TVCommands | null, options: { secure: boolean; name?: string }): TVSession {
+    const existing = this.sessions.get(ip);
+    const sameClient = existing?.client === client;
+    if (existing?.commands && existing.commands !== commands) {
+      existing.commands.apps.stop();
+      existing.commands.channels.stop();
+    }
+    if (existing && !sameClient) {
+      existing.state?.stop();
+      existing.client.disconnect();
+    }
+    if (!sameClient) {
+      client.on("disconnected", ({ reason }) => {
+        if (reason === "certificate-mismatch" || reason === "rejected") this.dropStoppedSession(ip, client, reason);
+      });
+    }
+
+    const session: TVSession = {
+      ip,
+      name: options.name ?? existing?.name ?? tvDatabase.getCredentials(ip)?.name,
+      secure: options.secure,
+      client,
+      commands,
+      subscriptions: client.sharedSubscriptions,
+      state: commands ? (sameClient && existing.state) || new TVStateModel(client) : null,
+      connectedAt: sameClient ? existing.connectedAt : new Date().toISOString(),
+    };
+
+    this.sessions.set(ip, session);
+    commands?.apps.watch();
+    return session;
+  }
+
+  /**
+   * Get the live session for a target (IP or name), falling back to the default TV
+   */
+  get(target?: string | null): TVSession | null {
+    const ip = this.resolveIP(target);
+    return ip ? this.sessions.get(ip) || null : null;
+  }
+
+  /**
+   * List all live sessions
+   */
+  list(): TVSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Disconnect and forget the session for a TV
+   */
+  remove(target?: string | null): TVSession | null {
+    const session = this.get(target);
+    if (!session) return null;
+
+    session.state?.stop();
+    session.commands?.apps.stop();
+    session.commands?.channels.stop();
+    session.client.disconnect();
+    this.sessions.delete(session.ip);
+    return session;
+  }
+
+  /**
+   * Disconnect every session
+   */
+  clear(): void {
+    for (const session of this.sessions.values()) {
+      session.state?.stop();
+      session.commands?.apps.stop();
+      session.commands?.channels.stop();
+      session.client.disconnect();
+    }
+    this.sessions.clear();
+  }
+
+  /**
+   * Resolve a target (IP or friendly name) to a TV IP.
+   * Without a target the configured default is used, then the only live
+   * session, then the most recently used saved TV.
+   */
+  resolveIP(target?: string | null): string | null {
+    const wanted = target?.trim() || this.defaultTarget;
+    if (wanted) {
+      return this.lookup(wanted);
+    }
+
+    if (this.sessions.size === 1) {
+      return this.sessions.keys().next().value ?? null;
+    }
+
+    return tvDatabase.getMostRecentTV()?.ip ?? null;
+  }
+
+  /**
+   * Get the configured default target
+   */
+  getDefault(): string | null {
+    return this.defaultTarget;
+  }
+
+  /**
+   * Set the default target used when a request does not name a TV
+   */
+  setDefault(target: string | null): void {
+    if (target && !this.lookup(target)) {
+      throw new Error(`Unknown TV: ${target}`);
+    }
+    this.defaultTarget = target || null;
+  }
+
+  /**
+   * Return a live session for the target, auto-reconnecting with stored credentials if needed
+   */
+  async ensure(target?: string | null): Promise<TVSession | null> {
+    const ip = this.resolveIP(target);
+    if (!ip) return null;
+
+    const session = this.sessions.get(ip);
+    if (session) return session;
+
+    // Reconnecting cannot get past a changed certificate, only trustCertificate() can
+    if (this.hasCertificateMismatch(ip)) return null;
+
+    return this.reconnect(ip);
+  }
+
+  /**
+   * Reconnect to a TV using stored credentials. Concurrent calls for one TV share the attempt.
+   */
+  reconnect(ip: string): Promise<TVSession | null> {
+    const running = this.pendingReconnects.get(ip);
+    if (running) return running;
+
+    const attempt = this.connectStored(ip).finally(() => this.pendingReconnects.delete(ip));
+    this.pendingReconnects.set(ip, attempt);
+    return attempt;
+  }
+
+  private async connectStored(ip: string): Promise<TVSession | null> {
+    let client: LGTVClient | null = null;
+    try {
+      const credentials = tvDatabase.getCredentials(ip);
+      if (!credentials || !credentials.isValid) {
+        log.warn(`⚠️  No valid credentials found for ${ip}`);
+        return null;
+      }
+
+      log.info(`🔄 Auto-reconnecting to ${ip}...`);
+
+      client = new LGTVClient({
+        ip: credentials.ip,
+        secure: credentials.secure,
+        port: credentials.port,
+        clientKey: credentials.clientKey,
+        pinnedFingerprint: credentials.certFingerprint,
+        permissionProfile: credentials.permissionProfile,
+      });
+
+      await client.connect();
+      await client.registerWithStoredKey();
+      this.lastErrors.delete(ip);
+
+      // Credentials paired before pinning existed: trust the certificate seen now
+      if (credentials.secure && !credentials.certFingerprint && client.certificateFingerprint) {
+        tvDatabase.saveCertificateFingerprint(ip, client.certificateFingerprint);
+      }
+
+      const session = this.set(ip, client, new TVCommands(client), {
+        secure: credentials.secure,
+        name: credentials.name,
+      });
+
+      log.info(`✅ Auto-reconnected to ${ip}`);
+
+      if (!credentials.mac) {
+        this.learnMacAddress(ip).catch(() => {});
+      }
+      return session;
+    } catch (err: any) {
+      log.error(`❌ Auto-reconnect to ${ip} failed`, { error: err.message });
+      this.lastErrors.set(ip, err.message);
+      // Nobody holds this client, so it must not keep a socket or reconnect on its own
+      client?.disconnect();
+
+      // If the TV refused the client-key, invalidate credentials
+      if (err instanceof ClientKeyRejectedError) {
+        tvDatabase.invalidateCredentials(ip);
+        log.warn(`🔑 Credentials expired for ${ip}, please reconnect manually`);
+      }
+
+      return null;
+    }
+  }
+
+  /**
+   * Store the client-key of a freshly paired client and make it the TV's session.
+   * Pins the certificate seen while pairing (trust on first use), replacing any older pin;
+   * a pairing over ws clears it.
+   */
+  finishPairing(ip: string, client: LGTVClient, options: { secure: boolean; name?: string; mac?: string }): TVSession {
+    if (!client.clientKey) {
+      throw new Error(`Pairing with ${ip} did not return a client-key`);
+    }
+
+    tvDatabase.saveCredentials(ip, client.clientKey, options.secure, options.name, options.mac, client.endpoint?.port);
+    if ((tvDatabase.getCredentials(ip)?.certFingerprint ?? null) !== client.certificateFingerprint) {
+      tvDatabase.saveCertificateFingerprint(ip, client.certificateFingerprint);
+    }
+    tvDatabase.savePermissionProfile(ip, client.permissionProfile);
+    this.lastErrors.delete(ip);
+
+    const session = this.set(ip, client, new TVCommands(client), { secure: options.secure, name: options.name });
+    if (!options.mac) {
+      this.learnMacAddress(ip).catch(() => {});
+    }
+    return session;
+  }
+
+  /**
+   * Get the error of the last failed reconnect to a TV, if any
+   */
+  getLastError(ip: string): string | null {
+    return this.lastErrors.get(ip) ?? null;
+  }
+
+  /**
+   * Whether the last connection to a TV was refused because its certificate changed
+   */
+  hasCertificateMismatch(ip: string): boolean {
+    return this.lastErrors.get(ip)?.startsWith("Certificate mismatch") ?? false;
+  }
+
+  /**
+   * The client stopped reconnecting: forget its session and keep the error, so status calls
+   * can send the user to the trust flow (certificate mismatch) or to pairing (rejected key)
+   */
+  private dropStoppedSession(ip: string, client: LGTVClient, reason: "certificate-mismatch" | "rejected"): void {
+    if (this.sessions.get(ip)?.client !== client) return;
+
+    if (reason === "rejected") {
+      this.lastErrors.set(ip, client.reconnectError ?? "Client-key rejected");
+      tvDatabase.invalidateCredentials(ip);
+      log.warn(`🔑 ${ip} no longer accepts its client-key, please pair again`);
+    } else {
+      this.lastErrors.set(ip, client.reconnectError ?? "Certificate mismatch");
+      log.error(`🚨 Stopped reconnecting to ${ip}, its certificate changed. Re-trust it once you know why.`);
+    }
+    this.remove(ip);
+  }
+
+  /**
+   * Re-trust a TV whose certificate changed (factory reset, firmware update).
+   * Connects without pinning, reads the certificate and pins it. Pass the expected
+   * fingerprint to make sure the certificate really is the one shown by the TV.
+   */
+  async trustCertificate(target?: string | null, expected?: string): Promise<{ ip: string; previous: string | null; fingerprint: string }> {
+    const ip = this.resolveIP(target);
+    const credentials = ip ? tvDatabase.getCredentials(ip) : null;
+    if (!ip || !credentials) {
+      throw new Error(target ? `Unknown TV: ${target}` : "No TV specified and no stored credentials found");
+    }
+    if (!credentials.secure) {
+      throw new Error(`${ip} uses a non-secure connection, there is no certificate to trust`);
+    }
+
+    // Only open the socket: nothing (in particular not the client-key) is sent
+    const probe = new LGTVClient({ ip, secure: true, port: credentials.port, autoReconnect: false });
+    try {
+      await probe.connect();
+    } finally {
+      probe.disconnect();
+    }
+
+    const fingerprint = probe.certificateFingerprint;
+    if (!fingerprint) {
+      throw new Error(`${ip} did not present a certificate`);
+    }
+    const hex = (value: string) => value.replace(/[^0-9a-f]/gi, "").toUpperCase();
+    if (expected && hex(expected) !== hex(fingerprint)) {
+      throw new Error(`Certificate of ${ip} is ${fingerprint}, not the expected ${expected}. Not trusting it.`);
+    }
+
+    tvDatabase.saveCertificateFingerprint(ip, fingerprint);
+    this.lastErrors.delete(ip);
+
+    // Sessions keep the fingerprint they were created with, so start over
+    this.remove(ip);
+
+    return { ip, previous: credentials.certFingerprint ?? null, fingerprint };
+  }
+
+  /**
+   * Ask the connected TV for its MAC address and store it for Wake-on-LAN
+   */
+  async learnMacAddress(ip: string): Promise<string | null> {
+    const session = this.sessions.get(ip);
+    if (!session?.commands) return null;
+
+    try {
+      const mac = normalizeMac((await session.commands.getMacAddress()) || "");
+      if (mac) {
+        tvDatabase.saveMacAddress(ip, mac);
+      }
+      return mac;
+    } catch (err: any) {
+      log.warn(`⚠️  Could not read MAC address from ${ip}`, { error: err.message });
+      return null;
+    }
+  }
+
+  /**
+   * Power on a TV with Wake-on-LAN, wait for its WebSocket ports and reconnect.
+   * ssap://system/turnOn cannot work here because the socket is down while the TV is off.
+   * The timeout (default 60 s) is how long the TV may take to boot; the signal stops the wait.
+   */
+  async powerOn(target?: string | null, options: RequestOptions & { mac?: string } = {}): Promise<PowerOnResult> {
+    const ip = this.resolveIP(target);
+    if (!ip) {
+      throw new Error(target ? `Unknown TV: ${target}` : "No TV specified and no stored credentials found");
+    }
+
+    let mac = options.mac ? normalizeMac(options.mac) : null;
+    if (options.mac && !mac) {
+      throw new Error(`Invalid MAC address: ${options.mac}`);
+    }
+    if (mac) {
+      tvDatabase.saveMacAddress(ip, mac);
+    } else {
+      mac = tvDatabase.getCredentials(ip)?.mac ?? null;
+    }
+    if (!mac) {
+      throw new Error(`No MAC address stored for ${ip}. Connect once while the TV is on so it can be learned, or pass mac.`);
+    }
+
+    const started = Date.now();
+    log.info(`⚡ Sending Wake-on-LAN packet to ${mac} (${ip})...`);
+    await sendMagicPacket(mac);
+
+    const port = await waitForPort(ip, [3001, 3000], { timeout: options.timeout ?? 60000, signal: options.signal });
+    log.info(`✅ ${ip} is accepting connections on port ${port}`);
+
+    // Prefer reviving the existing client so its subscriptions survive
+    let session = this.sessions.get(ip) ?? null;
+    if (session?.commands) {
+      if (!(await session.client.reconnectNow())) {
+        session = null;
+      }
+    } else {
+      session = await this.reconnect(ip);
+    }
+
+    return { ip, mac, port, session, elapsedMs: Date.now() - started };
+  }
+
+  private lookup(target: string): string | null {
+    if (this.sessions.has(target)) return target;
+
+    const lower = target.toLowerCase();
+    for (const session of this.sessions.values()) {
+      if (session.name?.toLowerCase() === lower) return session.ip;
+    }
+
+    const saved = tvDatabase.getAllCredentials().find(
+      (c) => c.ip === target || c.name?.toLowerCase() === lower
+    );
+    return saved?.ip ?? null;
+  }
+}
+
+// Export singleton instance
+export const tvSessions = new TVSessionManager(process.env.DEFAULT_TV);
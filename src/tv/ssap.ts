@@ -0,0 +1,293 @@
+/**
+ * Typed catalog of the SSAP (ssap://) URIs this project talks to.
+ *
+ * Every entry maps a URI to the payload it accepts and the payload the TV
+ * answers with. LGTVClient.request/subscribe are generic over this catalog,
+ * so adding a new command starts by describing it here.
+ *
+ * Shapes follow what webOS 3.x-6.x TVs return; fields that only some firmware
+ * versions send are optional.
+ */
+
+// Fields present on every SSAP response payload
+export interface SSAPResult {
+  returnValue: boolean;
+  errorText?: string;
+  // Set on subscription updates
+  subscribed?: boolean;
+}
+
+// ==================== SHARED SHAPES ====================
+
+export type SoundOutput =
+  | "tv_speaker"
+  | "external_speaker"
+  | "external_optical"
+  | "external_arc"
+  | "lineout"
+  | "headphone"
+  | "tv_external_speaker"
+  | "tv_speaker_headphone"
+  | "bt_soundbar";
+
+export interface VolumeStatus {
+  volume: number;
+  muted: boolean;
+  // e.g. "mastervolume_tv_speaker"
+  scenario?: string;
+  changed?: string[];
+  // webOS 5+ nests the values here instead
+  volumeStatus?: {
+    volume: number;
+    muteStatus: boolean;
+    soundOutput: string;
+    maxVolume?: number;
+  };
+}
+
+export interface ForegroundMediaInfo {
+  appId: string;
+  playState: "playing" | "paused" | "stopped" | "loaded" | "unloaded" | string;
+  type: string;
+  mediaId: string;
+  windowId: string;
+}
+
+export interface NetworkInterfaceInfo {
+  macAddress?: string;
+  state?: "connected" | "disconnected" | string;
+  ipAddress?: string;
+  interfaceName?: string;
+}
+
+export interface LaunchPoint {
+  id: string;
+  launchPointId?: string;
+  title: string;
+  icon?: string;
+  largeIcon?: string;
+  appType?: string;
+}
+
+// Sent by a listLaunchPoints subscription when one launch point is added, removed or updated
+export interface LaunchPointChange extends LaunchPoint {
+  change: "added" | "removed" | "updated";
+}
+
+export interface InstalledApp {
+  id: string;
+  title: string;
+  icon?: string;
+  largeIcon?: string;
+  version?: string;
+  systemApp?: boolean;
+  visible?: boolean;
+}
+
+export interface RunningApp {
+  id: string;
+  processid?: string;
+  webprocessid?: string;
+}
+
+export interface TVChannel {
+  channelId: string;
+  channelNumber: string;
+  channelName: string;
+  channelType?: string;
+  channelTypeName?: string;
+  channelModeName?: string;
+  majorNumber?: number;
+  minorNumber?: number;
+  HDTV?: boolean;
+  Radio?: boolean;
+  skipped?: boolean;
+  Invisible?: boolean;
+  locked?: boolean;
+  // Channel logo, on the TV's own HTTP server
+  imgUrl?: string;
+}
+
+export interface TVProgram {
+  programName: string;
+  startTime: string;
+  endTime: string;
+  description?: string;
+}
+
+export interface ExternalInput {
+  id: string;
+  label: string;
+  port?: number;
+  appId: string;
+  icon?: string;
+  connected?: boolean;
+  modified?: boolean;
+}
+
+// The text field the TV's keyboard is attached to, reported by registerRemoteKeyboard
+export interface KeyboardWidget {
+  focus: boolean;
+  // "text", "password", "email", "number", "url", ...
+  contentType?: string;
+  hiddenText?: boolean;
+  predictionEnabled?: boolean;
+  value?: string;
+  cursorPosition?: number;
+}
+
+export interface SettingDescription {
+  category?: string;
+  key: string;
+  // How the setting is edited, e.g. "Array" or "Range"
+  vtype?: string;
+  values?: {
+    // Options with whether this model offers them
+    arrayExt?: { value: string; active?: boolean; visible?: boolean }[];
+    array?: string[];
+    range?: { min: number; max: number; interval?: number };
+  };
+}
+
+export interface AlertButton {
+  label: string;
+  onClick?: string;
+  params?: Record<string, unknown>;
+}
+
+export interface LaunchPayload {
+  id: string;
+  contentId?: string;
+  params?: Record<string, unknown>;
+}
+
+// ==================== CATALOG ====================
+
+type Empty = Record<string, never>;
+
+interface Entry<Payload, Response> {
+  payload: Payload;
+  response: Response;
+}
+
+export interface SSAPCatalog {
+  // Pairing
+  "ssap://pairing/setPin": Entry<{ pin: string }, {}>;
+
+  // Audio
+  "ssap://audio/volumeUp": Entry<Empty, {}>;
+  "ssap://audio/volumeDown": Entry<Empty, {}>;
+  "ssap://audio/setVolume": Entry<{ volume: number }, {}>;
+  "ssap://audio/getVolume": Entry<Empty, VolumeStatus>;
+  "ssap://audio/setMute": Entry<{ mute: boolean }, {}>;
+  "ssap://audio/getSoundOutput": Entry<Empty, { soundOutput: SoundOutput }>;
+  "ssap://audio/changeSoundOutput": Entry<{ output: SoundOutput }, {}>;
+
+  // Media
+  "ssap://media.controls/play": Entry<Empty, {}>;
+  "ssap://media.controls/pause": Entry<Empty, {}>;
+  "ssap://media.controls/stop": Entry<Empty, {}>;
+  "ssap://media.controls/rewind": Entry<Empty, {}>;
+  "ssap://media.controls/fastForward": Entry<Empty, {}>;
+  "ssap://media.viewer/getMediaMetaData": Entry<
+    Empty,
+    { mediaType?: string; title?: string; duration?: number; position?: number }
+  >;
+  "ssap://com.webos.media/getForegroundAppInfo": Entry<Empty, { foregroundAppInfo: ForegroundMediaInfo[] }>;
+
+  // System
+  "ssap://system/turnOff": Entry<Empty, {}>;
+  "ssap://system/turnOn": Entry<Empty, {}>;
+  "ssap://com.webos.service.tvpower/power/turnOffScreen": Entry<{ standbyMode?: "active" }, {}>;
+  "ssap://com.webos.service.tvpower/power/turnOnScreen": Entry<{ standbyMode?: "active" }, {}>;
+  "ssap://com.webos.service.tvpower/power/getPowerState": Entry<
+    Empty,
+    { state: "Active" | "Screen Off" | "Active Standby" | "Suspend" | string; processing?: string; powerOnReason?: string }
+  >;
+  "ssap://com.webos.service.update/getCurrentSWInformation": Entry<
+    Empty,
+    {
+      product_name: string;
+      model_name: string;
+      sw_type: string;
+      major_ver: string;
+      minor_ver: string;
+      country: string;
+      country_group?: string;
+      device_id: string;
+      auth_flag?: string;
+      language_code?: string;
+    }
+  >;
+  "ssap://com.webos.service.connectionmanager/getinfo": Entry<
+    Empty,
+    { wiredInfo?: NetworkInterfaceInfo; wifiInfo?: NetworkInterfaceInfo }
+  >;
+  "ssap://settings/getSystemSettings": Entry<
+    { category: string; keys: string[] },
+    { category?: string; settings: Record<string, any> }
+  >;
+  // Options and ranges of settings, not answered by every firmware
+  "ssap://settings/getSystemSettingDesc": Entry<{ category: string; keys: string[] }, { results: SettingDescription[] }>;
+
+  // Notifications
+  "ssap://system.notifications/createToast": Entry<
+    { message: string; iconData?: string; iconExtension?: string },
+    { toastId: string }
+  >;
+  "ssap://system.notifications/createAlert": Entry<
+    {
+      title?: string;
+      message: string;
+      modal?: boolean;
+      buttons: AlertButton[];
+      onclose?: { uri: string; params?: Record<string, unknown> };
+    },
+    { alertId: string }
+  >;
+  "ssap://system.notifications/closeAlert": Entry<{ alertId: string }, {}>;
+
+  // Search
+  "ssap://com.webos.service.search/search": Entry<{ query: string; categories?: string[] }, Record<string, unknown>>;
+
+  // Applications
+  "ssap://com.webos.applicationManager/listLaunchPoints": Entry<Empty, { launchPoints: LaunchPoint[] } | LaunchPointChange>;
+  "ssap://com.webos.applicationManager/listApps": Entry<Empty, { apps: InstalledApp[] }>;
+  "ssap://com.webos.service.applicationmanager/listRunningApps": Entry<Empty, { running: RunningApp[] }>;
+  "ssap://com.webos.applicationManager/getForegroundAppInfo": Entry<
+    Empty,
+    // appName/title are only sent by some firmware versions
+    { appId: string; windowId?: string; processId?: string; appName?: string; title?: string }
+  >;
+  "ssap://system.launcher/launch": Entry<LaunchPayload, { id: string; sessionId?: string }>;
+  "ssap://system.launcher/open": Entry<{ target: string }, { id?: string; sessionId?: string }>;
+  "ssap://system.launcher/close": Entry<{ id: string; sessionId?: string }, {}>;
+
+  // TV / channels
+  "ssap://tv/channelUp": Entry<Empty, {}>;
+  "ssap://tv/channelDown": Entry<Empty, {}>;
+  "ssap://tv/openChannel": Entry<{ channelId?: string; channelNumber?: string }, {}>;
+  "ssap://tv/getCurrentChannel": Entry<Empty, TVChannel>;
+  "ssap://tv/getChannelList": Entry<Empty, { channelList: TVChannel[]; channelListCount?: number }>;
+  "ssap://tv/getChannelProgramInfo": Entry<Empty, { channel?: TVChannel; programList?: TVProgram[] }>;
+
+  // Inputs
+  "ssap://tv/getExternalInputList": Entry<Empty, { devices: ExternalInput[] }>;
+  "ssap://tv/switchInput": Entry<{ inputId: string }, {}>;
+
+  // Text input
+  "ssap://com.webos.service.ime/insertText": Entry<{ text: string; replace: 0 | 1 }, {}>;
+  "ssap://com.webos.service.ime/deleteCharacters": Entry<{ count: number }, {}>;
+  "ssap://com.webos.service.ime/sendEnterKey": Entry<Empty, {}>;
+  // Subscription only: reports whenever a text field gains or loses focus
+  "ssap://com.webos.service.ime/registerRemoteKeyboard": Entry<Empty, { currentWidget?: KeyboardWidget }>;
+
+  // Pointer input
+  "ssap://com.webos.service.networkinput/getPointerInputSocket": Entry<Empty, { socketPath: string }>;
+}
+
+export type SSAPUri = keyof SSAPCatalog;
+
+export type SSAPPayload<U extends SSAPUri> = SSAPCatalog[U]["payload"];
+
+export type SSAPResponse<U extends SSAPUri> = SSAPCatalog[U]["response"] & SSAPResult;
@@ -0,0 +1,85 @@
+import type { LGTVClient } from "./client.js";
+import type { AppState, ChannelState, MediaState, PowerState, StateEvent, TVClientEvents, VolumeState } from "./events.js";
+
+export interface StateField<T> {
+  // null until the TV reported it
+  value: T | null;
+  updatedAt: string | null;
+}
+
+export interface TVState {
+  power: StateField<PowerState>;
+  volume: StateField<VolumeState>;
+  soundOutput: StateField<string>;
+  app: StateField<AppState>;
+  // External input in the foreground ("HDMI_1", "TV", ...), null while an app is shown
+  input: StateField<string | null>;
+  channel: StateField<ChannelState>;
+  media: StateField<MediaState>;
+}
+
+/**
+ * Map a foreground app to the input it shows (webOS runs every input as an app)
+ */
+export function inputForApp(appId: string): string | null {
+  if (appId === "com.webos.app.livetv") return "TV";
+
+  const hdmi = appId.match(/^com\.webos\.app\.hdmi(\d+)$/);
+  if (hdmi) return `HDMI_${hdmi[1]}`;
+
+  const external = appId.match(/^com\.webos\.app\.externalinput\.(\w+)$/);
+  return external ? external[1].toUpperCase() : null;
+}
+
+/**
+ * Live state of one TV, kept up to date by the client's state events.
+ * Reads never go to the TV; every field carries the time it was last reported.
+ */
+export class TVStateModel {
+  private state: TVState = {
+    power: { value: null, updatedAt: null },
+    volume: { value: null, updatedAt: null },
+    soundOutput: { value: null, updatedAt: null },
+    app: { value: null, updatedAt: null },
+    input: { value: null, updatedAt: null },
+    channel: { value: null, updatedAt: null },
+    media: { value: null, updatedAt: null },
+  };
+  private stopListeners: (() => void)[] = [];
+
+  constructor(private client: LGTVClient) {
+    this.listen("powerStateChanged", (power) => this.update("power", power));
+    this.listen("volumeChanged", (volume) => this.update("volume", volume));
+    this.listen("soundOutputChanged", ({ soundOutput }) => this.update("soundOutput", soundOutput));
+    this.listen("appChanged", (app) => {
+      this.update("app", app);
+      this.update("input", inputForApp(app.appId));
+    });
+    this.listen("channelChanged", (channel) => this.update("channel", channel));
+    this.listen("mediaStateChanged", (media) => this.update("media", media));
+  }
+
+  /**
+   * Copy of the current state
+   */
+  snapshot(): TVState {
+    return structuredClone(this.state);
+  }
+
+  /**
+   * Stop listening; the TV subscriptions are dropped unless someone else uses them
+   */
+  stop(): void {
+    for (const stop of this.stopListeners) stop();
+    this.stopListeners = [];
+  }
+
+  private listen<E extends StateEvent>(event: E, listener: (...args: TVClientEvents[E]) => void): void {
+    this.client.on(event, listener);
+    this.stopListeners.push(() => this.client.off(event, listener));
+  }
+
+  private update<K extends keyof TVState>(field: K, value: NonNullable<TVState[K]["value"]> | null): void {
+    this.state[field] = { value, updatedAt: new Date().toISOString() } as TVState[K];
+  }
+}
@@ -0,0 +1,119 @@
+import type { LGTVClient } from "./client.js";
+import type { SSAPResponse, SSAPUri } from "./ssap.js";
+import { assertProfileAllows } from "./permissions.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("subscriptions");
+
+export type SubscriptionListener<U extends SSAPUri> = (data: SSAPResponse<U>) => void;
+
+export interface SubscriptionInfo {
+  uri: SSAPUri;
+  // null until the TV subscription has been sent
+  subscriptionId: string | null;
+  listeners: number;
+}
+
+interface SharedSubscription {
+  uri: SSAPUri;
+  // Resolves once the TV subscription is set up; listeners joining meanwhile wait for it
+  ready: Promise<string>;
+  subscriptionId: string | null;
+  listeners: Set<(data: any) => void>;
+  // Last event, replayed to listeners that join later (the TV only sends the current value once)
+  last?: unknown;
+}
+
+/**
+ * Shares the TV subscriptions of one client between any number of listeners.
+ * There is at most one SSAP subscription per URI: events are fanned out to every
+ * listener and the subscription is dropped when the last listener leaves.
+ */
+export class SubscriptionHub {
+  private shared = new Map<SSAPUri, SharedSubscription>();
+
+  constructor(private client: LGTVClient) {}
+
+  /**
+   * Listen to a URI, subscribing on the TV if nobody listens to it yet
+   * @returns Function that removes the listener again
+   * @throws PermissionDeniedError if the client's permission profile does not cover the URI
+   */
+  async subscribe<U extends SSAPUri>(uri: U, listener: SubscriptionListener<U>): Promise<() => void> {
+    assertProfileAllows(this.client.permissionProfile, uri);
+    const entry = this.shared.get(uri) ?? this.open(uri);
+    const replay = entry.last;
+    entry.listeners.add(listener);
+
+    try {
+      await entry.ready;
+    } catch (err) {
+      entry.listeners.delete(listener);
+      throw err;
+    }
+
+    if (replay !== undefined) {
+      // After the caller's own setup, like a fresh subscription's first event
+      setImmediate(() => entry.listeners.has(listener) && listener(replay as SSAPResponse<U>));
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.release(entry, listener);
+    };
+  }
+
+  /**
+   * List the shared subscriptions with their listener counts
+   */
+  list(): SubscriptionInfo[] {
+    return Array.from(this.shared.values()).map(({ uri, subscriptionId, listeners }) => ({
+      uri,
+      subscriptionId,
+      listeners: listeners.size,
+    }));
+  }
+
+  private open(uri: SSAPUri): SharedSubscription {
+    const listeners = new Set<(data: any) => void>();
+    const ready = this.client.subscribe(uri, (data) => {
+      entry.last = data;
+      for (const listener of [...listeners]) {
+        try {
+          listener(data);
+        } catch (err: any) {
+          log.warn(`⚠️  Subscription listener for ${uri} failed`, { error: err.message });
+        }
+      }
+    });
+    const entry: SharedSubscription = { uri, ready, subscriptionId: null, listeners };
+
+    ready.then(
+      (id) => {
+        entry.subscriptionId = id;
+        log.debug(`📡 Subscribed to ${uri}`, { subscriptionId: id });
+      },
+      () => {
+        if (this.shared.get(uri) === entry) this.shared.delete(uri);
+      }
+    );
+
+    this.shared.set(uri, entry);
+    return entry;
+  }
+
+  private release(entry: SharedSubscription, listener: (data: any) => void): void {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size > 0 || this.shared.get(entry.uri) !== entry) return;
+
+    this.shared.delete(entry.uri);
+    entry.ready
+      .then((id) => {
+        this.client.unsubscribe(id, entry.uri);
+        log.debug(`📡 Unsubscribed from ${entry.uri}`, { subscriptionId: id });
+      })
+      .catch(() => {});
+  }
+}
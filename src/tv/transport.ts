@@ -0,0 +1,55 @@
+import WebSocket from "ws";
+import https from "https";
+import type { TLSSocket } from "tls";
+
+/**
+ * Minimal socket surface LGTVClient needs (a subset of the ws WebSocket API)
+ */
+export interface TVSocket {
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+  on(event: "open" | "message" | "error" | "close", listener: (...args: any[]) => void): unknown;
+  // SHA-256 fingerprint of the server certificate, set before "open" on secure sockets
+  peerFingerprint?: string | null;
+}
+
+/**
+ * Opens sockets to a TV. Swap it out to talk to something other than a
+ * physical set over the LAN (e.g. an in-process fake).
+ */
+export interface TVTransport {
+  open(url: string, options: { secure: boolean }): TVSocket;
+}
+
+// readyState of an open socket (same value as WebSocket.OPEN)
+export const SOCKET_OPEN = 1;
+
+/**
+ * Default transport: real WebSockets. The TV's certificate is self-signed, so it
+ * cannot be verified against a CA; instead its fingerprint is exposed for pinning.
+ */
+export const webSocketTransport: TVTransport = {
+  open(url, { secure }) {
+    const wsOptions: WebSocket.ClientOptions = {};
+
+    if (secure) {
+      // For secure connections, accept self-signed certificates
+      wsOptions.agent = new https.Agent({
+        rejectUnauthorized: false,
+      });
+    }
+
+    const socket: WebSocket & TVSocket = new WebSocket(url, wsOptions);
+
+    if (secure) {
+      // Emitted after the TLS handshake but before "open", so nothing has been sent yet
+      socket.on("upgrade", (res) => {
+        const cert = (res.socket as TLSSocket).getPeerCertificate?.();
+        socket.peerFingerprint = cert?.fingerprint256 || null;
+      });
+    }
+
+    return socket;
+  },
+};
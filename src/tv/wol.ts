@@ -0,0 +1,108 @@
+import dgram from "dgram";
+import net from "net";
+import { setTimeout as sleep } from "timers/promises";
+
+export interface WakeOptions {
+  // Broadcast address the magic packet is sent to (default: WOL_BROADCAST or 255.255.255.255)
+  address?: string;
+  port?: number;
+  // Number of packets to send, some NICs miss the first one
+  repeat?: number;
+}
+
+/**
+ * Normalize a MAC address to lowercase colon-separated form
+ * @returns null if the value is not a valid MAC address
+ */
+export function normalizeMac(mac: string): string | null {
+  const hex = mac.replace(/[^0-9a-f]/gi, "").toLowerCase();
+  if (hex.length !== 12 || !/^[0-9a-f:.-]+$/i.test(mac.trim())) {
+    return null;
+  }
+  return hex.match(/.{2}/g)!.join(":");
+}
+
+/**
+ * Send a Wake-on-LAN magic packet (6 x 0xFF followed by the MAC repeated 16 times)
+ */
+export async function sendMagicPacket(mac: string, options: WakeOptions = {}): Promise<void> {
+  const normalized = normalizeMac(mac);
+  if (!normalized) {
+    throw new Error(`Invalid MAC address: ${mac}`);
+  }
+
+  const macBytes = Buffer.from(normalized.replace(/:/g, ""), "hex");
+  const packet = Buffer.alloc(102, 0xff);
+  for (let i = 0; i < 16; i++) {
+    macBytes.copy(packet, 6 + i * 6);
+  }
+
+  const address = options.address || process.env.WOL_BROADCAST || "255.255.255.255";
+  const port = options.port ?? 9;
+  const repeat = options.repeat ?? 3;
+
+  const socket = dgram.createSocket("udp4");
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      socket.once("error", reject);
+      socket.bind(() => {
+        socket.setBroadcast(true);
+        resolve();
+      });
+    });
+
+    for (let i = 0; i < repeat; i++) {
+      await new Promise<void>((resolve, reject) => {
+        socket.send(packet, 0, packet.length, port, address, (err) => (err ? reject(err) : resolve()));
+      });
+    }
+  } finally {
+    socket.close();
+  }
+}
+
+/**
+ * Check whether a TCP port accepts connections
+ */
+export function isPortOpen(host: string, port: number, timeout: number = 1000): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host, port });
+    const done = (open: boolean) => {
+      socket.destroy();
+      resolve(open);
+    };
+
+    socket.setTimeout(timeout);
+    socket.once("connect", () => done(true));
+    socket.once("timeout", () => done(false));
+    socket.once("error", () => done(false));
+  });
+}
+
+/**
+ * Poll until one of the ports accepts connections
+ * @returns The first port that accepted a connection
+ * @throws The signal's reason once it aborts
+ */
+export async function waitForPort(
+  host: string,
+  ports: number[],
+  options: { timeout?: number; interval?: number; signal?: AbortSignal } = {}
+): Promise<number> {
+  const { timeout = 60000, interval = 1000, signal } = options;
+  const deadline = Date.now() + timeout;
+
+  while (Date.now() < deadline) {
+    signal?.throwIfAborted();
+    for (const port of ports) {
+      if (await isPortOpen(host, port)) {
+        return port;
+      }
+    }
+    // An abort ends the pause early and is thrown at the top of the loop
+    await sleep(interval, undefined, { signal }).catch(() => {});
+  }
+
+  throw new Error(`${host} did not accept connections on port ${ports.join("/")} within ${timeout / 1000}s`);
+}
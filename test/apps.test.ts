@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { normalizeAppName, resolveApp, type AppEntry } from "../src/tv/apps.js";
+
+const apps: AppEntry[] = [
+  { id: "netflix", title: "Netflix" },
+  { id: "youtube.leanback.v4", title: "YouTube" },
+  { id: "com.disney.disneyplus-prod", title: "Disney+" },
+  { id: "com.webos.app.hdmi1", title: "HDMI 1" },
+  { id: "com.webos.app.hdmi2", title: "HDMI 2" },
+  { id: "amazon", title: "Prime Video" },
+];
+
+test("normalizes app names for matching", () => {
+  assert.equal(normalizeAppName("The Disney+ app"), "disneyplus");
+  assert.equal(normalizeAppName("  Prime Video "), "primevideo");
+});
+
+test("resolves apps by id and title", () => {
+  const byId = resolveApp("NETFLIX", apps);
+  assert.equal(byId.status === "resolved" && byId.app.matchedBy, "id");
+
+  const byTitle = resolveApp("disney plus", apps);
+  assert.equal(byTitle.status === "resolved" && byTitle.app.id, "com.disney.disneyplus-prod");
+});
+
+test("lets aliases win over titles", () => {
+  const result = resolveApp("Movies", apps, [{ alias: "movies", appId: "amazon" }]);
+  assert.equal(result.status, "resolved");
+  assert.deepEqual(result.status === "resolved" && result.app, {
+    id: "amazon",
+    title: "Prime Video",
+    score: 1,
+    matchedBy: "alias",
+  });
+});
+
+test("resolves close names by fuzzy matching", () => {
+  const result = resolveApp("youtub", apps);
+  assert.equal(result.status === "resolved" && result.app.id, "youtube.leanback.v4");
+  assert.equal(result.status === "resolved" && result.app.matchedBy, "fuzzy");
+});
+
+test("asks which one when several apps match equally well", () => {
+  const result = resolveApp("hdmi", apps);
+  assert.equal(result.status, "ambiguous");
+  assert.deepEqual(result.status === "ambiguous" && result.candidates.map((app) => app.id).sort(), [
+    "com.webos.app.hdmi1",
+    "com.webos.app.hdmi2",
+  ]);
+});
+
+test("reports unknown apps with suggestions", () => {
+  const result = resolveApp("Spotify", apps);
+  assert.equal(result.status, "not-found");
+  assert.equal(resolveApp("", apps).status, "not-found");
+});
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseChannelNumber, resolveChannel, type Channel, type FavoriteChannel } from "../src/tv/channels.js";
+
+function channel(id: string, major: number, minor: number, name: string): Channel {
+  return {
+    id,
+    number: minor ? `${major}.${minor}` : `${major}`,
+    major,
+    minor,
+    name,
+    type: null,
+    hd: false,
+    radio: false,
+    hidden: false,
+    skipped: false,
+    locked: false,
+    logo: null,
+  };
+}
+
+const channels = [
+  channel("1_5_1", 5, 1, "BBC One HD"),
+  channel("1_5_2", 5, 2, "BBC Two HD"),
+  channel("1_7_0", 7, 0, "ITV"),
+  channel("1_9_0", 9, 0, "Channel 4"),
+  channel("1_12_0", 12, 0, "Channel 5"),
+];
+
+test("parses channel numbers with any separator", () => {
+  assert.deepEqual(parseChannelNumber("5.1"), { major: 5, minor: 1 });
+  assert.deepEqual(parseChannelNumber("5-1"), { major: 5, minor: 1 });
+  assert.deepEqual(parseChannelNumber(" 5 1 "), { major: 5, minor: 1 });
+  assert.deepEqual(parseChannelNumber("005"), { major: 5, minor: null });
+});
+
+test("does not take names for channel numbers", () => {
+  assert.equal(parseChannelNumber("BBC One"), null);
+  assert.equal(parseChannelNumber("5a"), null);
+  assert.equal(parseChannelNumber(""), null);
+});
+
+test("resolves channels by id, number and name", () => {
+  const byId = resolveChannel("1_7_0", channels);
+  assert.equal(byId.status === "resolved" && byId.matchedBy, "id");
+
+  const byNumber = resolveChannel("5.2", channels);
+  assert.equal(byNumber.status === "resolved" && byNumber.channel.name, "BBC Two HD");
+
+  const byName = resolveChannel("itv", channels);
+  assert.equal(byName.status === "resolved" && byName.matchedBy, "name");
+});
+
+test("tunes the first channel on a major number without a plain channel", () => {
+  const result = resolveChannel("5", channels);
+  assert.equal(result.status === "resolved" && result.channel.id, "1_5_1");
+});
+
+test("resolves a close name, but not one shared by several channels", () => {
+  const close = resolveChannel("BBC Two", channels);
+  assert.equal(close.status === "resolved" && close.matchedBy, "fuzzy");
+
+  const shared = resolveChannel("Channel", channels);
+  assert.equal(shared.status, "ambiguous");
+  assert.deepEqual(shared.status === "ambiguous" && shared.candidates.map((c) => c.id).sort(), ["1_12_0", "1_9_0"]);
+});
+
+test("resolves slots of the default favorites group", () => {
+  const favorites: FavoriteChannel[] = [{ group: "Favorites", slot: 3, channelId: "1_9_0" }];
+
+  const result = resolveChannel("fav 3", channels, favorites);
+  assert.equal(result.status === "resolved" && result.channel.name, "Channel 4");
+  assert.equal(resolveChannel("favourite #4", channels, favorites).status, "not-found");
+});
+
+test("reports unknown numbers and names as not found", () => {
+  assert.equal(resolveChannel("42", channels).status, "not-found");
+  assert.equal(resolveChannel("Discovery Science", channels).status, "not-found");
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DEEP_LINK_APPS, resolveDeepLink } from "../src/tv/deeplinks.js";
+
+test("opens YouTube links in the TV app, keeping the start time", () => {
+  const link = resolveDeepLink("https://youtu.be/dQw4w9WgXcQ?t=42");
+  assert.equal(link.service, "youtube");
+  assert.equal(link.appId, DEEP_LINK_APPS.youtube);
+  assert.equal(link.contentId, "dQw4w9WgXcQ");
+  assert.deepEqual(link.params, { contentTarget: "https://www.youtube.com/tv?v=dQw4w9WgXcQ&t=42" });
+
+  assert.equal(resolveDeepLink("www.youtube.com/shorts/dQw4w9WgXcQ").contentId, "dQw4w9WgXcQ");
+});
+
+test("builds the Netflix launch payload from title and watch links", () => {
+  assert.equal(
+    resolveDeepLink("https://www.netflix.com/de-en/title/80057281").contentId,
+    "m=https://www.netflix.com/title/80057281&source_type=4"
+  );
+  assert.equal(
+    resolveDeepLink("netflix.com/watch/80057281?trackId=1").contentId,
+    "m=https://www.netflix.com/watch/80057281&source_type=4"
+  );
+});
+
+test("turns Spotify links into spotify: URIs", () => {
+  assert.equal(resolveDeepLink("https://open.spotify.com/intl-de/track/4uLU6hMCjMI75M1A2tKUQC").contentId, "spotify:track:4uLU6hMCjMI75M1A2tKUQC");
+  assert.equal(resolveDeepLink("spotify:album:1DFixLWuPkv3KT3TnV35m3").service, "spotify");
+});
+
+test("resolves Prime Video and Disney+ titles", () => {
+  const prime = resolveDeepLink("https://www.amazon.de/gp/video/detail/B08BYTMDLL/ref=atv_dp");
+  assert.equal(prime.service, "prime-video");
+  assert.equal(prime.contentId, "B08BYTMDLL");
+
+  const disney = resolveDeepLink("https://www.disneyplus.com/video/3e9d8f0a-2b1c-4d5e-8f7a-1b2c3d4e5f6a");
+  assert.equal(disney.service, "disney-plus");
+  assert.equal(disney.contentId, "3e9d8f0a-2b1c-4d5e-8f7a-1b2c3d4e5f6a");
+});
+
+test("opens other links in the browser", () => {
+  const link = resolveDeepLink("example.com/page");
+  assert.equal(link.service, "browser");
+  assert.equal(link.url, "https://example.com/page");
+  assert.equal(link.contentId, undefined);
+});
+
+test("refuses input that is not a link, or a known service's link without content", () => {
+  assert.throws(() => resolveDeepLink("not a link"), /Not a URL/);
+  assert.throws(() => resolveDeepLink("ftp://example.com/file"), /Unsupported URL scheme/);
+  assert.throws(() => resolveDeepLink("https://www.youtube.com/feed/trending"), /No YouTube video/);
+  assert.throws(() => resolveDeepLink("https://open.spotify.com/user/someone"), /No Spotify item/);
+});
@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { matchesIfNoneMatch } from "../src/tv/icons.js";
+
+const etag = '"3f2a9c"';
+
+test("matches the ETag itself and *", () => {
+  assert.equal(matchesIfNoneMatch(etag, etag), true);
+  assert.equal(matchesIfNoneMatch(" * ", etag), true);
+});
+
+test("matches any tag of a list, compared weakly", () => {
+  assert.equal(matchesIfNoneMatch('"0000", "3f2a9c"', etag), true);
+  assert.equal(matchesIfNoneMatch('W/"3f2a9c"', etag), true);
+  assert.equal(matchesIfNoneMatch('"0000",W/"3f2a9c"', etag), true);
+});
+
+test("does not match other tags, malformed headers or no header", () => {
+  assert.equal(matchesIfNoneMatch('"0000", W/"1111"', etag), false);
+  assert.equal(matchesIfNoneMatch("3f2a9c", etag), false);
+  assert.equal(matchesIfNoneMatch(undefined, etag), false);
+  assert.equal(matchesIfNoneMatch("", etag), false);
+});
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { afterEach, test } from "node:test";
+import { createLogger, redact, redactText, setLogFormat, setLogLevel } from "../src/logger.js";
+
+/**
+ * Capture what a logger writes to stdout while fn runs
+ */
+function captureStdout(fn: () => void): string {
+  const write = process.stdout.write;
+  let output = "";
+  process.stdout.write = ((chunk: string) => {
+    output += chunk;
+    return true;
+  }) as typeof process.stdout.write;
+  try {
+    fn();
+  } finally {
+    process.stdout.write = write;
+  }
+  return output;
+}
+
+afterEach(() => {
+  setLogFormat("pretty");
+  setLogLevel("test", "info");
+});
+
+test("redacts secrets in free text", () => {
+  assert.equal(redactText('{"client-key":"abc123"}'), '{"client-key":"[REDACTED]"}');
+  assert.equal(redactText("using sk-ant-api03-secret"), "using [REDACTED]");
+  assert.equal(redactText("Authorization: Bearer eyJhbGciOi.x.y"), "Authorization: Bearer [REDACTED]");
+  assert.equal(redactText("PIN 246810 accepted"), "PIN [REDACTED] accepted");
+  assert.equal(redactText("volume 12"), "volume 12");
+});
+
+test("redacts secret fields at any depth, whatever their spelling", () => {
+  const circular: Record<string, unknown> = { clientKey: "abc" };
+  circular.self = circular;
+
+  assert.deepEqual(redact({ ip: "192.168.1.2", "client-key": "abc", nested: [{ api_key: "k", pin: 1234 }] }), {
+    ip: "192.168.1.2",
+    "client-key": "[REDACTED]",
+    nested: [{ api_key: "[REDACTED]", pin: "[REDACTED]" }],
+  });
+  assert.deepEqual(redact(circular), { clientKey: "[REDACTED]", self: "[Circular]" });
+  assert.deepEqual(redact(new Error('bad {"pin":"1234"}')), { name: "Error", message: 'bad {"pin":"[REDACTED]"}' });
+});
+
+test("writes redacted JSON lines", () => {
+  setLogFormat("json");
+  const output = captureStdout(() => createLogger("test").info("paired", { ip: "192.168.1.2", clientKey: "abc" }));
+
+  const line = JSON.parse(output);
+  assert.equal(line.level, "info");
+  assert.equal(line.module, "test");
+  assert.equal(line.msg, "paired");
+  assert.equal(line.clientKey, "[REDACTED]");
+});
+
+test("honours per-module levels", () => {
+  const log = createLogger("test");
+  setLogLevel("test", "warn");
+
+  assert.equal(captureStdout(() => log.info("hidden")), "");
+  assert.equal(log.isEnabled("error"), true);
+  assert.equal(log.isEnabled("debug"), false);
+});
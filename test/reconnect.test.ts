@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import WebSocket from "ws";
+import { LGTVClient } from "../src/tv/client.js";
+import type { TVClientEvents } from "../src/tv/events.js";
+import type { TVSocket, TVTransport } from "../src/tv/transport.js";
+import { VirtualTV } from "../src/simulator/virtual-tv.js";
+
+/**
+ * Reconnecting and certificate pinning against the virtual TV. The TV speaks plain ws, so
+ * pinning goes through a transport that reports a chosen certificate fingerprint.
+ */
+
+const PORT = 39310;
+const PIN = "135790";
+
+const tv = new VirtualTV({ host: "127.0.0.1", port: PORT, pin: PIN, ssdp: false, wolPort: 0, bootDelay: 50 });
+
+// Fingerprint the "TV" presents to the next socket
+let fingerprint = "AA:AA";
+const pinningTransport: TVTransport = {
+  open(url) {
+    const socket: WebSocket & TVSocket = new WebSocket(url.replace(/^wss:/, "ws:"));
+    socket.peerFingerprint = fingerprint;
+    return socket;
+  },
+};
+
+type Disconnect = TVClientEvents["disconnected"][0];
+
+async function until(condition: () => boolean, timeout = 3000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Condition not met in time");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Pair a fresh client and return its client-key
+ */
+async function pair(): Promise<string> {
+  const client = new LGTVClient({ ip: "127.0.0.1", secure: false, port: PORT, autoReconnect: false });
+  try {
+    await client.connect();
+    await client.initiateRegistration("PIN");
+    return await client.completePairing(PIN);
+  } finally {
+    client.disconnect();
+  }
+}
+
+before(() => tv.start());
+after(() => tv.stop());
+
+test("reconnects after a power cycle and restores subscriptions", async () => {
+  const clientKey = await pair();
+  const client = new LGTVClient({ ip: "127.0.0.1", secure: false, port: PORT, clientKey, reconnectBaseDelay: 20, reconnectMaxDelay: 100 });
+  const disconnects: Disconnect[] = [];
+  client.on("disconnected", (info) => disconnects.push(info));
+
+  try {
+    await client.connect();
+    await client.registerWithStoredKey();
+    const volumes: number[] = [];
+    await client.subscribe("ssap://audio/getVolume", (data) => volumes.push(data.volume));
+    await until(() => volumes.length === 1);
+
+    await tv.powerOff();
+    await until(() => disconnects.length === 1);
+    assert.deepEqual(disconnects, [{ reason: "lost", willReconnect: true }]);
+    assert.equal(client.isConnected(), false);
+
+    // Attempts keep failing while the TV is off, and succeed once it is back
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await tv.wake();
+    await until(() => client.isConnected() && volumes.length === 2);
+
+    await client.request("ssap://audio/setVolume", { volume: 22 });
+    await until(() => volumes.includes(22));
+  } finally {
+    client.disconnect();
+  }
+});
+
+test("gives up when the TV no longer accepts the client-key", async () => {
+  const client = new LGTVClient({ ip: "127.0.0.1", secure: false, port: PORT, clientKey: "revoked", reconnectBaseDelay: 20 });
+  const disconnects: Disconnect[] = [];
+  client.on("disconnected", (info) => disconnects.push(info));
+
+  try {
+    await client.connect();
+    await tv.powerOff();
+    await tv.wake();
+
+    await until(() => disconnects.length === 2);
+    assert.deepEqual(disconnects[1], { reason: "rejected", willReconnect: false });
+    assert.match(client.reconnectError ?? "", /no longer accepts the stored client-key/);
+    assert.equal(client.isConnected(), false);
+  } finally {
+    client.disconnect();
+  }
+});
+
+test("connects to a TV presenting the pinned certificate", async () => {
+  fingerprint = "AA:AA";
+  const client = new LGTVClient({ ip: "127.0.0.1", port: PORT, transport: pinningTransport, pinnedFingerprint: "AA:AA", autoReconnect: false });
+
+  try {
+    await client.connect();
+    assert.equal(client.certificateFingerprint, "AA:AA");
+    assert.equal(client.endpoint?.secure, true);
+  } finally {
+    client.disconnect();
+  }
+});
+
+test("refuses another certificate and never falls back to ws", async () => {
+  fingerprint = "BB:BB";
+  const client = new LGTVClient({ ip: "127.0.0.1", port: PORT, transport: pinningTransport, pinnedFingerprint: "AA:AA", autoReconnect: false });
+
+  await assert.rejects(client.connect(), /Certificate mismatch/);
+  assert.equal(client.isConnected(), false);
+  assert.equal(client.endpoint, null);
+
+  const plain = new LGTVClient({ ip: "127.0.0.1", secure: false, port: PORT, pinnedFingerprint: "AA:AA", autoReconnect: false });
+  await assert.rejects(plain.connect(), /pinned, refusing to connect without TLS/);
+});
+
+test("stops reconnecting when the certificate changes", async () => {
+  fingerprint = "AA:AA";
+  const client = new LGTVClient({ ip: "127.0.0.1", port: PORT, transport: pinningTransport, pinnedFingerprint: "AA:AA", reconnectBaseDelay: 20 });
+  const disconnects: Disconnect[] = [];
+  client.on("disconnected", (info) => disconnects.push(info));
+
+  try {
+    await client.connect();
+    fingerprint = "BB:BB";
+    await tv.powerOff();
+    await tv.wake();
+
+    await until(() => disconnects.length === 2);
+    assert.deepEqual(disconnects[1], { reason: "certificate-mismatch", willReconnect: false });
+    assert.match(client.reconnectError ?? "", /Certificate mismatch/);
+  } finally {
+    client.disconnect();
+  }
+});
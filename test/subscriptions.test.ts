@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { LGTVClient } from "../src/tv/client.js";
+import type { PermissionProfile } from "../src/tv/permissions.js";
+import { PermissionDeniedError } from "../src/tv/permissions.js";
+import { SubscriptionHub } from "../src/tv/subscriptions.js";
+
+/**
+ * Stands in for LGTVClient: records the TV subscriptions the hub opens and closes,
+ * and pushes events to them
+ */
+class FakeClient {
+  opened: string[] = [];
+  closed: string[] = [];
+  failNext = false;
+  private callbacks = new Map<string, (data: any) => void>();
+
+  constructor(readonly permissionProfile: PermissionProfile = "full-control") {}
+
+  async subscribe(uri: string, callback: (data: any) => void): Promise<string> {
+    if (this.failNext) {
+      this.failNext = false;
+      throw new Error("Not connected");
+    }
+    const id = `sub-${this.opened.length + 1}`;
+    this.opened.push(uri);
+    this.callbacks.set(id, callback);
+    return id;
+  }
+
+  unsubscribe(id: string, uri: string): void {
+    this.callbacks.delete(id);
+    this.closed.push(uri);
+  }
+
+  push(data: unknown): void {
+    for (const callback of this.callbacks.values()) callback(data);
+  }
+}
+
+function hubFor(client: FakeClient): SubscriptionHub {
+  return new SubscriptionHub(client as unknown as LGTVClient);
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+test("shares one TV subscription between listeners", async () => {
+  const client = new FakeClient();
+  const hub = hubFor(client);
+  const first: number[] = [];
+  const second: number[] = [];
+
+  const stopFirst = await hub.subscribe("ssap://audio/getVolume", (data) => first.push(data.volume));
+  const stopSecond = await hub.subscribe("ssap://audio/getVolume", (data) => second.push(data.volume));
+  client.push({ volume: 7 });
+
+  assert.deepEqual(client.opened, ["ssap://audio/getVolume"]);
+  assert.deepEqual(first, [7]);
+  assert.deepEqual(second, [7]);
+  assert.deepEqual(hub.list(), [{ uri: "ssap://audio/getVolume", subscriptionId: "sub-1", listeners: 2 }]);
+
+  stopFirst();
+  stopFirst();
+  assert.deepEqual(client.closed, []);
+
+  stopSecond();
+  await tick();
+  assert.deepEqual(client.closed, ["ssap://audio/getVolume"]);
+  assert.deepEqual(hub.list(), []);
+});
+
+test("replays the last event to listeners that join later", async () => {
+  const client = new FakeClient();
+  const hub = hubFor(client);
+  await hub.subscribe("ssap://audio/getVolume", () => {});
+  client.push({ volume: 15 });
+
+  const late: number[] = [];
+  await hub.subscribe("ssap://audio/getVolume", (data) => late.push(data.volume));
+  assert.deepEqual(late, []);
+
+  await tick();
+  assert.deepEqual(late, [15]);
+});
+
+test("subscribes again after a failed TV subscription", async () => {
+  const client = new FakeClient();
+  const hub = hubFor(client);
+  client.failNext = true;
+
+  await assert.rejects(hub.subscribe("ssap://tv/getCurrentChannel", () => {}), /Not connected/);
+  assert.deepEqual(hub.list(), []);
+
+  await hub.subscribe("ssap://tv/getCurrentChannel", () => {});
+  assert.deepEqual(client.opened, ["ssap://tv/getCurrentChannel"]);
+});
+
+test("refuses URIs outside the permission profile without reaching the TV", async () => {
+  const client = new FakeClient("read-only");
+  const hub = hubFor(client);
+
+  await assert.rejects(hub.subscribe("ssap://com.webos.service.ime/registerRemoteKeyboard", () => {}), PermissionDeniedError);
+  await hub.subscribe("ssap://audio/getVolume", () => {});
+  assert.deepEqual(client.opened, ["ssap://audio/getVolume"]);
+});
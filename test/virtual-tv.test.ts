@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { LGTVClient } from "../src/tv/client.js";
+import { VirtualTV } from "../src/simulator/virtual-tv.js";
+
+/**
+ * End to end against the virtual TV: pairing, requests, subscriptions and the pointer socket
+ * go through the real client and real WebSockets, nothing is mocked.
+ */
+
+const PORT = 39300;
+const PIN = "246810";
+
+const tv = new VirtualTV({ host: "127.0.0.1", port: PORT, pin: PIN, ssdp: false, wolPort: 0 });
+const client = new LGTVClient({ ip: "127.0.0.1", secure: false, port: PORT, autoReconnect: false });
+
+/**
+ * Wait until a condition holds, e.g. for a pointer frame (which gets no answer) to arrive
+ */
+async function until(condition: () => boolean, timeout = 2000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Condition not met in time");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+before(async () => {
+  await tv.start();
+  await client.connect();
+});
+
+after(async () => {
+  client.disconnect();
+  await tv.stop();
+});
+
+test("pairs with the PIN shown on the TV", async () => {
+  const result = await client.initiateRegistration("PIN");
+  assert.deepEqual(result, { requiresPIN: true, requiresPrompt: false });
+
+  const clientKey = await client.completePairing(PIN);
+  assert.ok(clientKey);
+  assert.equal(client.pairingState, "paired");
+});
+
+test("answers a request", async () => {
+  tv.state.volume = 12;
+  const { volume } = await client.request("ssap://audio/getVolume");
+  assert.equal(volume, 12);
+});
+
+test("pushes subscription updates", async () => {
+  const volumes: number[] = [];
+  const id = await client.subscribe("ssap://audio/getVolume", (data) => {
+    if (typeof data.volume === "number") volumes.push(data.volume);
+  });
+
+  await until(() => volumes.length === 1);
+  await client.request("ssap://audio/setVolume", { volume: 30 });
+  await until(() => volumes.includes(30));
+
+  client.unsubscribe(id, "ssap://audio/getVolume");
+  assert.deepEqual(volumes, [12, 30]);
+});
+
+test("moves the pointer", async () => {
+  const { x, y } = tv.state.pointer;
+  await client.movePointer(40, -25);
+
+  await until(() => tv.state.pointer.x !== x);
+  assert.deepEqual(tv.state.pointer, { x: x + 40, y: y - 25 });
+});